@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+
+type AllowanceInputProps = {
+  value: number;
+  onCommit: (allowance: number) => void;
+  className?: string;
+};
+
+// A token allowance field that only commits when the adjudicator leaves it or presses
+// Enter, so typing "12" is one change in the undo history, ledger and event log
+// rather than one per keystroke. Escape puts the current allowance back.
+export default function AllowanceInput({ value, onCommit, className }: AllowanceInputProps) {
+  const [draft, setDraft] = useState<string>(String(value));
+
+  // Undo, redo and loads change the allowance underneath the field
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const allowance = Math.max(0, parseInt(draft || "0", 10) || 0);
+    setDraft(String(allowance));
+    if (allowance !== value) onCommit(allowance);
+  };
+
+  return (
+    <input
+      type="number"
+      min={0}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+        if (e.key === "Escape") setDraft(String(value));
+      }}
+      className={className}
+    />
+  );
+}
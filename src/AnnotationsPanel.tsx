@@ -0,0 +1,120 @@
+import { ANNOTATION_KIND_LABELS } from "./annotations";
+import type { GameAction } from "./gameState";
+import type { Annotation, TrackParticipant } from "./gameTypes";
+
+type AnnotationsPanelProps = {
+  annotations: Annotation[];
+  // How many of them the map is showing
+  visibleCount: number;
+  roundNumber: number;
+  participants: TrackParticipant[];
+  showDrawToolbar: boolean;
+  onShowDrawToolbar: (show: boolean) => void;
+  showAllAnnotations: boolean;
+  onShowAllAnnotations: (show: boolean) => void;
+  recordHistory: (label: string) => void;
+  dispatch: (action: GameAction) => void;
+};
+
+// The settings section listing what has been drawn on the map
+export default function AnnotationsPanel({
+  annotations,
+  visibleCount,
+  roundNumber,
+  participants,
+  showDrawToolbar,
+  onShowDrawToolbar,
+  showAllAnnotations,
+  onShowAllAnnotations,
+  recordHistory,
+  dispatch,
+}: AnnotationsPanelProps) {
+  const getOwnerName = (ownerId: string | null) =>
+    ownerId ? participants.find((participant) => participant.id === ownerId)?.name ?? ownerId : "Adjudicator";
+
+  const setAnnotationRound = (annotationId: string, round: number | null) => {
+    recordHistory(round === null ? "Showed annotation in every round" : `Tied annotation to round ${round}`);
+    dispatch({ type: "updateAnnotation", annotationId, updates: { round } });
+  };
+
+  const setAnnotationPublic = (annotationId: string, isPublic: boolean) => {
+    recordHistory(isPublic ? "Shared annotation with the players" : "Made annotation private");
+    dispatch({ type: "updateAnnotation", annotationId, updates: { public: isPublic } });
+  };
+
+  const removeAnnotation = (annotationId: string) => {
+    recordHistory("Erased annotation");
+    dispatch({ type: "removeAnnotation", annotationId });
+  };
+
+  const clearAnnotations = () => {
+    if (!annotations.length) return;
+    recordHistory("Erased all annotations");
+    dispatch({ type: "clearAnnotations" });
+  };
+
+  return (
+    <section className="border border-white/10 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold">Annotations</h3>
+        <span className="pill">{visibleCount}/{annotations.length} shown</span>
+      </div>
+      <div className="space-y-3 text-xs">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showDrawToolbar}
+            onChange={(e) => onShowDrawToolbar(e.target.checked)}
+            className="w-4 h-4"
+          />
+          Show drawing tools on the map
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showAllAnnotations}
+            onChange={(e) => onShowAllAnnotations(e.target.checked)}
+            className="w-4 h-4"
+          />
+          Show annotations from every round (the presenter view keeps to round {roundNumber})
+        </label>
+        {annotations.length ? (
+          <ul className="unit-list">
+            {annotations.map((annotation) => (
+              <li key={annotation.id} className="unit-list-entry">
+                <span className="w-3 h-3 rounded" style={{ background: annotation.color }} />
+                <span className="font-semibold">{ANNOTATION_KIND_LABELS[annotation.kind]}</span>
+                {annotation.text && <span>“{annotation.text}”</span>}
+                <span className="opacity-70">{getOwnerName(annotation.ownerId)}</span>
+                <button
+                  onClick={() => setAnnotationRound(annotation.id, annotation.round === null ? roundNumber : null)}
+                  className="button-ghost"
+                  title={annotation.round === null ? `Show only in round ${roundNumber}` : "Show in every round"}
+                >
+                  {annotation.round === null ? "Every round" : `Round ${annotation.round}`}
+                </button>
+                <button
+                  onClick={() => setAnnotationPublic(annotation.id, !annotation.public)}
+                  className="button-ghost"
+                  title={annotation.public ? "Keep it to its owner and off the presenter view" : "Show it on the presenter view and to every player"}
+                >
+                  {annotation.public ? "Public" : "Private"}
+                </button>
+                <button
+                  onClick={() => removeAnnotation(annotation.id)}
+                  className="pill-remove"
+                  aria-label={`Erase ${ANNOTATION_KIND_LABELS[annotation.kind].toLowerCase()}`}
+                >×</button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="opacity-70">Nothing drawn yet.</div>
+        )}
+        {annotations.length > 0 && (
+          <button onClick={clearAnnotations} className="button-ghost">Erase all</button>
+        )}
+      </div>
+    </section>
+  );
+}
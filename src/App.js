@@ -1,6 +0,0 @@
-import { jsx as _jsx } from "react/jsx-runtime";
-import GameWorldMap from "./GameWorldMap";
-function App() {
-    return _jsx(GameWorldMap, {});
-}
-export default App;
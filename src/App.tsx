@@ -1,7 +1,9 @@
 import GameWorldMap from "./GameWorldMap";
+import PresenterView from "./PresenterView";
+import { isPresenterWindow } from "./presenterChannel";
 
 function App() {
-  return <GameWorldMap />;
+  return isPresenterWindow() ? <PresenterView /> : <GameWorldMap />;
 }
 
 export default App;
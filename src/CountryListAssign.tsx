@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { matchCountryList, parseCountryList } from "./countrySearch";
+import type { CountryListMatch, CountrySearchEntry } from "./countrySearch";
+
+type CountryListAssignProps = {
+  // The countries on the loaded map
+  countries: CountrySearchEntry[];
+  labelPlaceholder: string;
+  onAssign: (countries: string[], label?: string) => void;
+};
+
+// A pasted list of countries is checked against the map and previewed; nothing is
+// assigned until the adjudicator has seen what matched and settled the near misses.
+export default function CountryListAssign({ countries, labelPlaceholder, onAssign }: CountryListAssignProps) {
+  const [text, setText] = useState<string>("");
+  const [label, setLabel] = useState<string>("");
+  const [preview, setPreview] = useState<CountryListMatch[] | null>(null);
+  // Suggestion picked for each ambiguous entry, by its position in the preview
+  const [choices, setChoices] = useState<Record<number, string>>({});
+
+  const checkList = () => {
+    const entries = parseCountryList(text);
+    if (!entries.length) return;
+    const matches = matchCountryList(entries, countries);
+    setPreview(matches);
+    // A lone suggestion is picked in advance; several wait for a choice
+    setChoices(
+      Object.fromEntries(
+        matches.flatMap((match, index) => (match.status === "ambiguous" && match.suggestions.length === 1 ? [[index, match.suggestions[0]]] : []))
+      )
+    );
+  };
+
+  const matched = preview?.filter((match) => match.status === "matched") ?? [];
+  const unknown = preview?.filter((match) => match.status === "unknown") ?? [];
+  const resolved = Array.from(
+    new Set([...matched.flatMap((match) => (match.country ? [match.country] : [])), ...Object.values(choices).filter(Boolean)])
+  );
+
+  const assign = () => {
+    if (!resolved.length) return;
+    onAssign(resolved, label.trim() || undefined);
+    setText("");
+    setLabel("");
+    setPreview(null);
+    setChoices({});
+  };
+
+  return (
+    <div className="country-list-assign">
+      <textarea
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setPreview(null);
+        }}
+        placeholder="Country names or ISO codes, separated by commas or new lines"
+        className="w-full h-16 bg-white/10 border border-white/10 rounded px-2 py-1 text-xs"
+      />
+      <div className="token-controls">
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder={labelPlaceholder}
+          className="flex-1 bg-white/10 border border-white/10 rounded px-2 py-1 text-xs"
+        />
+        <button type="button" onClick={checkList} disabled={!text.trim()} className="button-soft text-xs">
+          Check List
+        </button>
+      </div>
+      {preview && (
+        <div className="country-list-preview">
+          {matched.length > 0 && (
+            <div>
+              <div className="label-inline">Matched ({matched.length})</div>
+              <div className="country-list-entries">
+                {matched.map((match, index) => (
+                  <span key={`${match.entry}-${index}`} className="pill country-list-matched">
+                    {match.country === match.entry ? match.entry : `${match.entry} → ${match.country}`}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+          {preview.some((match) => match.status === "ambiguous") && (
+            <div>
+              <div className="label-inline">Did you mean</div>
+              {preview.map((match, index) =>
+                match.status === "ambiguous" ? (
+                  <label key={`${match.entry}-${index}`} className="country-list-choice">
+                    <span>{match.entry}</span>
+                    <select
+                      value={choices[index] ?? ""}
+                      onChange={(e) => setChoices((prev) => ({ ...prev, [index]: e.target.value }))}
+                      className="bg-white/10 border border-white/10 rounded px-2 py-1 text-xs"
+                    >
+                      <option value="">Skip</option>
+                      {match.suggestions.map((suggestion) => (
+                        <option key={suggestion} value={suggestion}>{suggestion}</option>
+                      ))}
+                    </select>
+                  </label>
+                ) : null
+              )}
+            </div>
+          )}
+          {unknown.length > 0 && (
+            <div>
+              <div className="label-inline">Not on the map ({unknown.length}), skipped</div>
+              <div className="country-list-entries">
+                {unknown.map((match, index) => (
+                  <span key={`${match.entry}-${index}`} className="pill country-list-unknown">{match.entry}</span>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="token-controls">
+            <button type="button" onClick={assign} disabled={!resolved.length} className="button-primary text-xs">
+              Assign {resolved.length} {resolved.length === 1 ? "country" : "countries"}
+            </button>
+            <button type="button" onClick={() => setPreview(null)} className="button-ghost text-xs">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,2 +0,0 @@
-import "leaflet/dist/leaflet.css";
-export default function GameWorldMap(): import("react/jsx-runtime").JSX.Element;
@@ -1,35 +1,154 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useReducer, useRef, useState } from "react";
 import type { KeyboardEvent as ReactKeyboardEvent, PointerEvent as ReactPointerEvent, ReactNode } from "react";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
+import type {
+  AdjudicationEffect,
+  AgreementStatus,
+  CustomTrack,
+  ExternalOrganization,
+  LatLng,
+  LocalActor,
+  Player,
+  TimeUnit,
+  TokenPoolRef,
+  TrackParticipant,
+  InfectionStatus,
+  TrackThreshold,
+} from "./gameTypes";
+import { getGameSaveFileName, parseGameSave, serializeGameSave } from "./gameSave";
+import type { GameSnapshot } from "./gameSave";
+import {
+  createInitialGameState,
+  findActor,
+  gameReducer,
+  getParticipantPool,
+  getTransferAmount,
+  normalizeGameState,
+} from "./gameState";
+import type { GameAction, GameState } from "./gameState";
+import { AUTOSAVE_DEBOUNCE_MS, listAutosaves, readAutosave, writeAutosave } from "./autosave";
+import type { AutosaveEntry } from "./autosave";
+import { createHistory, pushHistory, redoHistory, undoHistory } from "./history";
+import type { HistoryEntry, HistoryStacks } from "./history";
+import {
+  DEFAULT_FOG_OPACITY,
+  DEFAULT_FOG_RADIUS_KM,
+  clearFog,
+  drawFog,
+  getFogVisibility,
+  isFogged,
+  transformFogForZoom,
+} from "./fogOfWar";
+import { buildAfterActionReport, getReportFileName, renderReportHtml, renderReportMarkdown } from "./afterActionReport";
+import { EMPTY_EVENT_FILTER, GAME_EVENT_TYPE_LABELS, filterEvents, stampEvents, withEventLog } from "./eventLog";
+import type { GameEvent, GameEventDraft, GameEventFilter, GameEventType } from "./eventLog";
+import { BUNDLED_BOUNDARIES_SOURCE, getCountryCode, loadBundledBoundaries, readBoundariesFile } from "./countryBoundaries";
+import type { CountryBoundaries, CountryGeoFeature } from "./countryBoundaries";
+import type { CountryCodes } from "./countryCodes";
+import {
+  WORLD_BOUNDS,
+  blendHexColors,
+  createActorIcon,
+  createInfectionOverlay,
+  createTreatyOverlay,
+  getCountryAnchor,
+  largestPartBounds,
+} from "./mapGraphics";
+import type { TreatyLine } from "./mapGraphics";
+import { NEUTRAL_COLOR, PLAYER_COLORS } from "./playerColors";
+import { AGREEMENT_STATUS_LABELS, createAgreement, getRoundsRemaining } from "./agreements";
+import {
+  ANNOTATION_HINTS,
+  ANNOTATION_KINDS,
+  ANNOTATION_KIND_LABELS,
+  ANNOTATION_POINTS,
+  canFinishAnnotation,
+  isAnnotationShownTo,
+  isAnnotationVisible,
+} from "./annotations";
+import { getStackStrength } from "./mapUnits";
+import { TOKEN_LEDGER_KIND_LABELS, TOKEN_POOL_KIND_LABELS, getPoolKey, getPoolLedger, isSamePool, parsePoolKey } from "./tokenLedger";
+import { SELF_STANCE_COLOR, STANCES, getCountryStance, getStance, getStanceInfo } from "./relationships";
+import { COUNTRY_CYCLE_MODE_LABELS, getCountryCycle, searchCountries } from "./countrySearch";
+import type { CountryCycleMode, CountrySearchEntry } from "./countrySearch";
+import { buildLandAdjacency, getNeighbours, normalizeSeaLink, withSeaLinks } from "./adjacency";
+import type { SeaLink } from "./adjacency";
+import {
+  INFECTION_STATUS_LABELS,
+  getEffectiveRate,
+  getInfectionStatus,
+  getVaccineFactor,
+  simulateSpread,
+} from "./pandemic";
+import {
+  DEFAULT_BASEMAP_SETTINGS,
+  addBasemap,
+  createCountryLabels,
+  isValidTileUrl,
+  readBasemapSettings,
+  writeBasemapSettings,
+} from "./basemap";
+import type { BasemapMode, BasemapSettings } from "./basemap";
+import { BUILT_IN_SCENARIOS, DEFAULT_SCENARIO, readScenarioFile } from "./scenarioPacks";
+import type { ScenarioPack } from "./scenarioPacks";
+import {
+  DICE_MODE_LABELS,
+  createRng,
+  describeDiceRoll,
+  parseDiceExpression,
+  parseSeed,
+  randomSeed,
+  rollDiceExpression,
+  rollFace,
+} from "./dice";
+import type { DiceHistoryEntry, DiceMode, DiceRoll } from "./dice";
+import {
+  ADJUDICATION_EFFECT_LABELS,
+  DEFAULT_ACTION_ROLL,
+  describeAdjudicationEffect,
+  getAdjudicationStage,
+} from "./adjudication";
+import type { AdjudicationEffectKind } from "./adjudication";
+import { TRACK_NAME_SUGGESTIONS, clampTrackValue, createCustomTrack, describeCrossing, getCrossedThresholds } from "./customTracks";
+import AllowanceInput from "./AllowanceInput";
+import CountryListAssign from "./CountryListAssign";
+import UnitsPanel from "./UnitsPanel";
+import AnnotationsPanel from "./AnnotationsPanel";
+import useUnitLayer from "./useUnitLayer";
+import useAnnotationLayer from "./useAnnotationLayer";
+import useBoxSelect from "./useBoxSelect";
+import NationalInterestTrack from "./NationalInterestTrack";
+import TrackHistoryChart from "./TrackHistoryChart";
+import TrackMeters from "./TrackMeters";
+import { getPresenterUrl, openPresenterChannel } from "./presenterChannel";
+import type { PresenterChannel, PresenterSnapshot, PresenterTimer } from "./presenterChannel";
 
-type LatLng = { lat: number; lng: number };
-type Player = { id: string; name: string; color: string };
 type CountryLayer = L.Path & L.Polygon;
-type TimeUnit = "days" | "months" | "years";
-type OwnershipMap = Record<string, string[]>;
-type LocalActor = { id: string; name: string; color: string; notes: string; position: LatLng };
-type ExternalOrganization = {
-  id: string;
-  name: string;
-  picture?: string; // Base64 data URL or regular URL
-  pictureFile?: File; // Original file for reference
-  position: LatLng;
-  width: number;
-  height: number;
-  imageHeight?: number; // Height of the image area in pixels
-  color: string;
-  notes: string;
+type OverlayKey = "timer" | "interest" | "log" | "tracks";
+type TrackAlert = { id: string; message: string; color: string };
+type FogTool = "reveal" | "refog";
+type ActionDraft = { participantId: string; targetCountry: string; tokens: number; description: string };
+type RulingDraft = {
+  actionId: string;
+  expression: string;
+  roll: DiceRoll | null;
+  error: string | null;
+  outcome: string;
+  effects: AdjudicationEffect[];
 };
-type TokenPool = { allowance: number; available: number };
-type TrackParticipant = { id: string; name: string; color: string; kind: "player" | "actor" | "organization"; territory?: string };
-type NationalInterestTrackProps = {
-  levels: number;
-  participants: TrackParticipant[];
-  positions: Record<string, number>;
-  onMove: (id: string, delta: number) => void;
+// Form fields for the next effect; only those the chosen kind needs are read
+type EffectDraft = {
+  kind: AdjudicationEffectKind;
+  country: string;
+  playerId: string;
+  replaceOwners: boolean;
+  // "player:<id>", "actor:<id>" or "country:<name>"
+  pool: string;
+  participantId: string;
+  trackId: string;
+  delta: number;
 };
-type OverlayKey = "timer" | "interest";
 type OverlayLayout = {
   x: number;
   y: number;
@@ -48,6 +167,12 @@ type DragState = {
   startWidth: number;
   startHeight: number;
 };
+type EventLogTimelineProps = {
+  events: GameEvent[];
+  players: Player[];
+  filter: GameEventFilter;
+  onFilterChange: (filter: GameEventFilter) => void;
+};
 type OverlayPanelProps = {
   id: OverlayKey;
   title: string;
@@ -67,52 +192,6 @@ type OverlayPanelProps = {
   children: ReactNode;
 };
 
-const NEUTRAL_COLOR = "#94a3b8";
-
-const hexToRgb = (hex: string) => {
-  const normalized = hex.replace(/[^0-9a-f]/gi, "");
-  if (normalized.length !== 6) return null;
-  const bigint = parseInt(normalized, 16);
-  const r = (bigint >> 16) & 255;
-  const g = (bigint >> 8) & 255;
-  const b = bigint & 255;
-  return { r, g, b };
-};
-
-const rgbToHex = (r: number, g: number, b: number) =>
-  `#${[r, g, b]
-    .map((v) => {
-      const clamped = Math.max(0, Math.min(255, Math.round(v)));
-      return clamped.toString(16).padStart(2, "0");
-    })
-    .join("")}`;
-
-const blendHexColors = (colors: string[]) => {
-  if (!colors.length) return NEUTRAL_COLOR;
-  const valid = colors
-    .map((hex) => ({ hex, rgb: hexToRgb(hex) }))
-    .filter((entry) => entry.rgb !== null) as { hex: string; rgb: { r: number; g: number; b: number } }[];
-  if (!valid.length) return NEUTRAL_COLOR;
-  const totals = valid.reduce(
-    (acc, { rgb }) => {
-      acc.r += rgb.r;
-      acc.g += rgb.g;
-      acc.b += rgb.b;
-      return acc;
-    },
-    { r: 0, g: 0, b: 0 }
-  );
-  const count = valid.length;
-  return rgbToHex(totals.r / count, totals.g / count, totals.b / count);
-};
-
-const getActorInitials = (name: string) => {
-  const parts = name.trim().split(/\s+/).filter(Boolean);
-  if (!parts.length) return "?";
-  const initials = parts.slice(0, 2).map((segment) => segment[0]!.toUpperCase());
-  return initials.join("");
-};
-
 const readFileAsDataURL = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -134,89 +213,73 @@ const isValidImageFile = (file: File): boolean => {
   return validTypes.includes(file.type) && file.size <= maxSize;
 };
 
-const createActorIcon = (color: string, name: string, highlight: boolean) =>
-  L.divIcon({
-    className: "actor-marker",
-    html: `<div class="actor-marker-bubble${highlight ? " actor-marker-bubble-active" : ""}" style="background:${color}"><span>${getActorInitials(name)}</span></div>`,
-    iconSize: [32, 32],
-    iconAnchor: [16, 16],
-    tooltipAnchor: [0, -20],
-  });
+const formatLogDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
 
-function NationalInterestTrack({ levels, participants, positions, onMove }: NationalInterestTrackProps) {
-  const maxLevel = Math.max(1, levels);
-  const sorted = [...participants].sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: "base" }));
-  const buckets: Record<number, TrackParticipant[]> = {};
-  for (let level = 0; level <= maxLevel; level += 1) {
-    buckets[level] = [];
-  }
-  sorted.forEach((participant) => {
-    const raw = positions[participant.id] ?? 1;
-    const level = Math.max(0, Math.min(maxLevel, raw));
-    buckets[level].push(participant);
-  });
-  const levelOrder = Array.from({ length: maxLevel + 1 }, (_, index) => index).reverse();
+const formatLogTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+
+function EventLogTimeline({ events, players, filter, onFilterChange }: EventLogTimelineProps) {
+  const countries = useMemo(
+    () => Array.from(new Set(events.flatMap((event) => event.countries))).sort((a, b) => a.localeCompare(b)),
+    [events]
+  );
+  const rounds = useMemo(() => Array.from(new Set(events.map((event) => event.round))).sort((a, b) => a - b), [events]);
+  const visible = filterEvents(events, filter).reverse();
+  const isFiltered = filter.playerId !== "" || filter.country !== "" || filter.round !== null || filter.type !== "";
   return (
-    <div className="national-interest-track">
-      {levelOrder.map((level) => {
-        const entries = buckets[level] ?? [];
-        const isTop = level === maxLevel;
-        const labelClasses = ["interest-tier-label"];
-        if (isTop) {
-          labelClasses.push("interest-tier-label-top");
-        }
-        if (level === 0) {
-          labelClasses.push("interest-tier-label-start");
-        }
-        return (
-          <div key={level} className="interest-tier">
-            <div className={labelClasses.join(" ")}>
-              {isTop && <span className="interest-tier-heading">National Interest</span>}
-              <span className="interest-tier-number">{level === 0 ? "Start" : level}</span>
-            </div>
-            <div className="interest-tier-slots">
-              {entries.map((participant) => {
-                const currentLevel = Math.max(0, Math.min(maxLevel, positions[participant.id] ?? 1));
-                const canLevelUp = currentLevel < maxLevel;
-                const canLevelDown = currentLevel > 0;
-                return (
-                  <div key={participant.id} className="interest-participant">
-                    <div className="interest-participant-avatar" style={{ background: participant.color }}>
-                      {getActorInitials(participant.name)}
-                    </div>
-                    <div className="interest-participant-body">
-                      <span className="interest-participant-name">{participant.name}</span>
-                      {participant.kind === "actor" && participant.territory && (
-                        <span className="interest-participant-subtext">{participant.territory}</span>
-                      )}
-                    </div>
-                    <div className="interest-participant-controls">
-                      <button
-                        type="button"
-                        className="interest-control"
-                        onClick={() => onMove(participant.id, 1)}
-                        disabled={!canLevelUp}
-                        aria-label={`Advance ${participant.name}`}
-                      >
-                        ^
-                      </button>
-                      <button
-                        type="button"
-                        className="interest-control"
-                        onClick={() => onMove(participant.id, -1)}
-                        disabled={!canLevelDown}
-                        aria-label={`Revert ${participant.name}`}
-                      >
-                        v
-                      </button>
-                    </div>
-                  </div>
-                );
-              })}
-            </div>
-          </div>
-        );
-      })}
+    <div className="event-log">
+      <div className="event-log-filters">
+        <select value={filter.playerId} onChange={(e) => onFilterChange({ ...filter, playerId: e.target.value })} aria-label="Filter by player">
+          <option value="">All players</option>
+          {players.map((player) => (
+            <option key={player.id} value={player.id}>{player.name}</option>
+          ))}
+        </select>
+        <select value={filter.country} onChange={(e) => onFilterChange({ ...filter, country: e.target.value })} aria-label="Filter by country">
+          <option value="">All countries</option>
+          {countries.map((country) => (
+            <option key={country} value={country}>{country}</option>
+          ))}
+        </select>
+        <select
+          value={filter.round ?? ""}
+          onChange={(e) => onFilterChange({ ...filter, round: e.target.value ? Number(e.target.value) : null })}
+          aria-label="Filter by round"
+        >
+          <option value="">All rounds</option>
+          {rounds.map((round) => (
+            <option key={round} value={round}>Round {round}</option>
+          ))}
+        </select>
+        <select value={filter.type} onChange={(e) => onFilterChange({ ...filter, type: e.target.value as GameEventType | "" })} aria-label="Filter by event type">
+          <option value="">All events</option>
+          {(Object.keys(GAME_EVENT_TYPE_LABELS) as GameEventType[]).map((type) => (
+            <option key={type} value={type}>{GAME_EVENT_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+        {isFiltered && (
+          <button type="button" className="button-ghost" onClick={() => onFilterChange(EMPTY_EVENT_FILTER)}>
+            Clear
+          </button>
+        )}
+      </div>
+      {visible.length ? (
+        <ol className="event-log-list">
+          {visible.map((event) => (
+            <li key={event.id} className={`event-log-entry event-log-entry-${event.type}`}>
+              <div className="event-log-meta">
+                <span>R{event.round} · {event.phase}</span>
+                <span>{formatLogDate(event.gameDate)}</span>
+                <span title={new Date(event.at).toLocaleString()}>{formatLogTime(event.at)}</span>
+              </div>
+              <div className="event-log-message">{event.message}</div>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <div className="event-log-empty">{events.length ? "No events match these filters." : "Nothing has happened yet."}</div>
+      )}
     </div>
   );
 }
@@ -320,15 +383,6 @@ function OverlayPanel({
   );
 }
 
-const PLAYER_COLORS = ["#ef4444", "#22c55e", "#3b82f6", "#eab308", "#a855f7", "#14b8a6", "#f97316", "#f5f5f5"];
-
-const PANDEMIC_OUTBREAK_LOCATIONS = ["China", "Japan", "South Korea", "Vietnam", "Thailand", "Singapore"];
-const VACCINE_TRACK_MAX = 6;
-const DEFAULT_PLAYER_TOKENS = 5;
-const DEFAULT_COUNTRY_TOKENS = 3;
-const DEFAULT_ACTOR_TOKENS = 3;
-const DEFAULT_INTEREST_LEVEL_COUNT = 4;
-
 const getDefaultOverlayLayouts = (): Record<OverlayKey, OverlayLayout> => {
   const viewportWidth = typeof window !== "undefined" ? window.innerWidth : 1280;
   const viewportHeight = typeof window !== "undefined" ? window.innerHeight : 720;
@@ -343,23 +397,30 @@ const getDefaultOverlayLayouts = (): Record<OverlayKey, OverlayLayout> => {
       minimized: false,
       zIndex: 102,
     },
+    log: {
+      x: 24,
+      y: 120,
+      width: 340,
+      height: Math.min(420, viewportHeight - 200),
+      minimized: false,
+      zIndex: 103,
+    },
+    tracks: {
+      x: Math.max(24, viewportWidth - 360),
+      y: Math.max(120, viewportHeight - 280),
+      width: 300,
+      minimized: false,
+      zIndex: 104,
+    },
   };
 };
 
-// Preset groups of countries
-const PRESET_GROUPS: Record<string, string[]> = {
-  NATO: ["United States of America", "United Kingdom", "France", "Germany", "Italy", "Canada", "Norway", "Poland"],
-  ASEAN: ["Indonesia", "Malaysia", "Thailand", "Singapore", "Philippines", "Vietnam", "Myanmar", "Cambodia", "Laos", "Brunei"],
-};
+const loggedGameReducer = withEventLog(gameReducer);
 
-// Game phases
-const PHASES = [
-  "Negotiation Phase",
-  "Action Phase",
-  "Narrative Phase",
-  "Adjudication Phase",
-  "National Interest Phase"
-];
+const TRACK_ALERT_MS = 8000;
+
+const NEIGHBOUR_COLOR = "#fde68a";
+const MULTI_SELECT_COLOR = "#f472b6";
 
 export default function GameWorldMap() {
   const mapRef = useRef<L.Map | null>(null);
@@ -367,9 +428,15 @@ export default function GameWorldMap() {
   const fogCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const countriesLayerRef = useRef<L.GeoJSON | null>(null);
   const countryLayerIndex = useRef<Record<string, CountryLayer>>({});
+  const [boundaries, setBoundaries] = useState<CountryBoundaries | null>(null);
+  const [boundaryError, setBoundaryError] = useState<string | null>(null);
+  const boundariesInputRef = useRef<HTMLInputElement | null>(null);
+  const [basemap, setBasemap] = useState<BasemapSettings>(readBasemapSettings);
+  const [tileUrlDraft, setTileUrlDraft] = useState<string>(basemap.tileUrl);
+  const [tileAttributionDraft, setTileAttributionDraft] = useState<string>(basemap.tileAttribution);
   const actorMarkersRef = useRef<Record<string, L.Marker>>({});
   const orgBoxesRef = useRef<Record<string, HTMLDivElement>>({});
-  const overlayRefs = useRef<Record<OverlayKey, HTMLDivElement | null>>({ timer: null, interest: null });
+  const overlayRefs = useRef<Record<OverlayKey, HTMLDivElement | null>>({ timer: null, interest: null, log: null, tracks: null });
   const [overlayLayouts, setOverlayLayouts] = useState<Record<OverlayKey, OverlayLayout>>(getDefaultOverlayLayouts);
   const zCounterRef = useRef<number>(Math.max(...Object.values(overlayLayouts).map((layout) => layout.zIndex)));
   const dragStateRef = useRef<DragState | null>(null);
@@ -381,6 +448,8 @@ export default function GameWorldMap() {
   const lockedViewRef = useRef<{ center: L.LatLng; zoom: number } | null>(null);
   const [showTimerOverlay, setShowTimerOverlay] = useState<boolean>(true);
   const [showInterestOverlay, setShowInterestOverlay] = useState<boolean>(true);
+  const [showEventLogOverlay, setShowEventLogOverlay] = useState<boolean>(false);
+  const [eventFilter, setEventFilter] = useState<GameEventFilter>(EMPTY_EVENT_FILTER);
   const [showRoundIndicator, setShowRoundIndicator] = useState<boolean>(true);
   const [showMapLockButton, setShowMapLockButton] = useState<boolean>(true);
   const [showPlayerAssignmentButton, setShowPlayerAssignmentButton] = useState<boolean>(true);
@@ -388,6 +457,33 @@ export default function GameWorldMap() {
   const [showPauseMenu, setShowPauseMenu] = useState<boolean>(false);
   const [showSettings, setShowSettings] = useState<boolean>(false);
   const [showPlayerAssignment, setShowPlayerAssignment] = useState<boolean>(false);
+  const loadGameInputRef = useRef<HTMLInputElement | null>(null);
+  const [saveGameErrors, setSaveGameErrors] = useState<string[]>([]);
+  const scenarioInputRef = useRef<HTMLInputElement | null>(null);
+  const [scenarioChoiceId, setScenarioChoiceId] = useState<string>(DEFAULT_SCENARIO.id);
+  // Packs loaded from disk this session, listed alongside the built-in ones
+  const [customScenarios, setCustomScenarios] = useState<ScenarioPack[]>([]);
+  const [scenarioErrors, setScenarioErrors] = useState<string[]>([]);
+  const [autosaves, setAutosaves] = useState<AutosaveEntry[]>([]);
+  const [autosaveError, setAutosaveError] = useState<string | null>(null);
+  const [history, setHistory] = useState<HistoryStacks<GameState>>(createHistory);
+  // Always holds the latest render's game state so callbacks bound in effects never record stale state
+  const gameStateRef = useRef<GameState>(createInitialGameState());
+  const orgDragHistoryRef = useRef<{ label: string; state: GameState; moved: boolean } | null>(null);
+  // Held by recordHistory until a dispatch in the same handler actually changes the game,
+  // so a no-op (spending from an empty pool) neither adds an undo step nor clears redo
+  const pendingHistoryRef = useRef<HistoryEntry<GameState> | null>(null);
+
+  const captureHistoryState = useCallback((): GameState => gameStateRef.current, []);
+
+  const recordHistory = useCallback((label: string, coalesceKey?: string) => {
+    const entry = { label, state: captureHistoryState(), coalesceKey, at: Date.now() };
+    pendingHistoryRef.current = entry;
+    // Handlers dispatch synchronously; an entry none of their actions used is dropped
+    queueMicrotask(() => {
+      if (pendingHistoryRef.current === entry) pendingHistoryRef.current = null;
+    });
+  }, [captureHistoryState]);
 
   const setOverlayRef = useCallback((id: OverlayKey, node: HTMLDivElement | null) => {
     overlayRefs.current[id] = node;
@@ -568,6 +664,24 @@ export default function GameWorldMap() {
           };
         }
         
+        if (updated.log) {
+          const viewportHeight = window.innerHeight;
+          updated.log = {
+            ...updated.log,
+            x: Math.max(24, Math.min(updated.log.x, window.innerWidth - updated.log.width - 24)),
+            y: Math.max(24, Math.min(updated.log.y, viewportHeight - 200)),
+            height: Math.min(updated.log.height || 420, viewportHeight - 200),
+          };
+        }
+
+        if (updated.tracks) {
+          updated.tracks = {
+            ...updated.tracks,
+            x: Math.max(24, Math.min(updated.tracks.x, window.innerWidth - updated.tracks.width - 24)),
+            y: Math.max(24, Math.min(updated.tracks.y, window.innerHeight - 160)),
+          };
+        }
+        
         return updated;
       });
     };
@@ -577,11 +691,56 @@ export default function GameWorldMap() {
   }, []);
 
   // Adjudicator sets up all players and assignments
-  const [players, setPlayers] = useState<Player[]>([]);
-  const [ownership, setOwnership] = useState<OwnershipMap>({});
+  const [game, dispatchGame] = useReducer(loggedGameReducer, DEFAULT_SCENARIO.startDate, createInitialGameState);
+  gameStateRef.current = game;
+
+  const dispatch = useCallback((action: GameAction) => {
+    const pending = pendingHistoryRef.current;
+    // Earlier actions in the handler changed nothing, so the rendered state is still what this one sees
+    if (pending && gameReducer(gameStateRef.current, action) !== gameStateRef.current) {
+      pendingHistoryRef.current = null;
+      setHistory((prev) => pushHistory(prev, pending));
+    }
+    dispatchGame(action);
+  }, []);
+
+  // For events that are not reducer actions (dice rolls, undo/redo); never an undo step of their own
+  const logEvents = useCallback((drafts: GameEventDraft[]) => {
+    dispatchGame({ type: "logEvents", events: stampEvents(gameStateRef.current, drafts) });
+  }, []);
+  const {
+    scenario,
+    players,
+    ownership,
+    countryActors,
+    externalOrganizations,
+    playerTokens,
+    countryTokens,
+    actorTokens,
+    tokenLedger,
+    nationalInterests,
+    interestLevelCount,
+    roundNumber,
+    phaseIndex,
+    phaseDurations,
+    vaccineProgress,
+    tracks,
+    initialOutbreak,
+    outbreakRoll,
+    pandemic,
+    seaLinks,
+    actionQueue,
+    agreements,
+    relationships,
+    units,
+    annotations,
+    discoveredAreas,
+    revealedCountries,
+  } = game;
+  const phases = useMemo(() => scenario.phases.map((phase) => phase.name), [scenario]);
+  const gameDate = useMemo(() => new Date(game.gameDate), [game.gameDate]);
+  const { value: timeAdvanceValue, unit: timeAdvanceUnit } = game.timeAdvance;
   const [selectedCountry, setSelectedCountry] = useState<string | null>(null);
-  const [countryActors, setCountryActors] = useState<Record<string, LocalActor[]>>({});
-  const [externalOrganizations, setExternalOrganizations] = useState<ExternalOrganization[]>([]);
   const [newActorName, setNewActorName] = useState<string>("");
   const [newActorNotes, setNewActorNotes] = useState<string>("");
   const [newActorColor, setNewActorColor] = useState<string>(PLAYER_COLORS[0]);
@@ -590,21 +749,29 @@ export default function GameWorldMap() {
   const [newOrgColor, setNewOrgColor] = useState<string>(PLAYER_COLORS[0]);
   const [newOrgPicture, setNewOrgPicture] = useState<string>("");
   const [newOrgPictureFile, setNewOrgPictureFile] = useState<File | null>(null);
-  const [playerTokens, setPlayerTokens] = useState<Record<string, TokenPool>>({});
-  const [countryTokens, setCountryTokens] = useState<Record<string, TokenPool>>({});
-  const [actorTokens, setActorTokens] = useState<Record<string, TokenPool>>({});
-
-  const [discoveredAreas, setDiscoveredAreas] = useState<LatLng[]>([]);
-  const [fogRadius, setFogRadius] = useState(110);
-  const [fogOpacity, setFogOpacity] = useState(0.75);
-  const [vaccineProgress, setVaccineProgress] = useState<number>(0);
-  const [nationalInterests, setNationalInterests] = useState<Record<string, number>>({});
-  const [interestLevelCount, setInterestLevelCount] = useState<number>(DEFAULT_INTEREST_LEVEL_COUNT);
-  const [initialOutbreak, setInitialOutbreak] = useState<string | null>(null);
-  const [selectedOutbreakCandidates, setSelectedOutbreakCandidates] = useState<string[]>(PANDEMIC_OUTBREAK_LOCATIONS);
-  const [availableOutbreakCountries, setAvailableOutbreakCountries] = useState<string[]>(PANDEMIC_OUTBREAK_LOCATIONS);
+
+  const [fogEnabled, setFogEnabled] = useState<boolean>(false);
+  const [fogRadius, setFogRadius] = useState<number>(DEFAULT_FOG_RADIUS_KM);
+  const [fogOpacity, setFogOpacity] = useState<number>(DEFAULT_FOG_OPACITY);
+  const [fogTool, setFogTool] = useState<FogTool | null>(null);
+  const fogToolRef = useRef<FogTool | null>(null);
+  fogToolRef.current = fogEnabled ? fogTool : null;
+  const fogRadiusRef = useRef<number>(fogRadius);
+  fogRadiusRef.current = fogRadius;
+  const [viewAsPlayerId, setViewAsPlayerId] = useState<string | null>(null);
+  // Whose eyes the map is drawn through; null is the adjudicator's view, which sees everything
+  const fogViewerId = fogEnabled && viewAsPlayerId && players.some((player) => player.id === viewAsPlayerId) ? viewAsPlayerId : null;
+  const fogViewerRef = useRef<string | null>(fogViewerId);
+  fogViewerRef.current = fogViewerId;
+  const fogVisibility = useMemo(
+    () => getFogVisibility({ players, ownership, discoveredAreas, revealedCountries }, fogViewerId),
+    [players, ownership, discoveredAreas, revealedCountries, fogViewerId]
+  );
+  const isHiddenFromViewer = (position: LatLng) =>
+    fogViewerId !== null && isFogged(position, fogVisibility, fogRadius, countryLayerIndex.current);
+  const [selectedOutbreakCandidates, setSelectedOutbreakCandidates] = useState<string[]>(scenario.outbreakCandidates);
+  const [availableOutbreakCountries, setAvailableOutbreakCountries] = useState<string[]>(scenario.outbreakCandidates);
   const [manualOutbreakChoice, setManualOutbreakChoice] = useState<string>("");
-  const [outbreakRoll, setOutbreakRoll] = useState<number | null>(null);
 
   const participants = useMemo<TrackParticipant[]>(() => {
     const actorEntries: TrackParticipant[] = [];
@@ -638,260 +805,717 @@ export default function GameWorldMap() {
   const findPlayerById = (pid: string) => players.find((p) => p.id === pid);
   
   const removePlayer = (playerId: string) => {
-    setPlayers(prev => prev.filter(player => player.id !== playerId));
-    // Clean up ownership
-    setOwnership(prev => {
-      const updated = { ...prev };
-      Object.keys(updated).forEach(country => {
-        updated[country] = updated[country].filter(id => id !== playerId);
-        if (updated[country].length === 0) {
-          delete updated[country];
-        }
-      });
-      return updated;
-    });
-    // Clean up tokens
-    setPlayerTokens(prev => {
-      const updated = { ...prev };
-      delete updated[playerId];
-      return updated;
-    });
-    // Clean up national interests
-    setNationalInterests(prev => {
-      const updated = { ...prev };
-      delete updated[playerId];
-      return updated;
-    });
+    recordHistory(`Removed ${findPlayerById(playerId)?.name ?? playerId}`);
+    dispatch({ type: "removePlayer", playerId });
   };
   const getLocalActors = (country: string) => countryActors[country] ?? [];
-  const ensurePlayerTokens = (pid: string) => {
-    setPlayerTokens((prev) => {
-      if (prev[pid]) return prev;
-      return { ...prev, [pid]: { allowance: DEFAULT_PLAYER_TOKENS, available: DEFAULT_PLAYER_TOKENS } };
-    });
-  };
-  const ensureCountryTokens = (country: string) => {
-    setCountryTokens((prev) => {
-      if (prev[country]) return prev;
-      return { ...prev, [country]: { allowance: DEFAULT_COUNTRY_TOKENS, available: DEFAULT_COUNTRY_TOKENS } };
-    });
-  };
-  const ensureActorTokens = (actorId: string) => {
-    setActorTokens((prev) => {
-      if (prev[actorId]) return prev;
-      return { ...prev, [actorId]: { allowance: DEFAULT_ACTOR_TOKENS, available: DEFAULT_ACTOR_TOKENS } };
-    });
-  };
-
-  const replenishAllTokens = () => {
-    setPlayerTokens((prev) =>
-      Object.fromEntries(
-        Object.entries(prev).map(([id, pool]) => [id, { ...pool, available: pool.allowance }])
-      )
-    );
-    setCountryTokens((prev) =>
-      Object.fromEntries(
-        Object.entries(prev).map(([name, pool]) => [name, { ...pool, available: pool.allowance }])
-      )
-    );
-    setActorTokens((prev) =>
-      Object.fromEntries(
-        Object.entries(prev).map(([id, pool]) => [id, { ...pool, available: pool.allowance }])
-      )
-    );
-  };
-
-  const normalizedAllowance = (value: number, fallback: number) => {
-    if (Number.isNaN(value) || !Number.isFinite(value)) return fallback;
-    return Math.max(0, value);
-  };
+  const findActorById = (actorId: string) => findActor(game, actorId);
+  const describeTokenChange = (owner: string, delta: number) =>
+    delta < 0 ? `${owner} spent ${-delta} token${delta === -1 ? "" : "s"}` : `Refunded ${delta} token${delta === 1 ? "" : "s"} to ${owner}`;
 
   const setPlayerAllowance = (pid: string, allowance: number) => {
-    setPlayerTokens((prev) => {
-      const pool = prev[pid] ?? { allowance: DEFAULT_PLAYER_TOKENS, available: DEFAULT_PLAYER_TOKENS };
-      const normalized = normalizedAllowance(allowance, DEFAULT_PLAYER_TOKENS);
-      return {
-        ...prev,
-        [pid]: { allowance: normalized, available: Math.min(pool.available, normalized) },
-      };
-    });
+    recordHistory(`Changed ${findPlayerById(pid)?.name ?? pid} token allowance`);
+    dispatch({ type: "setAllowance", pool: "player", id: pid, allowance });
   };
 
   const adjustPlayerTokens = (pid: string, delta: number) => {
-    setPlayerTokens((prev) => {
-      const pool = prev[pid];
-      if (!pool) return prev;
-      const next = Math.max(0, Math.min(pool.allowance, pool.available + delta));
-      if (next === pool.available) return prev;
-      return { ...prev, [pid]: { ...pool, available: next } };
-    });
+    recordHistory(describeTokenChange(findPlayerById(pid)?.name ?? pid, delta));
+    dispatch({ type: "adjustTokens", pool: "player", id: pid, delta });
   };
 
   const setCountryAllowance = (country: string, allowance: number) => {
-    setCountryTokens((prev) => {
-      const pool = prev[country] ?? { allowance: DEFAULT_COUNTRY_TOKENS, available: DEFAULT_COUNTRY_TOKENS };
-      const normalized = normalizedAllowance(allowance, DEFAULT_COUNTRY_TOKENS);
-      return {
-        ...prev,
-        [country]: { allowance: normalized, available: Math.min(pool.available, normalized) },
-      };
-    });
+    recordHistory(`Changed ${country} token allowance`);
+    dispatch({ type: "setAllowance", pool: "country", id: country, allowance });
   };
 
   const adjustCountryTokens = (country: string, delta: number) => {
-    setCountryTokens((prev) => {
-      const pool = prev[country];
-      if (!pool) return prev;
-      const next = Math.max(0, Math.min(pool.allowance, pool.available + delta));
-      if (next === pool.available) return prev;
-      return { ...prev, [country]: { ...pool, available: next } };
-    });
+    recordHistory(describeTokenChange(country, delta));
+    dispatch({ type: "adjustTokens", pool: "country", id: country, delta });
   };
 
   const setActorAllowance = (actorId: string, allowance: number) => {
-    setActorTokens((prev) => {
-      const pool = prev[actorId] ?? { allowance: DEFAULT_ACTOR_TOKENS, available: DEFAULT_ACTOR_TOKENS };
-      const normalized = normalizedAllowance(allowance, DEFAULT_ACTOR_TOKENS);
-      return {
-        ...prev,
-        [actorId]: { allowance: normalized, available: Math.min(pool.available, normalized) },
-      };
-    });
+    recordHistory(`Changed ${findActorById(actorId)?.name ?? actorId} token allowance`);
+    dispatch({ type: "setAllowance", pool: "actor", id: actorId, allowance });
   };
 
   const adjustActorTokens = (actorId: string, delta: number) => {
-    setActorTokens((prev) => {
-      const pool = prev[actorId];
-      if (!pool) return prev;
-      const next = Math.max(0, Math.min(pool.allowance, pool.available + delta));
-      if (next === pool.available) return prev;
-      return { ...prev, [actorId]: { ...pool, available: next } };
-    });
+    recordHistory(describeTokenChange(findActorById(actorId)?.name ?? actorId, delta));
+    dispatch({ type: "adjustTokens", pool: "actor", id: actorId, delta });
+  };
+
+  // Token ledger
+  const tokenPools = useMemo<(TokenPoolRef & { name: string })[]>(
+    () => [
+      ...players.map((player) => ({ pool: "player" as const, id: player.id, name: player.name })),
+      ...Object.values(countryActors).flatMap((actors) =>
+        actors.map((actor) => ({ pool: "actor" as const, id: actor.id, name: actor.name }))
+      ),
+      ...Object.keys(countryTokens)
+        .sort((a, b) => a.localeCompare(b))
+        .map((country) => ({ pool: "country" as const, id: country, name: country })),
+    ],
+    [players, countryActors, countryTokens]
+  );
+  const getPoolName = (ref: TokenPoolRef) => tokenPools.find((entry) => isSamePool(entry, ref))?.name ?? ref.id;
+  const [transferFrom, setTransferFrom] = useState<string>("");
+  const [transferTo, setTransferTo] = useState<string>("");
+  const [transferAmount, setTransferAmount] = useState<number>(1);
+  const [transferReason, setTransferReason] = useState<string>("");
+  const [ledgerPoolKey, setLedgerPoolKey] = useState<string>("");
+  const transferSource = parsePoolKey(transferFrom);
+  const transferTarget = parsePoolKey(transferTo);
+  const transferLimit = transferSource && transferTarget ? getTransferAmount(game, transferSource, transferTarget, Infinity) : 0;
+  const ledgerPool = parsePoolKey(ledgerPoolKey) ?? tokenPools[0] ?? null;
+  const ledgerEntries = ledgerPool ? getPoolLedger(tokenLedger, ledgerPool).reverse() : [];
+
+  const transferTokens = () => {
+    if (!transferSource || !transferTarget || !transferLimit) return;
+    const amount = Math.min(transferAmount, transferLimit);
+    recordHistory(`${getPoolName(transferSource)} transferred ${amount} token${amount === 1 ? "" : "s"} to ${getPoolName(transferTarget)}`);
+    dispatch({ type: "transferTokens", from: transferSource, to: transferTarget, amount, reason: transferReason });
+    setTransferReason("");
   };
 
   const adjustNationalInterest = (pid: string, delta: number) => {
-    setNationalInterests((prev) => {
-      const current = prev[pid] ?? 0;
-      const maxLevel = Math.max(1, interestLevelCount);
-      const next = Math.max(0, Math.min(maxLevel, current + delta));
-      if (next === current) return prev;
-      return { ...prev, [pid]: next };
-    });
+    const participant = participants.find((entry) => entry.id === pid);
+    recordHistory(`${delta > 0 ? "Advanced" : "Reverted"} ${participant?.name ?? pid} on the interest track`);
+    dispatch({ type: "adjustNationalInterest", participantId: pid, delta });
+  };
+
+  const setInterestLevelCount = (count: number) => {
+    recordHistory("Changed interest track levels", "interest-levels");
+    dispatch({ type: "setInterestLevelCount", count });
   };
 
+  // Drawn from the dice seed stream, so a session seed replays the outbreak too
   const chooseRandomOutbreakLocation = (pool: string[]) => {
     if (pool.length === 0) return null;
-    const roll = Math.floor(Math.random() * pool.length);
-    return { location: pool[roll], roll: roll + 1 };
+    const seed = nextRollSeed();
+    const roll = rollFace(createRng(seed), pool.length);
+    return { location: pool[roll - 1], roll, seed };
   };
 
-  const applyOutbreakLocation = (location: string | null, rollValue: number | null = null) => {
-    if (!location) {
-      setInitialOutbreak(null);
-      setOutbreakRoll(null);
-      return;
+  const applyOutbreakLocation = (location: string | null, rollValue: number | null = null, seed?: number) => {
+    dispatch({ type: "setOutbreak", location, roll: rollValue, seed });
+    if (location) {
+      setSelectedCountry(location);
     }
-    setInitialOutbreak(location);
-    setOutbreakRoll(rollValue);
-    setSelectedCountry(location);
-    ensureCountryTokens(location);
   };
 
   const rollInitialOutbreak = () => {
     const candidatePool = selectedOutbreakCandidates.length ? selectedOutbreakCandidates : availableOutbreakCountries;
     const result = chooseRandomOutbreakLocation(candidatePool);
-    applyOutbreakLocation(result?.location ?? null, result?.roll ?? null);
+    recordHistory(result ? `Rolled initial outbreak in ${result.location}` : "Cleared initial outbreak");
+    applyOutbreakLocation(result?.location ?? null, result?.roll ?? null, result?.seed);
   };
 
   const setOutbreakManually = (location: string) => {
     if (!location) return;
+    recordHistory(`Set initial outbreak to ${location}`);
     applyOutbreakLocation(location, null);
   };
 
   const adjustVaccineProgress = (delta: number) => {
-    setVaccineProgress((prev) => {
-      const next = Math.max(0, Math.min(VACCINE_TRACK_MAX, prev + delta));
-      return next;
+    recordHistory(`Vaccine progress ${delta > 0 ? "+" : ""}${delta}`);
+    dispatch({ type: "adjustVaccineProgress", delta });
+  };
+
+  // Borders
+  const [highlightNeighbours, setHighlightNeighbours] = useState<boolean>(true);
+  const [seaLinkTarget, setSeaLinkTarget] = useState<string>("");
+  const landAdjacency = useMemo(() => (boundaries ? buildLandAdjacency(boundaries) : {}), [boundaries]);
+  const adjacency = useMemo(() => withSeaLinks(landAdjacency, seaLinks), [landAdjacency, seaLinks]);
+  const countryNames = useMemo(
+    () => (boundaries ? boundaries.geojson.features.map((feature) => feature.properties.name).sort((a, b) => a.localeCompare(b)) : []),
+    [boundaries]
+  );
+  const selectedNeighbours = useMemo(
+    () => new Set(selectedCountry ? getNeighbours(adjacency, selectedCountry) : []),
+    [adjacency, selectedCountry]
+  );
+  const isSeaLink = (a: string, b: string) => {
+    const [first, second] = normalizeSeaLink(a, b);
+    return seaLinks.some((link) => link[0] === first && link[1] === second);
+  };
+
+  const addSeaLink = (a: string, b: string) => {
+    if (!a || !b || a === b) return;
+    recordHistory(`Added sea link ${a} – ${b}`);
+    dispatch({ type: "addSeaLink", countries: normalizeSeaLink(a, b) });
+  };
+
+  const removeSeaLink = (link: SeaLink) => {
+    recordHistory(`Removed sea link ${link[0]} – ${link[1]}`);
+    dispatch({ type: "removeSeaLink", countries: link });
+  };
+
+  // Country search
+  const [showCountrySearch, setShowCountrySearch] = useState<boolean>(false);
+  const [countryQuery, setCountryQuery] = useState<string>("");
+  const [countryResultIndex, setCountryResultIndex] = useState<number>(0);
+  const [countryCycleMode, setCountryCycleMode] = useState<CountryCycleMode>("neighbours");
+  // The list the arrow keys are stepping through, kept until another country is picked some other way
+  const countryCycleRef = useRef<{ mode: CountryCycleMode; countries: string[]; current: string } | null>(null);
+  const territorySectionRef = useRef<HTMLElement | null>(null);
+  const scrollToTerritoryRef = useRef<boolean>(false);
+  const countrySearchEntries = useMemo<CountrySearchEntry[]>(
+    () => (boundaries ? boundaries.geojson.features.map((feature) => ({ name: feature.properties.name, code: getCountryCode(feature) })) : []),
+    [boundaries]
+  );
+  const countryResults = useMemo(() => searchCountries(countryQuery, countrySearchEntries), [countryQuery, countrySearchEntries]);
+  // Codes from every map loaded this session, which saves from before games kept codes lack
+  const knownCountryCodesRef = useRef<CountryCodes>({});
+
+  // Moves state kept under a name the loaded map spells differently onto the map's name.
+  // Also runs for loaded saves and new scenarios; not an undo step of its own.
+  useEffect(() => {
+    countrySearchEntries.forEach(({ name, code }) => {
+      if (code) knownCountryCodesRef.current[name] = code;
     });
+    dispatchGame({ type: "reconcileCountries", countries: countrySearchEntries, knownCodes: knownCountryCodesRef.current });
+  }, [countrySearchEntries, scenario, game.countryCodes]);
+
+  // Multi-selection for batch actions, built by shift-clicking or box-selecting countries
+  const [selectedCountries, setSelectedCountries] = useState<string[]>([]);
+  const multiSelection = useMemo(() => new Set(selectedCountries), [selectedCountries]);
+  const [boxSelecting, setBoxSelecting] = useState<boolean>(false);
+  // Country polygons are bound once per boundary file, so their click handler reads through this
+  const countryClickRef = useRef<(name: string, additive: boolean) => void>(() => {});
+  const boxSelectingRef = useRef<boolean>(false);
+  boxSelectingRef.current = boxSelecting;
+
+  const openCountrySearch = () => {
+    setCountryQuery("");
+    setCountryResultIndex(0);
+    setShowCountrySearch(true);
+  };
+
+  const flyToCountry = (name: string) => {
+    const map = mapRef.current;
+    const polygon = countryLayerIndex.current[name];
+    if (!map || !polygon || mapLocked) return;
+    const { bounds } = largestPartBounds(polygon);
+    if (bounds) map.flyToBounds(bounds, { padding: [48, 48], maxZoom: 6 });
+  };
+
+  const chooseCountry = (name: string, openTerritory: boolean) => {
+    setSelectedCountry(name);
+    flyToCountry(name);
+    setShowCountrySearch(false);
+    if (openTerritory) {
+      scrollToTerritoryRef.current = true;
+      setShowSettings(true);
+    }
+  };
+
+  const onCountrySearchKey = (e: ReactKeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (!countryResults.length) return;
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setCountryResultIndex((index) => (index + step + countryResults.length) % countryResults.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      const result = countryResults[countryResultIndex];
+      if (result) chooseCountry(result.name, !e.shiftKey);
+    } else if (e.key === "Escape") {
+      // Closes the search without also opening the pause menu
+      e.preventDefault();
+      e.stopPropagation();
+      setShowCountrySearch(false);
+    }
+  };
+
+  const stepCountry = (direction: 1 | -1) => {
+    if (!selectedCountry) return;
+    let cycle = countryCycleRef.current;
+    if (!cycle || cycle.mode !== countryCycleMode || cycle.current !== selectedCountry) {
+      const countries = getCountryCycle(selectedCountry, countryCycleMode, Array.from(selectedNeighbours), ownership);
+      cycle = { mode: countryCycleMode, countries, current: selectedCountry };
+    }
+    const index = cycle.countries.indexOf(selectedCountry);
+    if (index === -1) return;
+    const next = cycle.countries[(index + direction + cycle.countries.length) % cycle.countries.length];
+    countryCycleRef.current = { ...cycle, current: next };
+    setSelectedCountry(next);
+    flyToCountry(next);
+  };
+
+  // Pandemic spread
+  const [showInfectionOverlay, setShowInfectionOverlay] = useState<boolean>(true);
+  const vaccineFactor = getVaccineFactor(vaccineProgress, scenario.tracks.vaccineMax);
+  const infectedCount = Object.values(pandemic.infections).filter((infection) => infection.status === "infected").length;
+  const containedCount = Object.keys(pandemic.infections).length - infectedCount;
+
+  // Rolled here so the reducer stays pure; the round-advance action carries the outcome
+  const rollSpread = () => (pandemic.enabled ? simulateSpread(pandemic, adjacency, vaccineFactor) : []);
+
+  const setPandemicEnabled = (enabled: boolean) => {
+    recordHistory(enabled ? "Turned the spread model on" : "Turned the spread model off");
+    dispatch({ type: "setPandemicSettings", enabled });
+  };
+
+  const setTransmissionRate = (percent: number) => {
+    recordHistory("Changed transmission rate", "transmission-rate");
+    dispatch({ type: "setPandemicSettings", transmissionRate: percent / 100 });
+  };
+
+  const setCountryTransmissionRate = (country: string, percent: number | null) => {
+    recordHistory(`Changed ${country} transmission rate`, `transmission-rate:${country}`);
+    dispatch({ type: "setCountryTransmissionRate", country, rate: percent === null ? null : percent / 100 });
+  };
+
+  const setInfectionStatus = (country: string, status: InfectionStatus | null) => {
+    recordHistory(`Marked ${country} as ${INFECTION_STATUS_LABELS[status ?? "healthy"].toLowerCase()}`);
+    dispatch({ type: "setInfectionStatus", country, status });
+  };
+
+  const resetPandemic = () => {
+    if (!window.confirm("Clear every infection? The initial outbreak is re-seeded if one is set.")) return;
+    recordHistory("Reset the spread model");
+    dispatch({ type: "resetPandemic" });
+  };
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady || !pandemic.enabled || !showInfectionOverlay) return;
+    const overlay = createInfectionOverlay(map, countryLayerIndex.current, pandemic.infections, roundNumber).addTo(map);
+    return () => {
+      overlay.remove();
+    };
+  }, [mapReady, boundaries, pandemic.enabled, pandemic.infections, roundNumber, showInfectionOverlay]);
+
+  // Custom tracks
+  const [newTrackName, setNewTrackName] = useState<string>("");
+  const [newTrackMin, setNewTrackMin] = useState<number>(0);
+  const [newTrackMax, setNewTrackMax] = useState<number>(10);
+  const [newTrackColor, setNewTrackColor] = useState<string>(PLAYER_COLORS[2]);
+  const [thresholdDrafts, setThresholdDrafts] = useState<Record<string, { value: string; label: string }>>({});
+  const [openTrackHistory, setOpenTrackHistory] = useState<string | null>(null);
+  const [trackAlerts, setTrackAlerts] = useState<TrackAlert[]>([]);
+  const hudTracks = useMemo(() => tracks.filter((track) => track.showOnHud), [tracks]);
+  const findTrackById = (trackId: string) => tracks.find((track) => track.id === trackId);
+
+  const dismissTrackAlert = useCallback((alertId: string) => {
+    setTrackAlerts((prev) => prev.filter((alert) => alert.id !== alertId));
+  }, []);
+
+  const addTrack = () => {
+    const name = newTrackName.trim();
+    if (!name) return;
+    if (newTrackMax <= newTrackMin) {
+      alert("A track's maximum must be greater than its minimum.");
+      return;
+    }
+    const track = createCustomTrack(`track-${Date.now()}`, name, newTrackMin, newTrackMax, roundNumber, { color: newTrackColor });
+    recordHistory(`Added track ${name}`);
+    dispatch({ type: "addTrack", track });
+    setNewTrackName("");
+  };
+
+  const updateTrack = (trackId: string, updates: Extract<GameAction, { type: "updateTrack" }>["updates"], coalesceKey?: string) => {
+    recordHistory(`Edited track ${findTrackById(trackId)?.name ?? trackId}`, coalesceKey);
+    dispatch({ type: "updateTrack", trackId, updates });
+  };
+
+  const removeTrack = (trackId: string) => {
+    const track = findTrackById(trackId);
+    if (!track || !window.confirm(`Remove the ${track.name} track and its history?`)) return;
+    recordHistory(`Removed track ${track.name}`);
+    dispatch({ type: "removeTrack", trackId });
+  };
+
+  const setTrackValue = (trackId: string, value: number) => {
+    const track = findTrackById(trackId);
+    if (!track) return;
+    const next = clampTrackValue(track, value);
+    if (next === track.value) return;
+    recordHistory(`${track.name} ${track.value} → ${next}`);
+    dispatch({ type: "setTrackValue", trackId, value: next });
+    const crossings = getCrossedThresholds(track, track.value, next);
+    if (crossings.length) {
+      setTrackAlerts((prev) => [
+        ...prev,
+        ...crossings.map((crossing, index) => ({
+          id: `alert-${Date.now()}-${index}`,
+          message: describeCrossing(track, crossing),
+          color: track.color,
+        })),
+      ]);
+    }
+  };
+
+  const adjustTrack = (trackId: string, delta: number) => {
+    const track = findTrackById(trackId);
+    if (track) setTrackValue(trackId, track.value + delta);
+  };
+
+  const addThreshold = (track: CustomTrack) => {
+    const draft = thresholdDrafts[track.id];
+    const value = Number(draft?.value);
+    const label = draft?.label.trim();
+    if (!draft || draft.value === "" || !Number.isFinite(value) || !label) return;
+    if (value < track.min || value > track.max) {
+      alert(`Thresholds for ${track.name} must be between ${track.min} and ${track.max}.`);
+      return;
+    }
+    updateTrack(track.id, { thresholds: [...track.thresholds, { value: Math.round(value), label }] });
+    setThresholdDrafts((prev) => ({ ...prev, [track.id]: { value: "", label: "" } }));
+  };
+
+  const removeThreshold = (track: CustomTrack, threshold: TrackThreshold) => {
+    updateTrack(track.id, { thresholds: track.thresholds.filter((item) => item !== threshold) });
   };
 
+  // Alerts stay up long enough to be read aloud, then clear themselves
+  useEffect(() => {
+    if (!trackAlerts.length) return;
+    const oldest = trackAlerts[0].id;
+    const timeout = window.setTimeout(() => dismissTrackAlert(oldest), TRACK_ALERT_MS);
+    return () => window.clearTimeout(timeout);
+  }, [trackAlerts, dismissTrackAlert]);
+
   // Timekeeping state
-  const [gameDate, setGameDate] = useState<Date>(() => new Date("2030-01-01"));
-  const [roundNumber, setRoundNumber] = useState<number>(1);
-  const [timeAdvanceValue, setTimeAdvanceValue] = useState<number>(7);
-  const [timeAdvanceUnit, setTimeAdvanceUnit] = useState<TimeUnit>("days");
-  const [startDateInput, setStartDateInput] = useState<string>("2030-01-01");
+  const [startDateInput, setStartDateInput] = useState<string>(scenario.startDate);
 
   // Dice state
   const DIE_OPTIONS = [4, 6, 8, 10, 12, 20];
-  const [dieSides, setDieSides] = useState<number>(6);
-  const [lastRoll, setLastRoll] = useState<number | null>(null);
-  const rollDie = () => {
-    const sides = Math.max(2, dieSides);
-    const result = Math.floor(Math.random() * sides) + 1;
-    setLastRoll(result);
+  const DICE_HISTORY_LIMIT = 50;
+  const [diceExpression, setDiceExpression] = useState<string>("1d6");
+  const [diceMode, setDiceMode] = useState<DiceMode>("normal");
+  const [diceRollerId, setDiceRollerId] = useState<string>("");
+  const [diceSeedInput, setDiceSeedInput] = useState<string>("");
+  const [diceError, setDiceError] = useState<string | null>(null);
+  const [diceHistory, setDiceHistory] = useState<DiceHistoryEntry[]>([]);
+  const [reproducedRoll, setReproducedRoll] = useState<{ entryId: string; matches: boolean } | null>(null);
+  // With a session seed every roll draws its own seed from one stream, so the whole
+  // sequence replays; without one each roll gets a fresh random seed
+  const diceStreamRef = useRef<{ seed: number; next: () => number } | null>(null);
+  const sessionSeed = parseSeed(diceSeedInput);
+
+  const nextRollSeed = () => {
+    if (sessionSeed === null) return randomSeed();
+    if (diceStreamRef.current?.seed !== sessionSeed) {
+      diceStreamRef.current = { seed: sessionSeed, next: createRng(sessionSeed) };
+    }
+    return Math.floor(diceStreamRef.current.next() * 4294967296);
   };
 
-  // Timer state per phase
-  const [phaseDurations, setPhaseDurations] = useState<number[]>([180, 120, 150, 90, 120]);
-  const [seconds, setSeconds] = useState<number>(phaseDurations[0]);
-  const [running, setRunning] = useState<boolean>(false);
+  const restartDiceSequence = () => {
+    diceStreamRef.current = null;
+  };
 
-  // Phase state
-  const [phaseIndex, setPhaseIndex] = useState<number>(0);
-  const adjustDate = (base: Date, amount: number, unit: TimeUnit) => {
-    const next = new Date(base.getTime());
-    if (unit === "days") {
-      next.setDate(next.getDate() + amount);
-    } else if (unit === "months") {
-      next.setMonth(next.getMonth() + amount);
-    } else {
-      next.setFullYear(next.getFullYear() + amount);
+  const rollDice = () => {
+    const parsed = parseDiceExpression(diceExpression);
+    if (!parsed.ok) {
+      setDiceError(parsed.error);
+      return;
+    }
+    setDiceError(null);
+    const roll = rollDiceExpression(parsed.expression, nextRollSeed(), diceMode);
+    const roller = participants.find((participant) => participant.id === diceRollerId) ?? null;
+    const rollerName = roller?.name ?? "Adjudicator";
+    const entry: DiceHistoryEntry = {
+      id: `roll-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      roll,
+      rollerId: roller?.id ?? null,
+      rollerName,
+      round: roundNumber,
+    };
+    setDiceHistory((prev) => [entry, ...prev].slice(0, DICE_HISTORY_LIMIT));
+    setReproducedRoll(null);
+    const mode = roll.mode === "normal" ? "" : ` with ${DICE_MODE_LABELS[roll.mode].toLowerCase()}`;
+    logEvents([{
+      type: "dice",
+      message: `${rollerName} rolled ${roll.expression}${mode}: ${describeDiceRoll(roll)} (seed ${roll.seed})`,
+      subject: rollerName,
+      amount: roll.total,
+      playerIds: roller?.kind === "player" ? [roller.id] : [],
+    }]);
+  };
+
+  // Rolls the entry again from its recorded seed so a contested result can be checked at the table
+  const reproduceRoll = (entry: DiceHistoryEntry) => {
+    const parsed = parseDiceExpression(entry.roll.expression);
+    if (!parsed.ok) return;
+    const target = entry.roll.target ? { comparison: entry.roll.target.comparison, value: entry.roll.target.value } : null;
+    const again = rollDiceExpression(parsed.expression, entry.roll.seed, entry.roll.mode, target);
+    setReproducedRoll({ entryId: entry.id, matches: describeDiceRoll(again) === describeDiceRoll(entry.roll) });
+  };
+
+  // Adjudication queue
+  const EMPTY_ACTION_DRAFT: ActionDraft = { participantId: "", targetCountry: "", tokens: 0, description: "" };
+  const [actionDraft, setActionDraft] = useState<ActionDraft>(EMPTY_ACTION_DRAFT);
+  const [ruling, setRuling] = useState<RulingDraft | null>(null);
+  const [effectDraft, setEffectDraft] = useState<EffectDraft>({
+    kind: "assignCountry",
+    country: "",
+    playerId: "",
+    replaceOwners: false,
+    pool: "",
+    participantId: "",
+    trackId: "",
+    delta: 1,
+  });
+  const adjudicationStage = getAdjudicationStage(phases[phaseIndex] ?? "");
+  const pendingActions = actionQueue.filter((queued) => !queued.resolution);
+  const resolvedThisRound = actionQueue.filter((queued) => queued.resolution?.round === roundNumber);
+
+  const participantName = (id: string) => participants.find((item) => item.id === id)?.name ?? id;
+
+  const getAvailableTokens = (participantId: string) => {
+    const source = getParticipantPool(game, participantId);
+    if (!source) return 0;
+    const pools = source.pool === "player" ? playerTokens : actorTokens;
+    return pools[source.id]?.available ?? 0;
+  };
+
+  const queueAction = () => {
+    const participant = participants.find((item) => item.id === actionDraft.participantId);
+    const description = actionDraft.description.trim();
+    if (!participant || !description) return;
+    recordHistory(`Queued ${participant.name}'s action`);
+    dispatch({
+      type: "queueAction",
+      action: {
+        id: `action-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        round: roundNumber,
+        participantId: participant.id,
+        targetCountry: actionDraft.targetCountry || null,
+        tokensCommitted: Math.min(actionDraft.tokens, getAvailableTokens(participant.id)),
+        description,
+        resolution: null,
+      },
+    });
+    setActionDraft({ ...EMPTY_ACTION_DRAFT, participantId: participant.id });
+  };
+
+  const withdrawAction = (actionId: string) => {
+    const queued = actionQueue.find((item) => item.id === actionId);
+    if (!queued) return;
+    recordHistory(`Withdrew ${participantName(queued.participantId)}'s action`);
+    dispatch({ type: "withdrawAction", actionId });
+    if (ruling?.actionId === actionId) setRuling(null);
+  };
+
+  const startRuling = (actionId: string) => {
+    const queued = actionQueue.find((item) => item.id === actionId);
+    if (!queued) return;
+    setRuling({ actionId, expression: DEFAULT_ACTION_ROLL, roll: null, error: null, outcome: "", effects: [] });
+    setEffectDraft((prev) => ({
+      ...prev,
+      country: queued.targetCountry ?? "",
+      playerId: players.some((player) => player.id === queued.participantId) ? queued.participantId : prev.playerId,
+      participantId: queued.participantId,
+    }));
+  };
+
+  const rollForRuling = () => {
+    if (!ruling) return;
+    const parsed = parseDiceExpression(ruling.expression);
+    if (!parsed.ok) {
+      setRuling({ ...ruling, roll: null, error: parsed.error });
+      return;
+    }
+    setRuling({ ...ruling, roll: rollDiceExpression(parsed.expression, nextRollSeed()), error: null });
+  };
+
+  const buildEffect = (draft: EffectDraft): AdjudicationEffect | null => {
+    const delta = Math.trunc(draft.delta);
+    switch (draft.kind) {
+      case "assignCountry":
+        return draft.country && draft.playerId
+          ? { kind: "assignCountry", country: draft.country, playerId: draft.playerId, replaceOwners: draft.replaceOwners }
+          : null;
+      case "removeOwner":
+        return draft.country && draft.playerId ? { kind: "removeOwner", country: draft.country, playerId: draft.playerId } : null;
+      case "tokens": {
+        const [pool, ...rest] = draft.pool.split(":");
+        const id = rest.join(":");
+        if (!id || !delta || (pool !== "player" && pool !== "actor" && pool !== "country")) return null;
+        return { kind: "tokens", pool, id, delta };
+      }
+      case "interest":
+        return draft.participantId && delta ? { kind: "interest", participantId: draft.participantId, delta } : null;
+      case "track":
+        return draft.trackId && delta ? { kind: "track", trackId: draft.trackId, delta } : null;
+      default:
+        return null;
     }
-    return next;
+  };
+  const draftEffect = buildEffect(effectDraft);
+
+  const addRulingEffect = () => {
+    if (!ruling || !draftEffect) return;
+    setRuling({ ...ruling, effects: [...ruling.effects, draftEffect] });
+  };
+
+  const removeRulingEffect = (index: number) => {
+    if (!ruling) return;
+    setRuling({ ...ruling, effects: ruling.effects.filter((_, i) => i !== index) });
+  };
+
+  // The ruling, its roll and every effect go in as one change, undone together
+  const applyRuling = () => {
+    if (!ruling) return;
+    const queued = actionQueue.find((item) => item.id === ruling.actionId);
+    if (!queued) return;
+    const { roll } = ruling;
+    recordHistory(`Resolved ${participantName(queued.participantId)}'s action`);
+    dispatch({
+      type: "resolveAction",
+      actionId: queued.id,
+      resolution: {
+        round: roundNumber,
+        roll: roll ? { expression: roll.expression, total: roll.total, seed: roll.seed, success: roll.target?.success ?? null } : null,
+        outcome: ruling.outcome.trim(),
+        effects: ruling.effects,
+      },
+    });
+    setRuling(null);
+  };
+
+  // Agreements
+  const [agreementTitle, setAgreementTitle] = useState<string>("");
+  const [agreementParties, setAgreementParties] = useState<string[]>([]);
+  const [agreementTerms, setAgreementTerms] = useState<string>("");
+  // Null is open-ended
+  const [agreementDuration, setAgreementDuration] = useState<number | null>(3);
+  const [showTreatyLines, setShowTreatyLines] = useState<boolean>(true);
+  const [showEndedAgreements, setShowEndedAgreements] = useState<boolean>(false);
+  const negotiationPhase = /negotiat|diplomac/i.test(phases[phaseIndex] ?? "");
+  const activeAgreements = agreements.filter((agreement) => agreement.status === "signed");
+  const proposedAgreements = agreements.filter((agreement) => agreement.status === "proposed");
+  const endedAgreements = agreements.filter((agreement) => agreement.status === "broken" || agreement.status === "expired");
+  const listedAgreements = [...activeAgreements, ...proposedAgreements, ...(showEndedAgreements ? endedAgreements : [])];
+
+  // Relations
+  // Participant whose stance colours the map; null shows ownership as usual
+  const [stanceFocusId, setStanceFocusId] = useState<string | null>(null);
+  const stanceFocus = participants.find((participant) => participant.id === stanceFocusId) ?? null;
+
+  const setRelationship = (a: string, b: string, stance: number) => {
+    if (a === b || getStance(relationships, a, b) === stance) return;
+    const nameOf = (id: string) => participants.find((participant) => participant.id === id)?.name ?? id;
+    recordHistory(`${nameOf(a)} and ${nameOf(b)} ${getStanceInfo(stance).label.toLowerCase()}`);
+    dispatch({ type: "setRelationship", participantIds: [a, b], stance });
+  };
+
+  // Owners speak for a country; local actors only where nobody owns it
+  const getStanceColor = (country: string) => {
+    if (!stanceFocus) return null;
+    const owners = getOwnersForCountry(country);
+    const holders = owners.length ? owners : getLocalActors(country).map((actor) => actor.id);
+    const stance = getCountryStance(relationships, stanceFocus.id, holders);
+    if (stance === null) return null;
+    return stance === "self" ? SELF_STANCE_COLOR : getStanceInfo(stance).color;
+  };
+
+  const toggleAgreementParty = (id: string) =>
+    setAgreementParties((prev) => (prev.includes(id) ? prev.filter((party) => party !== id) : [...prev, id]));
+
+  const addAgreement = (signNow: boolean) => {
+    const title = agreementTitle.trim();
+    if (!title || agreementParties.length < 2) return;
+    const agreement = createAgreement(
+      `agreement-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      title,
+      agreementParties,
+      agreementTerms.trim(),
+      agreementDuration,
+      roundNumber
+    );
+    recordHistory(`${signNow ? "Signed" : "Proposed"} ${title}`);
+    dispatch({ type: "addAgreement", agreement });
+    if (signNow) dispatch({ type: "setAgreementStatus", agreementId: agreement.id, status: "signed" });
+    setAgreementTitle("");
+    setAgreementTerms("");
+    setAgreementParties([]);
+  };
+
+  const setAgreementStatus = (agreementId: string, status: AgreementStatus) => {
+    const agreement = agreements.find((item) => item.id === agreementId);
+    if (!agreement) return;
+    recordHistory(`Marked ${agreement.title} ${AGREEMENT_STATUS_LABELS[status].toLowerCase()}`);
+    dispatch({ type: "setAgreementStatus", agreementId, status });
+  };
+
+  const removeAgreement = (agreementId: string) => {
+    const agreement = agreements.find((item) => item.id === agreementId);
+    if (!agreement) return;
+    recordHistory(`Deleted agreement ${agreement.title}`);
+    dispatch({ type: "removeAgreement", agreementId });
   };
 
-  const applyAdvanceAmount = () => {
-    const value = Math.floor(timeAdvanceValue);
-    return Number.isNaN(value) ? 1 : Math.max(1, value);
+  const describeAgreementTerm = (agreement: (typeof agreements)[number]) => {
+    if (agreement.durationRounds === null) return "Open-ended";
+    if (agreement.status !== "signed") return `${agreement.durationRounds} round${agreement.durationRounds === 1 ? "" : "s"}`;
+    const remaining = getRoundsRemaining(agreement, roundNumber) ?? 0;
+    return remaining ? `${remaining} more round${remaining === 1 ? "" : "s"}` : "Ends this round";
   };
 
+  // Players are drawn from their largest country; actors and organizations from their markers
+  const getPartyAnchor = (id: string): LatLng | null => {
+    if (players.some((player) => player.id === id)) {
+      const largest = Object.keys(ownership)
+        .filter((country) => ownership[country].includes(id))
+        .map((country) => countryLayerIndex.current[country])
+        .filter((polygon): polygon is L.Polygon => Boolean(polygon))
+        .sort((a, b) => largestPartBounds(b).area - largestPartBounds(a).area)[0];
+      return largest ? getCountryAnchor(largest) : null;
+    }
+    return findActor(game, id)?.position ?? externalOrganizations.find((org) => org.id === id)?.position ?? null;
+  };
+
+  const treatyLines = useMemo<TreatyLine[]>(
+    () =>
+      activeAgreements.flatMap((agreement) => {
+        const points = agreement.parties.map(getPartyAnchor).filter((point): point is LatLng => Boolean(point));
+        if (points.length < 2) return [];
+        const names = agreement.parties.map((id) => participants.find((item) => item.id === id)?.name ?? id).join(", ");
+        return [{ id: agreement.id, label: `${agreement.title} · ${names} · ${describeAgreementTerm(agreement)}`, points }];
+      }),
+    // getPartyAnchor reads layers that only change once the map is ready or boundaries reload
+    [agreements, roundNumber, ownership, players, countryActors, externalOrganizations, participants, mapReady, boundaries]
+  );
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady || !showTreatyLines || !treatyLines.length) return;
+    const overlay = createTreatyOverlay(map, treatyLines).addTo(map);
+    return () => {
+      overlay.remove();
+    };
+  }, [mapReady, showTreatyLines, treatyLines]);
+
+  // Timer state per phase
+  const [seconds, setSeconds] = useState<number>(phaseDurations[0]);
+  const [running, setRunning] = useState<boolean>(false);
+
   const advanceTime = () => {
-    const amount = applyAdvanceAmount();
-    setGameDate((prev) => adjustDate(prev, amount, timeAdvanceUnit));
-    setRoundNumber((prev) => prev + 1);
-    replenishAllTokens();
+    recordHistory(`Advanced to round ${roundNumber + 1}`);
+    dispatch({ type: "advanceTime", infections: rollSpread() });
   };
 
   const rewindTime = () => {
     if (roundNumber <= 1) return;
-    const amount = applyAdvanceAmount();
-    setGameDate((prev) => adjustDate(prev, -amount, timeAdvanceUnit));
-    setRoundNumber((prev) => Math.max(1, prev - 1));
-    replenishAllTokens();
+    recordHistory(`Rewound to round ${roundNumber - 1}`);
+    dispatch({ type: "rewindTime" });
   };
 
   const nextPhase = () => {
-    setPhaseIndex((i) => {
-      const ni = (i + 1) % PHASES.length;
-      setSeconds(phaseDurations[ni]);
-      setRunning(false);
-      if (ni === 0) {
-        advanceTime();
-      }
-      return ni;
-    });
+    const ni = (phaseIndex + 1) % phases.length;
+    recordHistory(`Moved to ${phases[ni]}`);
+    dispatch({ type: "nextPhase", infections: ni === 0 ? rollSpread() : [] });
+    setSeconds(phaseDurations[ni]);
+    setRunning(false);
   };
   const prevPhase = () => {
-    setPhaseIndex((i) => {
-      const pi = (i - 1 + PHASES.length) % PHASES.length;
-      setSeconds(phaseDurations[pi]);
-      setRunning(false);
-      if (i === 0) {
-        rewindTime();
-      }
-      return pi;
-    });
+    const pi = (phaseIndex - 1 + phases.length) % phases.length;
+    recordHistory(`Moved back to ${phases[pi]}`);
+    dispatch({ type: "prevPhase" });
+    setSeconds(phaseDurations[pi]);
+    setRunning(false);
   };
 
   const parseDateInput = (value: string) => {
@@ -902,8 +1526,8 @@ export default function GameWorldMap() {
   const applyStartDate = () => {
     const parsed = parseDateInput(startDateInput);
     if (parsed) {
-      setGameDate(parsed);
-      setRoundNumber(1);
+      recordHistory(`Set start date to ${formatGameDate(parsed)}`);
+      dispatch({ type: "setStartDate", date: startDateInput });
     }
   };
 
@@ -1001,74 +1625,30 @@ export default function GameWorldMap() {
   };
 
   const setDurationForPhase = (index: number, minutes: number, seconds: number) => {
+    recordHistory(`Changed ${phases[index]} duration`, `phase-duration:${index}`);
     const total = Math.max(0, minutes * 60 + seconds);
-    setPhaseDurations((prev) => {
-      const copy = [...prev];
-      copy[index] = total;
-      return copy;
-    });
+    dispatch({ type: "setPhaseDuration", index, seconds: total });
     if (index === phaseIndex) {
       setSeconds(total);
     }
   };
 
   // ────────────────────────────────────────────────────────────────────────────
-  // Map boot (original: remote GeoJSON fetch)
+  // Map boot
   // ────────────────────────────────────────────────────────────────────────────
   useEffect(() => {
     if (mapRef.current || !mapElRef.current) return;
     
-    // Define world bounds to prevent dragging beyond the map
-    const worldBounds = L.latLngBounds(
-      L.latLng(-85, -180), // Southwest corner
-      L.latLng(85, 180)    // Northeast corner
-    );
-    
     const map = L.map(mapElRef.current, {
       zoomControl: false,
       worldCopyJump: false, // Disable world wrapping to prevent multiple copies
       minZoom: 2,
       maxZoom: 18,
-      maxBounds: worldBounds, // Restrict panning to world bounds
+      maxBounds: WORLD_BOUNDS, // Restrict panning to world bounds
       maxBoundsViscosity: 1.0, // Make bounds "hard" - prevents dragging beyond
     });
     L.control.zoom({ position: "bottomright" }).addTo(map);
 
-    L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
-      attribution: "&copy; <a href='https://www.openstreetmap.org/copyright'>OpenStreetMap</a> contributors",
-      minZoom: 2,
-      maxZoom: 18,
-      bounds: worldBounds, // Restrict tiles to world bounds
-      noWrap: true, // Prevent tile wrapping
-    }).addTo(map);
-
-    fetch("https://raw.githubusercontent.com/johan/world.geo.json/master/countries.geo.json")
-      .then((res) => res.json())
-      .then((geojson) => {
-        const layer = L.geoJSON(geojson, {
-          style: (f: any) => baseCountryStyle(f?.properties?.name),
-          onEachFeature: (feature: any, lyr: CountryLayer) => {
-            const name: string = feature.properties.name;
-            countryLayerIndex.current[name] = lyr;
-            lyr.on({
-              click: () => setSelectedCountry(name),
-              mouseover: () => onHover(lyr, true),
-              mouseout: () => onHover(lyr, false)
-            });
-            lyr.bindTooltip(name, { sticky: true });
-          },
-        }).addTo(map);
-        countriesLayerRef.current = layer as L.GeoJSON;
-        
-        // Mark map as ready after countries are loaded
-        setMapReady(true);
-      })
-      .catch((error) => {
-        console.error('Error loading countries GeoJSON:', error);
-        // Still mark map as ready even if countries fail to load
-        setMapReady(true);
-      });
-
     // Set initial view to show the world properly
     const size = map.getSize();
     if (size.x > 0 && size.y > 0) {
@@ -1085,37 +1665,129 @@ export default function GameWorldMap() {
       map.setView([20, 0], 2);
     }
 
+    // Ready once the boundary layer below is drawn; until then boundaryError says why not
     mapRef.current = map;
-    
-    // Fallback to set map ready after a short delay
-    const readyTimeout = setTimeout(() => {
-      setMapReady((prev) => {
-        if (!prev) {
-          console.log('Setting map ready via timeout fallback');
-          return true;
-        }
-        return prev;
-      });
-    }, 2000);
-    
+
     return () => {
-      clearTimeout(readyTimeout);
       map.remove();
       mapRef.current = null;
       setMapReady(false);
     };
   }, []);
 
+  const loadBoundaries = useCallback(() => {
+    setBoundaryError(null);
+    loadBundledBoundaries()
+      .then(setBoundaries)
+      .catch((error) => {
+        console.error("Error loading country boundaries:", error);
+        setBoundaryError(error instanceof Error ? error.message : "The country boundaries could not be loaded.");
+      });
+  }, []);
+
   useEffect(() => {
-    const g = countriesLayerRef.current; if (!g) return;
-    g.eachLayer((l: any) => { const n = l.feature?.properties?.name as string; l.setStyle(baseCountryStyle(n)); });
-  }, [ownership, players, countryActors]);
+    loadBoundaries();
+  }, [loadBoundaries]);
+
+  const loadBoundariesFromFile = async (file: File) => {
+    try {
+      const next = await readBoundariesFile(file);
+      setBoundaries(next);
+      setBoundaryError(null);
+    } catch (error) {
+      console.error("Error loading country boundaries:", error);
+      setBoundaryError(error instanceof Error ? error.message : `${file.name} could not be read.`);
+    }
+  };
 
+  // Rebuilt whenever a different boundary file is loaded
   useEffect(() => {
-    players.forEach((player) => {
-      ensurePlayerTokens(player.id);
-    });
-  }, [players]);
+    const map = mapRef.current;
+    if (!map || !boundaries) return;
+    const layerIndex: Record<string, CountryLayer> = {};
+    const layer = L.geoJSON(boundaries.geojson as GeoJSON.FeatureCollection, {
+      style: (f?: CountryGeoFeature) => baseCountryStyle(f?.properties.name),
+      onEachFeature: (feature: CountryGeoFeature, lyr: CountryLayer) => {
+        const name = feature.properties.name;
+        layerIndex[name] = lyr;
+        lyr.on({
+          click: (event: L.LeafletMouseEvent) => {
+            // Fog, drawing and box-select tools handle the click on the map itself
+            if (fogToolRef.current || drawToolRef.current || boxSelectingRef.current) return;
+            countryClickRef.current(name, event.originalEvent.shiftKey);
+          },
+          mouseover: () => onHover(lyr, true),
+          mouseout: () => onHover(lyr, false)
+        });
+        lyr.bindTooltip(name, { sticky: true });
+      },
+    }).addTo(map);
+    countryLayerIndex.current = layerIndex;
+    countriesLayerRef.current = layer;
+    setMapReady(true);
+    return () => {
+      layer.remove();
+      if (countriesLayerRef.current === layer) countriesLayerRef.current = null;
+    };
+  }, [boundaries]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    const layer = addBasemap(map, basemap);
+    writeBasemapSettings(basemap);
+    return () => {
+      layer.remove();
+    };
+  }, [basemap]);
+
+  // Labels read the country layers, so they follow the boundary layer above
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !boundaries || basemap.mode !== "offline" || !basemap.showLabels) return;
+    const labels = createCountryLabels(map, countryLayerIndex.current).addTo(map);
+    return () => {
+      labels.remove();
+    };
+  }, [boundaries, basemap.mode, basemap.showLabels]);
+
+  const setBasemapMode = (mode: BasemapMode) => setBasemap((prev) => ({ ...prev, mode }));
+
+  const applyTileServer = (tileUrl: string, tileAttribution: string) => {
+    const url = tileUrl.trim();
+    if (!isValidTileUrl(url)) {
+      alert("The tile URL template must include {z}, {x} and {y}.");
+      return;
+    }
+    setTileUrlDraft(url);
+    setTileAttributionDraft(tileAttribution);
+    setBasemap((prev) => ({ ...prev, mode: "tiles", tileUrl: url, tileAttribution }));
+  };
+
+  // Names in the game that the loaded boundaries have no polygon for
+  const unmatchedCountries = useMemo(() => {
+    if (!boundaries) return [];
+    const names = new Set(boundaries.geojson.features.map((feature) => feature.properties.name));
+    return Object.keys(ownership).filter((country) => !names.has(country)).sort();
+  }, [boundaries, ownership]);
+
+  useEffect(() => {
+    const g = countriesLayerRef.current; if (!g) return;
+    g.eachLayer((l: any) => { const n = l.feature?.properties?.name as string; l.setStyle(baseCountryStyle(n)); });
+  }, [
+    ownership,
+    players,
+    countryActors,
+    fogVisibility,
+    fogRadius,
+    boundaries,
+    selectedCountry,
+    selectedNeighbours,
+    highlightNeighbours,
+    relationships,
+    stanceFocus,
+    multiSelection,
+  ]);
 
   useEffect(() => {
     const countries = new Set<string>();
@@ -1131,46 +1803,13 @@ export default function GameWorldMap() {
       ownedCountries.forEach((countryName) => countries.add(countryName));
     });
     const derivedList = Array.from(countries).sort();
-    setAvailableOutbreakCountries(derivedList.length ? derivedList : PANDEMIC_OUTBREAK_LOCATIONS);
+    setAvailableOutbreakCountries(derivedList.length ? derivedList : scenario.outbreakCandidates);
     setSelectedOutbreakCandidates((prev) => {
       if (!prev.length) return derivedList;
       return prev.filter((country) => derivedList.includes(country));
     });
-  }, [players, ownership]);
-
-
-  useEffect(() => {
-    Object.keys(ownership).forEach((country) => {
-      ensureCountryTokens(country);
-    });
-  }, [ownership]);
-
-  useEffect(() => {
-    Object.values(countryActors).forEach((list) => {
-      list.forEach((actor) => ensureActorTokens(actor.id));
-    });
-  }, [countryActors]);
+  }, [players, ownership, scenario.outbreakCandidates]);
 
-  useEffect(() => {
-    const ids = new Set(participants.map((entry) => entry.id));
-    setNationalInterests((prev) => {
-      const next: Record<string, number> = { ...prev };
-      let changed = false;
-      ids.forEach((id) => {
-        if (next[id] === undefined) {
-          next[id] = 0;
-          changed = true;
-        }
-      });
-      Object.keys(next).forEach((id) => {
-        if (!ids.has(id)) {
-          delete next[id];
-          changed = true;
-        }
-      });
-      return changed ? next : prev;
-    });
-  }, [participants]);
 
   // Close player assignment when clicking outside
   useEffect(() => {
@@ -1192,22 +1831,6 @@ export default function GameWorldMap() {
     };
   }, [showPlayerAssignment]);
 
-  useEffect(() => {
-    setNationalInterests((prev) => {
-      const maxLevel = Math.max(1, interestLevelCount);
-      let changed = false;
-      const next: Record<string, number> = {};
-      Object.entries(prev).forEach(([id, level]) => {
-        const bounded = Math.max(0, Math.min(maxLevel, level));
-        next[id] = bounded;
-        if (bounded !== level) {
-          changed = true;
-        }
-      });
-      return changed ? next : prev;
-    });
-  }, [interestLevelCount]);
-
 
   useEffect(() => {
     const map = mapRef.current;
@@ -1220,6 +1843,8 @@ export default function GameWorldMap() {
         const position = actor.position ?? getCountryCenter(country);
         if (!position) return;
         activeIds.add(actor.id);
+        // Other factions' actors vanish while they sit inside the viewer's fog
+        const hidden = fogViewerId !== null && !(ownership[country] ?? []).includes(fogViewerId) && isHiddenFromViewer(position);
         const isSelectedCountry = selectedCountry ? selectedCountry === country : true;
         const icon = createActorIcon(actor.color, actor.name, isSelectedCountry);
         let marker = markers[actor.id];
@@ -1235,14 +1860,8 @@ export default function GameWorldMap() {
           marker.on("dragend", (event) => {
             const target = event.target as L.Marker;
             const { lat, lng } = target.getLatLng();
-            setCountryActors((prev) => {
-              const list = prev[actorCountry] ?? [];
-              const idx = list.findIndex((item) => item.id === actorId);
-              if (idx === -1) return prev;
-              const updatedList = [...list];
-              updatedList[idx] = { ...updatedList[idx], position: { lat, lng } };
-              return { ...prev, [actorCountry]: updatedList };
-            });
+            recordHistory(`Moved ${target.getTooltip()?.getContent() ?? "local actor"}`);
+            dispatch({ type: "updateLocalActor", country: actorCountry, actorId, updates: { position: { lat, lng } } });
           });
           marker.addTo(map);
           marker.bindTooltip(actor.name, { direction: "top", offset: [0, -28], opacity: 0.85 });
@@ -1255,6 +1874,11 @@ export default function GameWorldMap() {
           }
         }
         marker.setIcon(icon);
+        if (hidden) {
+          marker.remove();
+        } else if (!map.hasLayer(marker)) {
+          marker.addTo(map);
+        }
         if (selectedCountry && selectedCountry !== country) {
           marker.setOpacity(0.5);
           marker.dragging?.disable();
@@ -1271,15 +1895,38 @@ export default function GameWorldMap() {
         delete markers[id];
       }
     });
-  }, [countryActors, selectedCountry]);
+  }, [countryActors, selectedCountry, ownership, fogVisibility, fogRadius]);
+
+  const baseCountryStyle = (name?: string): L.PathOptions => {
+    const style = ownershipStyle(name);
+    // Dashes are set every time so a country that stops being a neighbour loses them
+    if (name && multiSelection.has(name)) {
+      return { ...style, color: MULTI_SELECT_COLOR, weight: 2.5, dashArray: undefined };
+    }
+    if (name && highlightNeighbours && selectedNeighbours.has(name)) {
+      return { ...style, color: NEIGHBOUR_COLOR, weight: 2.5, dashArray: "5 4" };
+    }
+    return { ...style, dashArray: undefined };
+  };
 
-  const baseCountryStyle = (name?: string) => {
+  const ownershipStyle = (name?: string) => {
     if (!name) {
       return { color: NEUTRAL_COLOR, weight: 1, fillColor: NEUTRAL_COLOR, fillOpacity: 0.1 } as L.PathOptions;
     }
     if (name === selectedCountry) {
       return { color: "#90EE90", weight: 2, fillColor: "#90EE90", fillOpacity: 0.4 } as L.PathOptions;
     }
+    // A player viewing the map cannot tell who holds a country they have not uncovered
+    const center = fogViewerId ? getCountryCenter(name) : null;
+    if (center && isHiddenFromViewer(center)) {
+      return { color: NEUTRAL_COLOR, weight: 1, fillColor: NEUTRAL_COLOR, fillOpacity: 0.1 } as L.PathOptions;
+    }
+    if (stanceFocus) {
+      const stanceColor = getStanceColor(name);
+      return stanceColor
+        ? ({ color: stanceColor, weight: 1.5, fillColor: stanceColor, fillOpacity: 0.45 } as L.PathOptions)
+        : ({ color: NEUTRAL_COLOR, weight: 1, fillColor: NEUTRAL_COLOR, fillOpacity: 0.1 } as L.PathOptions);
+    }
     const ownerIds = getOwnersForCountry(name);
     const ownerPalette = ownerIds
       .map((id) => findPlayerById(id)?.color)
@@ -1300,7 +1947,92 @@ export default function GameWorldMap() {
     layer.setStyle({ weight: enter ? 2 : 1 });
   };
 
-  const revealAt = (pos: LatLng) => setDiscoveredAreas((prev) => [...prev, pos]);
+  // ────────────────────────────────────────────────────────────────────────────
+  // Fog of war
+  // ────────────────────────────────────────────────────────────────────────────
+
+  useEffect(() => {
+    const map = mapRef.current;
+    const canvas = fogCanvasRef.current;
+    if (!map || !canvas || !mapReady) return;
+    if (!fogEnabled) {
+      clearFog(canvas);
+      return;
+    }
+    const countries = fogVisibility.countries
+      .map((country) => countryLayerIndex.current[country])
+      .filter((layer): layer is CountryLayer => layer instanceof L.Polygon);
+    // Leaflet moves to the target zoom before its animation finishes, so hold the
+    // transformed canvas until zoomend instead of redrawing mid-animation
+    let animatingZoom = false;
+    const redraw = () => {
+      if (animatingZoom) return;
+      drawFog(canvas, map, { areas: fogVisibility.areas, countries, radiusKm: fogRadius, opacity: fogOpacity });
+    };
+    const followZoom = (event: L.ZoomAnimEvent) => {
+      animatingZoom = true;
+      transformFogForZoom(canvas, map, event.center, event.zoom);
+    };
+    const finishZoom = () => {
+      animatingZoom = false;
+      redraw();
+    };
+    redraw();
+    map.on("move zoom resize viewreset", redraw);
+    map.on("zoomanim", followZoom);
+    map.on("zoomend", finishZoom);
+    return () => {
+      map.off("move zoom resize viewreset", redraw);
+      map.off("zoomanim", followZoom);
+      map.off("zoomend", finishZoom);
+    };
+  }, [mapReady, boundaries, fogEnabled, fogVisibility, fogRadius, fogOpacity]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady) return;
+    const onClick = (event: L.LeafletMouseEvent) => {
+      const tool = fogToolRef.current;
+      if (!tool) return;
+      const position = { lat: event.latlng.lat, lng: event.latlng.lng };
+      const playerId = fogViewerRef.current;
+      if (tool === "reveal") {
+        recordHistory("Revealed area");
+        dispatch({ type: "revealArea", position, playerId });
+      } else {
+        recordHistory("Re-fogged area");
+        dispatch({ type: "refogArea", position, radiusKm: fogRadiusRef.current, playerId });
+      }
+    };
+    map.on("click", onClick);
+    return () => {
+      map.off("click", onClick);
+    };
+  }, [mapReady, recordHistory]);
+
+  useEffect(() => {
+    const container = mapRef.current?.getContainer();
+    container?.classList.toggle("map-fog-tool-active", Boolean(fogEnabled && fogTool));
+  }, [mapReady, fogEnabled, fogTool]);
+
+  // Fog edits go to the player being viewed, or to everyone from the adjudicator's view
+  const fogTargetIds = fogViewerId ? [fogViewerId] : players.map((player) => player.id);
+  const fogTargetName = fogViewerId ? findPlayerById(fogViewerId)?.name ?? fogViewerId : "all players";
+
+  const revealCountry = (country: string) => {
+    recordHistory(`Revealed ${country} for ${fogTargetName}`);
+    dispatch({ type: "revealCountries", countries: [country], playerId: fogViewerId });
+  };
+
+  const refogCountry = (country: string) => {
+    recordHistory(`Re-fogged ${country} for ${fogTargetName}`);
+    dispatch({ type: "refogCountries", countries: [country], playerId: fogViewerId });
+  };
+
+  const resetFog = () => {
+    recordHistory(`Reset fog of war for ${fogTargetName}`);
+    dispatch({ type: "resetFog", playerId: fogViewerId });
+  };
 
   const getCountryCenter = (country: string) => {
     const lyr = countryLayerIndex.current[country];
@@ -1319,85 +2051,43 @@ export default function GameWorldMap() {
   const addPlayer = () => {
     const id = `p${players.length + 1}`;
     const newPlayer: Player = { id, name: `Player ${players.length + 1}`, color: PLAYER_COLORS[players.length % PLAYER_COLORS.length] };
-    setPlayers((prev) => [...prev, newPlayer]);
-    ensurePlayerTokens(id);
+    recordHistory(`Added ${newPlayer.name}`);
+    dispatch({ type: "addPlayer", player: newPlayer });
   };
 
   const renamePlayer = (pid: string, name: string) => {
-    setPlayers(prev => prev.map(p => p.id === pid ? { ...p, name } : p));
+    recordHistory(`Renamed ${findPlayerById(pid)?.name || pid}`, `rename-player:${pid}`);
+    dispatch({ type: "renamePlayer", playerId: pid, name });
   };
 
   const assignSelectedTo = (pid: string) => {
     if (!selectedCountry) return;
-    setOwnership((prev) => {
-      const current = prev[selectedCountry] ?? [];
-      if (current.includes(pid)) return prev;
-      return { ...prev, [selectedCountry]: [...current, pid] };
-    });
-    ensureCountryTokens(selectedCountry);
+    recordHistory(`Assigned ${selectedCountry} to ${findPlayerById(pid)?.name ?? pid}`);
     // Update player name to country name
-    setPlayers((prev) => prev.map((p) => p.id === pid ? { ...p, name: selectedCountry } : p));
-    const lyr = countryLayerIndex.current[selectedCountry];
-    if (lyr) {
-      const c = lyr.getBounds().getCenter();
-      revealAt({ lat: c.lat, lng: c.lng });
-    }
+    dispatch({ type: "assignCountries", countries: [selectedCountry], playerId: pid, label: selectedCountry });
   };
 
   const assignGroupToPlayer = (group: string, pid: string) => {
-    const countries = PRESET_GROUPS[group] || [];
-    const updated: OwnershipMap = { ...ownership };
-    countries.forEach((country) => {
-      const current = updated[country] ?? [];
-      if (!current.includes(pid)) {
-        updated[country] = [...current, pid];
-      }
-      ensureCountryTokens(country);
-    });
-    setOwnership(updated);
+    const countries = scenario.countryGroups[group] || [];
+    recordHistory(`Assigned ${group} to ${findPlayerById(pid)?.name ?? pid}`);
     // Update player name to group
-    setPlayers((prev) => prev.map((p) => p.id === pid ? { ...p, name: group } : p));
+    dispatch({ type: "assignCountries", countries, playerId: pid, label: group });
   };
 
-  // Assign a custom list of countries to a player
+  // Assign a list of countries, already checked against the map, to a player
   const assignCountriesToPlayer = (countries: string[], pid: string, label?: string) => {
-    const updated: OwnershipMap = { ...ownership };
-    countries.forEach((country) => {
-      if (!country) return;
-      const current = updated[country] ?? [];
-      if (!current.includes(pid)) {
-        updated[country] = [...current, pid];
-      }
-      ensureCountryTokens(country);
-    });
-    setOwnership(updated);
-    if (label) {
-      setPlayers((prev) => prev.map((p) => p.id === pid ? { ...p, name: label } : p));
-    }
+    recordHistory(`Assigned ${countries.length} ${countries.length === 1 ? "country" : "countries"} to ${findPlayerById(pid)?.name ?? pid}`);
+    dispatch({ type: "assignCountries", countries, playerId: pid, label });
   };
 
   const removePlayerFromCountry = (country: string, pid: string) => {
-    setOwnership((prev) => {
-      const current = prev[country] ?? [];
-      if (!current.includes(pid)) return prev;
-      const next = current.filter((id) => id !== pid);
-      const updated: OwnershipMap = { ...prev };
-      if (next.length) {
-        updated[country] = next;
-      } else {
-        delete updated[country];
-      }
-      return updated;
-    });
+    recordHistory(`Removed ${findPlayerById(pid)?.name ?? pid} from ${country}`);
+    dispatch({ type: "removeOwner", country, playerId: pid });
   };
 
   const clearCountryOwners = (country: string) => {
-    setOwnership((prev) => {
-      if (!prev[country]) return prev;
-      const updated: OwnershipMap = { ...prev };
-      delete updated[country];
-      return updated;
-    });
+    recordHistory(`Cleared owners of ${country}`);
+    dispatch({ type: "clearOwners", countries: [country] });
   };
 
   const addLocalActor = () => {
@@ -1414,14 +2104,8 @@ export default function GameWorldMap() {
       notes: newActorNotes.trim(),
       position: initialPos,
     };
-    setCountryActors((prev) => {
-      const current = prev[selectedCountry] ?? [];
-      return {
-        ...prev,
-        [selectedCountry]: [...current, actor],
-      };
-    });
-    ensureActorTokens(actor.id);
+    recordHistory(`Added ${actor.name} to ${selectedCountry}`);
+    dispatch({ type: "addLocalActor", country: selectedCountry, actor });
     const nextColor = PLAYER_COLORS[(existing.length + 1) % PLAYER_COLORS.length] || colorToUse;
     setNewActorName("");
     setNewActorNotes("");
@@ -1429,32 +2113,14 @@ export default function GameWorldMap() {
   };
 
   const updateLocalActor = (country: string, actorId: string, updates: Partial<LocalActor>) => {
-    setCountryActors((prev) => {
-      const list = prev[country] ?? [];
-      if (!list.length) return prev;
-      const updatedList = list.map((actor) => (actor.id === actorId ? { ...actor, ...updates } : actor));
-      return { ...prev, [country]: updatedList };
-    });
+    const fields = Object.keys(updates).sort().join(",");
+    recordHistory(`Edited ${findActorById(actorId)?.name ?? "local actor"}`, `actor:${actorId}:${fields}`);
+    dispatch({ type: "updateLocalActor", country, actorId, updates });
   };
 
   const removeLocalActor = (country: string, actorId: string) => {
-    setCountryActors((prev) => {
-      const list = prev[country] ?? [];
-      if (!list.length) return prev;
-      const updatedList = list.filter((actor) => actor.id !== actorId);
-      if (!updatedList.length) {
-        const copy = { ...prev };
-        delete copy[country];
-        return copy;
-      }
-      return { ...prev, [country]: updatedList };
-    });
-    setActorTokens((prev) => {
-      if (!prev[actorId]) return prev;
-      const copy = { ...prev };
-      delete copy[actorId];
-      return copy;
-    });
+    recordHistory(`Removed ${findActorById(actorId)?.name ?? "local actor"} from ${country}`);
+    dispatch({ type: "removeLocalActor", country, actorId });
   };
 
   const addExternalOrganization = async () => {
@@ -1499,7 +2165,8 @@ export default function GameWorldMap() {
       notes: newOrgNotes.trim(),
     };
     
-    setExternalOrganizations((prev) => [...prev, org]);
+    recordHistory(`Added ${org.name}`);
+    dispatch({ type: "addOrganization", organization: org });
     setNewOrgName("");
     setNewOrgNotes("");
     setNewOrgPicture("");
@@ -1509,22 +2176,21 @@ export default function GameWorldMap() {
   };
 
   const updateExternalOrganization = (orgId: string, updates: Partial<ExternalOrganization>) => {
-    try {
-      setExternalOrganizations((prev) => {
-        const orgExists = prev.some(org => org.id === orgId);
-        if (!orgExists) {
-          console.warn(`Attempted to update non-existent organization: ${orgId}`);
-          return prev;
-        }
-        return prev.map((org) => (org.id === orgId ? { ...org, ...updates } : org));
-      });
-    } catch (error) {
-      console.error('Error updating external organization:', error);
-    }
+    dispatch({ type: "updateOrganization", organizationId: orgId, updates });
+  };
+
+  // Settings edits go through here; drag/resize record once per gesture instead
+  const editExternalOrganization = (orgId: string, updates: Partial<ExternalOrganization>) => {
+    const org = externalOrganizations.find((entry) => entry.id === orgId);
+    const fields = Object.keys(updates).sort().join(",");
+    recordHistory(`Edited ${org?.name ?? "organization"}`, `org:${orgId}:${fields}`);
+    updateExternalOrganization(orgId, updates);
   };
 
   const removeExternalOrganization = (orgId: string) => {
-    setExternalOrganizations((prev) => prev.filter((org) => org.id !== orgId));
+    const org = externalOrganizations.find((entry) => entry.id === orgId);
+    recordHistory(`Removed ${org?.name ?? "organization"}`);
+    dispatch({ type: "removeOrganization", organizationId: orgId });
   };
 
   const handleOrgFileUpload = async (orgId: string, file: File) => {
@@ -1535,7 +2201,7 @@ export default function GameWorldMap() {
     
     try {
       const pictureData = await readFileAsDataURL(file);
-      updateExternalOrganization(orgId, {
+      editExternalOrganization(orgId, {
         picture: pictureData,
         pictureFile: file,
       });
@@ -1554,6 +2220,9 @@ export default function GameWorldMap() {
     event.preventDefault();
     const dx = event.clientX - state.originX;
     const dy = event.clientY - state.originY;
+    if (orgDragHistoryRef.current && (dx !== 0 || dy !== 0)) {
+      orgDragHistoryRef.current.moved = true;
+    }
     
     try {
       if (state.mode === "drag") {
@@ -1588,6 +2257,11 @@ export default function GameWorldMap() {
   }, []);
 
   const handleOrgPointerUp = useCallback(() => {
+    const pending = orgDragHistoryRef.current;
+    if (pending?.moved) {
+      setHistory((prev) => pushHistory(prev, { label: pending.label, state: pending.state, at: Date.now() }));
+    }
+    orgDragHistoryRef.current = null;
     orgDragStateRef.current = null;
     setDraggingOrg(null);
     window.removeEventListener("pointermove", handleOrgPointerMove);
@@ -1613,6 +2287,7 @@ export default function GameWorldMap() {
         startHeight: org.height,
         startImageHeight: org.imageHeight || 60,
       };
+      orgDragHistoryRef.current = { label: `Moved ${org.name}`, state: captureHistoryState(), moved: false };
       
       setDraggingOrg(orgId);
       window.addEventListener("pointermove", handleOrgPointerMove);
@@ -1620,7 +2295,7 @@ export default function GameWorldMap() {
     } catch (error) {
       console.warn('Error starting organization drag:', error);
     }
-  }, [externalOrganizations, handleOrgPointerMove, handleOrgPointerUp]);
+  }, [externalOrganizations, handleOrgPointerMove, handleOrgPointerUp, captureHistoryState]);
 
   const startOrgResize = useCallback((orgId: string, event: React.PointerEvent) => {
     try {
@@ -1641,6 +2316,7 @@ export default function GameWorldMap() {
         startHeight: org.height,
         startImageHeight: org.imageHeight || 60,
       };
+      orgDragHistoryRef.current = { label: `Resized ${org.name}`, state: captureHistoryState(), moved: false };
       
       setDraggingOrg(orgId);
       window.addEventListener("pointermove", handleOrgPointerMove);
@@ -1648,7 +2324,7 @@ export default function GameWorldMap() {
     } catch (error) {
       console.warn('Error starting organization resize:', error);
     }
-  }, [externalOrganizations, handleOrgPointerMove, handleOrgPointerUp]);
+  }, [externalOrganizations, handleOrgPointerMove, handleOrgPointerUp, captureHistoryState]);
 
   const startOrgImageResize = useCallback((orgId: string, event: React.PointerEvent) => {
     try {
@@ -1669,6 +2345,7 @@ export default function GameWorldMap() {
         startHeight: org.height,
         startImageHeight: org.imageHeight || 60,
       };
+      orgDragHistoryRef.current = { label: `Resized the image of ${org.name}`, state: captureHistoryState(), moved: false };
       
       setDraggingOrg(orgId);
       window.addEventListener("pointermove", handleOrgPointerMove);
@@ -1676,7 +2353,7 @@ export default function GameWorldMap() {
     } catch (error) {
       console.warn('Error starting organization image resize:', error);
     }
-  }, [externalOrganizations, handleOrgPointerMove, handleOrgPointerUp]);
+  }, [externalOrganizations, handleOrgPointerMove, handleOrgPointerUp, captureHistoryState]);
   
   useEffect(() => {
     return () => {
@@ -1686,27 +2363,53 @@ export default function GameWorldMap() {
   }, [handleOrgPointerMove, handleOrgPointerUp]);
 
 
+  const availableScenarios = useMemo(
+    () => [...BUILT_IN_SCENARIOS.filter((pack) => !customScenarios.some((custom) => custom.id === pack.id)), ...customScenarios],
+    [customScenarios]
+  );
+  const chosenScenario = availableScenarios.find((pack) => pack.id === scenarioChoiceId) ?? scenario;
+
+  const loadScenarioFromFile = async (file: File) => {
+    const result = await readScenarioFile(file);
+    if (!result.ok) {
+      setScenarioErrors(result.errors);
+      return;
+    }
+    setCustomScenarios((prev) => [...prev.filter((pack) => pack.id !== result.pack.id), result.pack]);
+    setScenarioChoiceId(result.pack.id);
+    setScenarioErrors([]);
+  };
+
   // ────────────────────────────────────────────────────────────────────────────
   // Title / Pause Overlay (ported from the updated file)
   // ────────────────────────────────────────────────────────────────────────────
 
-  const startNewGame = () => {
+  // Without a pack this restarts the current scenario
+  const startNewGame = (pack?: ScenarioPack) => {
     // Reset most game state
-    setPlayers([]);
-    setOwnership({});
+    dispatch({ type: "newGame", startDate: pack ? pack.startDate : startDateInput, scenario: pack });
+    if (pack) setStartDateInput(pack.startDate);
     setSelectedCountry(null);
-    setDiscoveredAreas([]);
-    setLastRoll(null);
-    setPhaseIndex(0);
-    setSeconds(phaseDurations[0]);
+    setDiceHistory([]);
+    setReproducedRoll(null);
+    restartDiceSequence();
+    setActionDraft(EMPTY_ACTION_DRAFT);
+    setRuling(null);
+    setAgreementParties([]);
+    setStanceFocusId(null);
+    setShowCountrySearch(false);
+    countryCycleRef.current = null;
+    setSelectedCountries([]);
+    setBoxSelecting(false);
+    setTransferFrom("");
+    setTransferTo("");
+    setLedgerPoolKey("");
+    setSelectedUnitId(null);
+    cancelDrawing();
+    setSeconds(pack ? pack.phases[0].seconds : phaseDurations[0]);
     setRunning(false);
     setShowTitle(false);
     setShowPauseMenu(false);
-    setRoundNumber(1);
-    const parsed = parseDateInput(startDateInput);
-    setGameDate(parsed ?? new Date());
-    setCountryActors({});
-    setExternalOrganizations([]);
     setNewActorName("");
     setNewActorNotes("");
     setNewActorColor(PLAYER_COLORS[0]);
@@ -1715,17 +2418,227 @@ export default function GameWorldMap() {
     setNewOrgColor(PLAYER_COLORS[0]);
     setNewOrgPicture("");
     setNewOrgPictureFile(null);
-    setPlayerTokens({});
-    setCountryTokens({});
-    setActorTokens({});
-    setNationalInterests({});
-    setInterestLevelCount(DEFAULT_INTEREST_LEVEL_COUNT);
-    setVaccineProgress(0);
-    setInitialOutbreak(null);
-    setOutbreakRoll(null);
-    setMapReady(false);
+    setHistory(createHistory());
   };
 
+  // ────────────────────────────────────────────────────────────────────────────
+  // Save / Load
+  // ────────────────────────────────────────────────────────────────────────────
+
+  const captureSnapshot = (): GameSnapshot => {
+    const map = mapRef.current;
+    const center = map?.getCenter();
+    return {
+      ...game,
+      mapView: map && center ? { center: { lat: center.lat, lng: center.lng }, zoom: map.getZoom() } : null,
+    };
+  };
+
+  // "history" restores keep the current selection and only reset the timer when the phase changes.
+  // The event log is append-only, so stepping through history keeps it and records the step instead.
+  const restoreGameState = (state: GameState, source: "load" | "history") => {
+    const restored = source === "history"
+      ? { ...normalizeGameState(state), eventLog: game.eventLog }
+      : normalizeGameState(state);
+    dispatch({ type: "loadState", state: restored });
+    if (source === "load" || restored.phaseIndex !== phaseIndex) {
+      setSeconds(restored.phaseDurations[restored.phaseIndex]);
+      setRunning(false);
+    }
+    if (source === "load") {
+      setStartDateInput(restored.gameDate.slice(0, 10));
+      setSelectedCountry(null);
+      setHistory(createHistory());
+    }
+  };
+
+  const applySnapshot = (snapshot: GameSnapshot) => {
+    const { mapView, ...state } = snapshot;
+    restoreGameState(state, "load");
+    const map = mapRef.current;
+    if (map && mapView) {
+      const { center, zoom } = mapView;
+      if (mapLocked) {
+        lockedViewRef.current = { center: L.latLng(center.lat, center.lng), zoom };
+      }
+      map.setView([center.lat, center.lng], zoom, { animate: false });
+    }
+  };
+
+  const downloadTextFile = (contents: string, fileName: string, type: string) => {
+    const blob = new Blob([contents], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  const saveGameToFile = () => {
+    const snapshot = captureSnapshot();
+    downloadTextFile(serializeGameSave(snapshot), getGameSaveFileName(snapshot), "application/json");
+    setSaveGameErrors([]);
+  };
+
+  const exportReportMarkdown = () => {
+    const report = buildAfterActionReport(game);
+    downloadTextFile(renderReportMarkdown(report), getReportFileName(report, "md"), "text/markdown");
+  };
+
+  // Opens the report in its own tab so it can be printed or saved as PDF; falls back to a download if popups are blocked
+  const exportReportHtml = () => {
+    const report = buildAfterActionReport(game);
+    const html = renderReportHtml(report);
+    const reportWindow = window.open("", "_blank");
+    if (!reportWindow) {
+      downloadTextFile(html, getReportFileName(report, "html"), "text/html");
+      return;
+    }
+    reportWindow.document.open();
+    reportWindow.document.write(html);
+    reportWindow.document.close();
+    reportWindow.focus();
+    reportWindow.print();
+  };
+
+  const loadGameFromFile = async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (error) {
+      console.error('Error reading saved game:', error);
+      setSaveGameErrors(["The selected file could not be read."]);
+      return;
+    }
+    const result = parseGameSave(text);
+    if (!result.ok) {
+      setSaveGameErrors(result.errors);
+      return;
+    }
+    applySnapshot(result.save.game);
+    setSaveGameErrors([]);
+    setShowPauseMenu(false);
+  };
+
+  const undo = () => {
+    const entry = history.past[history.past.length - 1];
+    if (!entry) return;
+    setHistory((prev) => undoHistory(prev, captureHistoryState()));
+    restoreGameState(entry.state, "history");
+    logEvents([{ type: "history", message: `Undid: ${entry.label}` }]);
+  };
+
+  const redo = () => {
+    const entry = history.future[history.future.length - 1];
+    if (!entry) return;
+    setHistory((prev) => redoHistory(prev, captureHistoryState()));
+    restoreGameState(entry.state, "history");
+    logEvents([{ type: "history", message: `Redid: ${entry.label}` }]);
+  };
+
+  const undoRedoRef = useRef({ undo, redo });
+  undoRedoRef.current = { undo, redo };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their native undo
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key !== "z" && key !== "y") return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+      e.preventDefault();
+      if (key === "y" || e.shiftKey) {
+        undoRedoRef.current.redo();
+      } else {
+        undoRedoRef.current.undo();
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
+  const countryKeysRef = useRef({ enabled: !showTitle, open: openCountrySearch, step: stepCountry });
+  countryKeysRef.current = { enabled: !showTitle, open: openCountrySearch, step: stepCountry };
+
+  // Ctrl+K or / opens the country search; ← and → step through the selected country's
+  // neighbours or its owners' other countries
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!countryKeysRef.current.enabled || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+      const modified = e.ctrlKey || e.metaKey;
+      if ((modified && e.key.toLowerCase() === "k") || (!modified && e.key === "/")) {
+        e.preventDefault();
+        countryKeysRef.current.open();
+      } else if (!modified && (e.key === "ArrowRight" || e.key === "ArrowLeft")) {
+        e.preventDefault();
+        countryKeysRef.current.step(e.key === "ArrowRight" ? 1 : -1);
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
+  // Leaflet pans with the arrow keys; while a country is selected they step between countries instead
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady) return;
+    if (selectedCountry) map.keyboard.disable();
+    else if (!mapLocked) map.keyboard.enable();
+  }, [mapReady, selectedCountry, mapLocked]);
+
+  // A country chosen from the search opens settings at its territory section
+  useEffect(() => {
+    if (!showSettings || !scrollToTerritoryRef.current) return;
+    scrollToTerritoryRef.current = false;
+    territorySectionRef.current?.scrollIntoView({ block: "start", behavior: "smooth" });
+  }, [showSettings, selectedCountry]);
+
+  const resumeAutosave = async (id: number) => {
+    try {
+      const save = await readAutosave(id);
+      applySnapshot(save.game);
+      setAutosaveError(null);
+      setShowTitle(false);
+      setShowPauseMenu(false);
+    } catch (error) {
+      console.error('Error resuming autosave:', error);
+      setAutosaveError("That autosave could not be restored.");
+    }
+  };
+
+  // Autosave after the game state settles; the title screen is skipped so an
+  // empty board never pushes real sessions out of the rolling set.
+  useEffect(() => {
+    if (showTitle) return;
+    const timeout = setTimeout(() => {
+      writeAutosave(captureSnapshot()).catch((error) => {
+        console.warn('Autosave failed:', error);
+      });
+    }, AUTOSAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [game]);
+
+  useEffect(() => {
+    if (!showTitle) return;
+    let cancelled = false;
+    listAutosaves()
+      .then((entries) => {
+        if (!cancelled) setAutosaves(entries);
+      })
+      .catch((error) => {
+        console.warn('Could not list autosaves:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [showTitle]);
+
   const selectedCountryActors = selectedCountry ? getLocalActors(selectedCountry) : [];
   const selectedCountryActorCount = selectedCountryActors.length;
 
@@ -1753,7 +2666,7 @@ export default function GameWorldMap() {
       setNewActorColor(PLAYER_COLORS[0]);
       return;
     }
-    ensureCountryTokens(selectedCountry);
+    dispatch({ type: "ensureCountryTokens", country: selectedCountry });
     const nextColor = PLAYER_COLORS[selectedCountryActorCount % PLAYER_COLORS.length] ?? PLAYER_COLORS[0];
     setNewActorName("");
     setNewActorNotes("");
@@ -1770,6 +2683,329 @@ export default function GameWorldMap() {
     };
   }, []);
   
+  // ────────────────────────────────────────────────────────────────────────────
+  // Units
+  // ────────────────────────────────────────────────────────────────────────────
+
+  const unitOwners = participants.filter((participant) => participant.kind !== "organization");
+  const {
+    unitStacks,
+    selectedStack,
+    selectedUnitId,
+    setSelectedUnitId,
+    getUnitOwnerName,
+    getUnitColor,
+    getStackColor,
+    getStackGlyph,
+  } = useUnitLayer({
+    mapRef,
+    mapReady,
+    units,
+    participants,
+    fogViewerId,
+    fogVisibility,
+    fogRadius,
+    isHiddenFromViewer,
+    recordHistory,
+    dispatch,
+  });
+
+  const getUnitPlacePosition = () => {
+    const center = mapRef.current?.getCenter();
+    return selectedCountry ? getCountryCenter(selectedCountry) : center ? { lat: center.lat, lng: center.lng } : null;
+  };
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Annotations
+  // ────────────────────────────────────────────────────────────────────────────
+
+  const {
+    showDrawToolbar,
+    setShowDrawToolbar,
+    drawTool,
+    drawToolRef,
+    drawDraft,
+    drawColor,
+    setDrawColor,
+    drawOwnerId,
+    setDrawOwnerId,
+    drawPublic,
+    setDrawPublic,
+    drawThisRoundOnly,
+    setDrawThisRoundOnly,
+    drawText,
+    setDrawText,
+    showAllAnnotations,
+    setShowAllAnnotations,
+    visibleAnnotations,
+    chooseDrawTool,
+    cancelDrawing,
+    finishDrawing,
+  } = useAnnotationLayer({
+    mapRef,
+    mapReady,
+    mapLocked,
+    annotations,
+    roundNumber,
+    fogViewerId,
+    fogVisibility,
+    fogRadius,
+    isHiddenFromViewer,
+    onChooseTool: () => {
+      setFogTool(null);
+      setBoxSelecting(false);
+    },
+    recordHistory,
+    dispatch,
+  });
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Multi-selection
+  // ────────────────────────────────────────────────────────────────────────────
+
+  const [batchPlayerId, setBatchPlayerId] = useState<string>("");
+  const [batchAllowance, setBatchAllowance] = useState<number>(scenario.tokens.country);
+  const [batchGroupName, setBatchGroupName] = useState<string>("");
+  const selectionLabel = `${selectedCountries.length} selected ${selectedCountries.length === 1 ? "country" : "countries"}`;
+
+  // A click focuses one country and leaves the selection alone; shift-click adds or
+  // removes a country, starting from the focused one so click then shift-click builds a region
+  countryClickRef.current = (name, additive) => {
+    if (!additive) {
+      setSelectedCountry(name);
+      return;
+    }
+    setSelectedCountries((prev) => {
+      const base = prev.length || !selectedCountry || selectedCountry === name ? prev : [selectedCountry];
+      return base.includes(name) ? base.filter((country) => country !== name) : [...base, name];
+    });
+  };
+
+  const addToSelection = (countries: string[]) =>
+    setSelectedCountries((prev) => {
+      const added = countries.filter((country) => !prev.includes(country));
+      return added.length ? [...prev, ...added] : prev;
+    });
+
+  const removeFromSelection = (country: string) => setSelectedCountries((prev) => prev.filter((name) => name !== country));
+
+  const toggleBoxSelect = () => {
+    setBoxSelecting((prev) => !prev);
+    setFogTool(null);
+    cancelDrawing();
+  };
+
+  useBoxSelect({
+    mapRef,
+    mapReady,
+    mapLocked,
+    active: boxSelecting,
+    countryLayers: countryLayerIndex,
+    color: MULTI_SELECT_COLOR,
+    onSelect: addToSelection,
+  });
+
+  const assignSelectionTo = (pid: string) => {
+    if (!selectedCountries.length || !pid) return;
+    recordHistory(`Assigned ${selectionLabel} to ${findPlayerById(pid)?.name ?? pid}`);
+    dispatch({ type: "assignCountries", countries: selectedCountries, playerId: pid });
+  };
+
+  const clearSelectionOwners = () => {
+    if (!selectedCountries.some((country) => ownership[country])) return;
+    recordHistory(`Cleared owners of ${selectionLabel}`);
+    dispatch({ type: "clearOwners", countries: selectedCountries });
+  };
+
+  const setSelectionAllowance = () => {
+    if (!selectedCountries.length) return;
+    recordHistory(`Set token allowance of ${selectionLabel} to ${batchAllowance}`);
+    dispatch({ type: "setCountryAllowances", countries: selectedCountries, allowance: batchAllowance });
+  };
+
+  const revealSelection = () => {
+    if (!selectedCountries.length) return;
+    recordHistory(`Revealed ${selectionLabel} for ${fogTargetName}`);
+    dispatch({ type: "revealCountries", countries: selectedCountries, playerId: fogViewerId });
+  };
+
+  const saveSelectionAsGroup = () => {
+    const name = batchGroupName.trim();
+    if (!name || !selectedCountries.length) return;
+    if (scenario.countryGroups[name] && !window.confirm(`Replace the countries in the "${name}" group?`)) return;
+    recordHistory(`Saved country group "${name}"`);
+    dispatch({ type: "saveCountryGroup", name, countries: selectedCountries });
+    setBatchGroupName("");
+  };
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Presenter view
+  // ────────────────────────────────────────────────────────────────────────────
+
+  const [presenterMapView, setPresenterMapView] = useState<GameSnapshot["mapView"]>(null);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady) return;
+    const updateView = () => {
+      const center = map.getCenter();
+      setPresenterMapView({ center: { lat: center.lat, lng: center.lng }, zoom: map.getZoom() });
+    };
+    updateView();
+    map.on("moveend", updateView);
+    return () => {
+      map.off("moveend", updateView);
+    };
+  }, [mapReady]);
+
+  // Only what players may see leaves this window: no notes, nothing under fog
+  const presenterSnapshot = useMemo<PresenterSnapshot>(() => {
+    const hiddenFromPlayers = (position: LatLng) =>
+      fogEnabled && isFogged(position, fogVisibility, fogRadius, countryLayerIndex.current);
+    const countryColors: Record<string, string[]> = {};
+    new Set([...Object.keys(ownership), ...Object.keys(countryActors)]).forEach((country) => {
+      const center = getCountryCenter(country);
+      if (center && hiddenFromPlayers(center)) return;
+      const palette = (stanceFocus ? [getStanceColor(country)] : [
+        ...(ownership[country] ?? []).map((id) => players.find((player) => player.id === id)?.color),
+        ...(countryActors[country] ?? []).map((actor) => actor.color),
+      ]).filter((color): color is string => Boolean(color));
+      if (palette.length) countryColors[country] = palette;
+    });
+    const infections = Object.fromEntries(
+      Object.entries(pandemic.infections).filter(([country]) => {
+        const center = getCountryCenter(country);
+        return !center || !hiddenFromPlayers(center);
+      })
+    );
+    const actors = Object.entries(countryActors).flatMap(([country, list]) =>
+      list.flatMap((actor) => {
+        const position = actor.position ?? getCountryCenter(country);
+        if (!position || hiddenFromPlayers(position)) return [];
+        return [{ id: actor.id, name: actor.name, color: actor.color, position }];
+      })
+    );
+    // Actors hidden on the map stay off the interest track too
+    const visibleActorIds = new Set(actors.map((actor) => actor.id));
+    const interestParticipants = participants.filter((participant) => participant.kind !== "actor" || visibleActorIds.has(participant.id));
+    const interestPositions = Object.fromEntries(
+      interestParticipants.flatMap((participant) =>
+        participant.id in nationalInterests ? [[participant.id, nationalInterests[participant.id]]] : []
+      )
+    );
+    return {
+      countryColors,
+      actors,
+      mapView: presenterMapView,
+      fog: fogEnabled
+        ? { areas: fogVisibility.areas, countries: fogVisibility.countries, radiusKm: fogRadius, opacity: fogOpacity }
+        : null,
+      round: showRoundIndicator ? { number: roundNumber, gameDate: game.gameDate } : null,
+      interest: showInterestOverlay
+        ? { levels: interestLevelCount, participants: interestParticipants, positions: interestPositions }
+        : null,
+      infection: pandemic.enabled && showInfectionOverlay ? { infections, round: roundNumber } : null,
+      tracks: hudTracks,
+      treaties: showTreatyLines
+        ? treatyLines.filter((treaty) => !treaty.points.some((point) => hiddenFromPlayers(point)))
+        : [],
+      units: unitStacks
+        .filter((stack) => !hiddenFromPlayers(stack.position))
+        .map((stack) => ({
+          id: stack.id,
+          color: getStackColor(stack),
+          glyph: getStackGlyph(stack),
+          strength: getStackStrength(stack),
+          count: stack.units.length,
+          position: stack.position,
+        })),
+      annotations: annotations.filter(
+        (annotation) => isAnnotationVisible(annotation, roundNumber) && isAnnotationShownTo(annotation, null, hiddenFromPlayers)
+      ),
+    };
+    // getCountryCenter reads layers that only change once the map is ready or boundaries reload
+  }, [
+    mapReady,
+    boundaries,
+    ownership,
+    players,
+    countryActors,
+    fogEnabled,
+    fogVisibility,
+    fogRadius,
+    fogOpacity,
+    presenterMapView,
+    showRoundIndicator,
+    showInterestOverlay,
+    roundNumber,
+    game.gameDate,
+    interestLevelCount,
+    participants,
+    nationalInterests,
+    hudTracks,
+    pandemic,
+    showInfectionOverlay,
+    showTreatyLines,
+    treatyLines,
+    relationships,
+    stanceFocus,
+    unitStacks,
+    annotations,
+  ]);
+  const presenterSnapshotRef = useRef<PresenterSnapshot>(presenterSnapshot);
+  presenterSnapshotRef.current = presenterSnapshot;
+  const presenterTimer = useMemo<PresenterTimer | null>(
+    () => (showTimerOverlay ? { phase: phases[phaseIndex], seconds, running } : null),
+    [showTimerOverlay, phases, phaseIndex, seconds, running]
+  );
+  const presenterTimerRef = useRef<PresenterTimer | null>(presenterTimer);
+  presenterTimerRef.current = presenterTimer;
+  // The presenter loads the bundled boundaries itself, so only loaded files are sent
+  const presenterBoundaries = boundaries && boundaries.source !== BUNDLED_BOUNDARIES_SOURCE ? boundaries : null;
+  const presenterBoundariesRef = useRef<CountryBoundaries | null>(presenterBoundaries);
+  presenterBoundariesRef.current = presenterBoundaries;
+  const presenterChannelRef = useRef<PresenterChannel | null>(null);
+
+  useEffect(() => {
+    const channel = openPresenterChannel((message) => {
+      if (message.type === "requestSnapshot") {
+        channel?.post({ type: "boundaries", boundaries: presenterBoundariesRef.current });
+        channel?.post({ type: "snapshot", snapshot: presenterSnapshotRef.current });
+        channel?.post({ type: "timer", timer: presenterTimerRef.current });
+      }
+    });
+    presenterChannelRef.current = channel;
+    return () => {
+      channel?.close();
+      presenterChannelRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    presenterChannelRef.current?.post({ type: "boundaries", boundaries: presenterBoundaries });
+  }, [presenterBoundaries]);
+
+  useEffect(() => {
+    presenterChannelRef.current?.post({ type: "snapshot", snapshot: presenterSnapshot });
+  }, [presenterSnapshot]);
+
+  useEffect(() => {
+    presenterChannelRef.current?.post({ type: "timer", timer: presenterTimer });
+  }, [presenterTimer]);
+
+  const openPresenterView = () => {
+    if (!presenterChannelRef.current) {
+      alert("This browser cannot sync a presenter window.");
+      return;
+    }
+    const presenter = window.open(getPresenterUrl(), "wargames-presenter", "popup,width=1280,height=720");
+    if (!presenter) {
+      alert("The presenter window was blocked. Allow pop-ups for this site and try again.");
+      return;
+    }
+    presenter.focus();
+  };
+
   // Force re-render of organization boxes when map view changes
   useEffect(() => {
     const map = mapRef.current;
@@ -1811,7 +3047,58 @@ export default function GameWorldMap() {
       <section className="app-map-area">
         <div ref={mapElRef} className="map-surface" />
         <canvas ref={fogCanvasRef} className="map-fog" />
-        
+
+        {stanceFocus && (
+          <div className="stance-legend">
+            <div className="font-semibold">Stance toward {stanceFocus.name}</div>
+            <div className="stance-legend-entry">
+              <span className="stance-swatch" style={{ background: SELF_STANCE_COLOR }} />
+              {stanceFocus.name}
+            </div>
+            {[...STANCES].reverse().map((stance) => (
+              <div key={stance.value} className="stance-legend-entry">
+                <span className="stance-swatch" style={{ background: stance.color }} />
+                {stance.label}
+              </div>
+            ))}
+            <button onClick={() => setStanceFocusId(null)} className="button-ghost">Show ownership</button>
+          </div>
+        )}
+
+        {boundaryError && (
+          <div className="map-boundary-error" role="alert">
+            <div className="font-semibold">Country boundaries could not be loaded</div>
+            <div className="text-xs opacity-80">{boundaryError}</div>
+            <div className="text-xs opacity-70">
+              {boundaries
+                ? `The map is still using ${boundaries.source}.`
+                : "Countries cannot be selected or assigned until boundaries are loaded."}
+            </div>
+            <div className="token-controls">
+              <button onClick={() => boundariesInputRef.current?.click()} className="button-soft">Load GeoJSON file…</button>
+              {boundaries ? (
+                <button onClick={() => setBoundaryError(null)} className="button-ghost">Dismiss</button>
+              ) : (
+                <button onClick={loadBoundaries} className="button-ghost">Retry</button>
+              )}
+            </div>
+          </div>
+        )}
+        <input
+          ref={boundariesInputRef}
+          type="file"
+          accept="application/geo+json,application/json,.geojson,.json"
+          style={{ display: "none" }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) {
+              loadBoundariesFromFile(file);
+            }
+            // Clear the input so the same file can be selected again
+            e.target.value = '';
+          }}
+        />
+
         {/* External Organization Boxes */}
         {mapReady && mapRef.current && externalOrganizations.map((org) => {
           const map = mapRef.current;
@@ -1891,7 +3178,7 @@ export default function GameWorldMap() {
                     onPointerDown={(e) => startOrgImageResize(org.id, e)}
                   >⋮</div>
                 </div>
-                {org.notes && (
+                {org.notes && !isHiddenFromViewer(org.position) && (
                   <div className="external-org-notes">{org.notes}</div>
                 )}
               </div>
@@ -1948,7 +3235,7 @@ export default function GameWorldMap() {
               >
                 ‹
               </button>
-              <span className="hud-timer-subtext">{PHASES[phaseIndex]}</span>
+              <span className="hud-timer-subtext">{phases[phaseIndex]}</span>
               <button
                 type="button"
                 className="hud-timer-phase-btn"
@@ -1999,6 +3286,61 @@ export default function GameWorldMap() {
         </OverlayPanel>
         )}
 
+        {showEventLogOverlay && (
+          <OverlayPanel
+            id="log"
+            title="Event Log"
+            layout={overlayLayouts.log}
+            minimized={overlayLayouts.log.minimized}
+            interaction={activeInteraction}
+            onFocus={focusOverlay}
+            onStartDrag={startDrag}
+            onStartResize={startResize}
+            onToggleMinimize={toggleOverlayMinimize}
+            onReset={resetOverlayLayout}
+            registerRef={setOverlayRef}
+          >
+            <EventLogTimeline events={game.eventLog} players={players} filter={eventFilter} onFilterChange={setEventFilter} />
+          </OverlayPanel>
+        )}
+
+        {hudTracks.length > 0 && (
+          <OverlayPanel
+            id="tracks"
+            title="Tracks"
+            layout={overlayLayouts.tracks}
+            minimized={overlayLayouts.tracks.minimized}
+            allowResize={false}
+            interaction={activeInteraction}
+            onFocus={focusOverlay}
+            onStartDrag={startDrag}
+            onStartResize={startResize}
+            onToggleMinimize={toggleOverlayMinimize}
+            onReset={resetOverlayLayout}
+            registerRef={setOverlayRef}
+          >
+            <TrackMeters tracks={hudTracks} onAdjust={adjustTrack} />
+          </OverlayPanel>
+        )}
+
+        {trackAlerts.length > 0 && (
+          <div className="track-alerts" role="alert">
+            {trackAlerts.map((trackAlert) => (
+              <div key={trackAlert.id} className="track-alert" style={{ borderColor: trackAlert.color }}>
+                <span>{trackAlert.message}</span>
+                <button
+                  type="button"
+                  className="overlay-action-button"
+                  onClick={() => dismissTrackAlert(trackAlert.id)}
+                  aria-label="Dismiss alert"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Player Assignment Button */}
         {!showTitle && showPlayerAssignmentButton && (
           <button
@@ -2011,6 +3353,174 @@ export default function GameWorldMap() {
           </button>
         )}
 
+        {!showTitle && (
+          <div className="country-tools">
+            <button
+              type="button"
+              className="country-tool-btn"
+              onClick={openCountrySearch}
+              title="Find a country (Ctrl+K or /)"
+            >
+              🔍 Find Country
+            </button>
+            <button
+              type="button"
+              className="country-tool-btn"
+              onClick={toggleBoxSelect}
+              aria-pressed={boxSelecting}
+              title="Drag a box to select countries; shift-click also adds or removes one"
+            >
+              ⬚ Box Select
+            </button>
+          </div>
+        )}
+
+        {!showTitle && selectedCountries.length > 0 && (
+          <div className="selection-panel" role="region" aria-label="Selected countries">
+            <div className="selection-panel-header">
+              <span className="fog-toolbar-label">{selectionLabel}</span>
+              <button type="button" className="button-ghost" onClick={() => setSelectedCountries([])}>Clear</button>
+            </div>
+            <div className="selection-panel-countries">
+              {selectedCountries.map((country) => (
+                <span key={country} className="pill">
+                  {country}
+                  <button
+                    type="button"
+                    className="pill-remove"
+                    onClick={() => removeFromSelection(country)}
+                    aria-label={`Remove ${country} from the selection`}
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+            </div>
+            <div className="token-controls">
+              <select
+                value={batchPlayerId}
+                onChange={(e) => setBatchPlayerId(e.target.value)}
+                className="bg-white/10 border border-white/10 rounded px-2 py-1 text-xs"
+                aria-label="Player to assign the selection to"
+              >
+                <option value="">Choose player…</option>
+                {players.map((player) => (
+                  <option key={player.id} value={player.id}>{player.name}</option>
+                ))}
+              </select>
+              <button type="button" className="button-soft" disabled={!batchPlayerId} onClick={() => assignSelectionTo(batchPlayerId)}>Assign</button>
+              <button type="button" className="button-ghost" onClick={clearSelectionOwners}>Clear owners</button>
+            </div>
+            <div className="token-controls">
+              <span className="label-inline">Token allowance</span>
+              <input
+                type="number"
+                min={0}
+                value={batchAllowance}
+                onChange={(e) => setBatchAllowance(Math.max(0, parseInt(e.target.value || "0", 10) || 0))}
+                className="w-16 bg-white/10 border border-white/10 rounded px-1 py-0.5"
+                aria-label="Token allowance for the selection"
+              />
+              <button type="button" className="button-soft" onClick={setSelectionAllowance}>Set</button>
+            </div>
+            {fogEnabled && (
+              <div className="token-controls">
+                <button type="button" className="button-soft" onClick={revealSelection}>Reveal for {fogTargetName}</button>
+              </div>
+            )}
+            <div className="token-controls">
+              <input
+                value={batchGroupName}
+                onChange={(e) => setBatchGroupName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") saveSelectionAsGroup();
+                }}
+                placeholder="Group name"
+                className="flex-1 bg-white/10 border border-white/10 rounded px-2 py-1 text-xs"
+                aria-label="Name for a new country group"
+              />
+              <button type="button" className="button-soft" disabled={!batchGroupName.trim()} onClick={saveSelectionAsGroup}>Save as group</button>
+            </div>
+          </div>
+        )}
+
+        {showCountrySearch && !showTitle && (
+          <div
+            className="country-search-backdrop"
+            onMouseDown={(e) => {
+              if (e.target === e.currentTarget) setShowCountrySearch(false);
+            }}
+          >
+            <div className="country-search" role="dialog" aria-label="Find a country">
+              <input
+                autoFocus
+                value={countryQuery}
+                onChange={(e) => {
+                  setCountryQuery(e.target.value);
+                  setCountryResultIndex(0);
+                }}
+                onKeyDown={onCountrySearchKey}
+                placeholder="Country name or ISO code"
+                className="country-search-input"
+                role="combobox"
+                aria-expanded={countryResults.length > 0}
+                aria-controls="country-search-results"
+                aria-activedescendant={countryResults.length ? `country-search-result-${countryResultIndex}` : undefined}
+              />
+              {countryResults.length > 0 ? (
+                <ul id="country-search-results" className="country-search-results" role="listbox">
+                  {countryResults.map((result, index) => (
+                    <li
+                      key={result.name}
+                      id={`country-search-result-${index}`}
+                      role="option"
+                      aria-selected={index === countryResultIndex}
+                      className={`country-search-result${index === countryResultIndex ? " country-search-result-active" : ""}`}
+                      onMouseEnter={() => setCountryResultIndex(index)}
+                      onMouseDown={(e) => {
+                        e.preventDefault();
+                        chooseCountry(result.name, !e.shiftKey);
+                      }}
+                    >
+                      <span className="country-search-name">
+                        {Array.from(result.name, (char, charIndex) =>
+                          result.indexes.includes(charIndex) ? <mark key={charIndex}>{char}</mark> : char
+                        )}
+                      </span>
+                      {result.code && <span className="country-search-code">{result.code}</span>}
+                      <span className="country-search-owners">
+                        {(ownership[result.name] ?? []).map((ownerId) => {
+                          const owner = players.find((player) => player.id === ownerId);
+                          return owner ? (
+                            <span key={ownerId} className="country-search-owner" style={{ background: owner.color }} title={owner.name} />
+                          ) : null;
+                        })}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                countryQuery.trim() && <div className="country-search-empty">No country matches “{countryQuery.trim()}”.</div>
+              )}
+              <div className="country-search-footer">
+                <span>↑↓ choose · Enter opens its territory · Shift+Enter selects only</span>
+                <label className="country-search-cycle">
+                  ← → step through
+                  <select
+                    value={countryCycleMode}
+                    onChange={(e) => setCountryCycleMode(e.target.value as CountryCycleMode)}
+                    className="fog-toolbar-select"
+                  >
+                    {(Object.keys(COUNTRY_CYCLE_MODE_LABELS) as CountryCycleMode[]).map((mode) => (
+                      <option key={mode} value={mode}>{COUNTRY_CYCLE_MODE_LABELS[mode]}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Player Assignment Panel */}
         {showPlayerAssignment && !showTitle && (
           <div className="player-assignment-panel">
@@ -2189,7 +3699,7 @@ export default function GameWorldMap() {
                           >
                             Assign Selected
                           </button>
-                          {Object.keys(PRESET_GROUPS).map((group) => (
+                          {Object.keys(scenario.countryGroups).map((group) => (
                             <button
                               key={group}
                               onClick={() => assignGroupToPlayer(group, p.id)}
@@ -2203,39 +3713,11 @@ export default function GameWorldMap() {
                         
                         {/* Bulk Assignment */}
                         <div className="bulk-assignment">
-                          <textarea
-                            id={`player-assignment-bulk-${p.id}`}
-                            placeholder="Countries separated by commas or new lines"
-                            className="w-full h-16 bg-white/10 border border-white/10 rounded px-2 py-1 text-xs mb-1"
+                          <CountryListAssign
+                            countries={countrySearchEntries}
+                            labelPlaceholder="Optional: rename player"
+                            onAssign={(countries, label) => assignCountriesToPlayer(countries, p.id, label)}
                           />
-                          <div className="flex gap-2">
-                            <input
-                              id={`player-assignment-label-${p.id}`}
-                              type="text"
-                              placeholder="Optional: rename player"
-                              className="flex-1 bg-white/10 border border-white/10 rounded px-2 py-1 text-xs"
-                            />
-                            <button
-                              onClick={() => {
-                                const textarea = document.getElementById(`player-assignment-bulk-${p.id}`) as HTMLTextAreaElement;
-                                const labelInput = document.getElementById(`player-assignment-label-${p.id}`) as HTMLInputElement;
-                                if (!textarea) return;
-                                
-                                const countries = textarea.value.split(/[,\n]/).map(s => s.trim()).filter(Boolean);
-                                if (countries.length) {
-                                  assignCountriesToPlayer(countries, p.id);
-                                  if (labelInput.value.trim()) {
-                                    renamePlayer(p.id, labelInput.value.trim());
-                                  }
-                                  textarea.value = "";
-                                  labelInput.value = "";
-                                }
-                              }}
-                              className="button-soft text-xs"
-                            >
-                              Assign List
-                            </button>
-                          </div>
                         </div>
                       </div>
                     ))
@@ -2257,6 +3739,111 @@ export default function GameWorldMap() {
           </button>
         )}
 
+        {!showTitle && fogEnabled && (
+          <div className="fog-toolbar" role="toolbar" aria-label="Fog of war tools">
+            <span className="fog-toolbar-label">Fog</span>
+            <select
+              className="fog-toolbar-select"
+              value={viewAsPlayerId ?? ""}
+              onChange={(e) => setViewAsPlayerId(e.target.value || null)}
+              aria-label="View map as"
+            >
+              <option value="">Adjudicator</option>
+              {players.map((player) => (
+                <option key={player.id} value={player.id}>{player.name}</option>
+              ))}
+            </select>
+            {([["reveal", "Reveal"], ["refog", "Re-fog"]] as const).map(([tool, label]) => (
+              <button
+                key={tool}
+                type="button"
+                className="fog-toolbar-btn"
+                aria-pressed={fogTool === tool}
+                onClick={() => {
+                  setFogTool((prev) => (prev === tool ? null : tool));
+                  cancelDrawing();
+                  setBoxSelecting(false);
+                }}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {!showTitle && showDrawToolbar && (
+          <div className="draw-toolbar" role="toolbar" aria-label="Drawing tools">
+            <div className="draw-toolbar-row">
+              <span className="fog-toolbar-label">Draw</span>
+              {ANNOTATION_KINDS.map((kind) => (
+                <button
+                  key={kind}
+                  type="button"
+                  className="fog-toolbar-btn"
+                  aria-pressed={drawTool === kind}
+                  onClick={() => chooseDrawTool(kind)}
+                >
+                  {ANNOTATION_KIND_LABELS[kind]}
+                </button>
+              ))}
+              <input
+                type="color"
+                value={drawColor}
+                onChange={(e) => setDrawColor(e.target.value)}
+                className="draw-toolbar-color"
+                aria-label="Colour"
+              />
+              <select
+                className="fog-toolbar-select"
+                value={drawOwnerId}
+                onChange={(e) => {
+                  setDrawOwnerId(e.target.value);
+                  setDrawPublic(!e.target.value);
+                }}
+                aria-label="Owner"
+              >
+                <option value="">Adjudicator</option>
+                {participants.map((participant) => (
+                  <option key={participant.id} value={participant.id}>{participant.name}</option>
+                ))}
+              </select>
+              <label className="draw-toolbar-check">
+                <input type="checkbox" checked={drawThisRoundOnly} onChange={(e) => setDrawThisRoundOnly(e.target.checked)} />
+                Round {roundNumber} only
+              </label>
+              <label className="draw-toolbar-check" title="Shown on the presenter view and to every player">
+                <input type="checkbox" checked={drawPublic} onChange={(e) => setDrawPublic(e.target.checked)} />
+                Public
+              </label>
+            </div>
+            {drawTool && (
+              <div className="draw-toolbar-row">
+                {drawTool === "text" && (
+                  <input
+                    type="text"
+                    value={drawText}
+                    onChange={(e) => setDrawText(e.target.value)}
+                    placeholder="Label text"
+                    className="draw-toolbar-text"
+                  />
+                )}
+                <span className="draw-toolbar-hint">{ANNOTATION_HINTS[drawTool]}</span>
+                {ANNOTATION_POINTS[drawTool].max === null && (
+                  <button
+                    type="button"
+                    className="fog-toolbar-btn"
+                    onClick={() => finishDrawing()}
+                    disabled={!canFinishAnnotation(drawTool, drawDraft)}
+                  >
+                    Finish
+                  </button>
+                )}
+                <button type="button" className="fog-toolbar-btn" onClick={cancelDrawing}>Done</button>
+              </div>
+            )}
+          </div>
+        )}
+
         {!showTitle && showRoundIndicator && (
           <div className="hud-round">
             <button
@@ -2289,7 +3876,7 @@ export default function GameWorldMap() {
                   className="h-11 rounded-2xl bg-white/10 hover:bg-white/20 border border-white/10 shadow"
                 >Start</button>
                 <button
-                  onClick={startNewGame}
+                  onClick={() => startNewGame()}
                   className="h-11 rounded-2xl bg-white/10 hover:bg-white/20 border border-white/10"
                 >New Game</button>
                 <button
@@ -2298,6 +3885,82 @@ export default function GameWorldMap() {
                 >Settings</button>
               </div>
 
+              <div className="scenario-picker text-xs">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold">Scenario</span>
+                  <span className="opacity-70">Playing: {scenario.title}</span>
+                </div>
+                <select
+                  value={chosenScenario.id}
+                  onChange={(e) => setScenarioChoiceId(e.target.value)}
+                  className="w-full bg-white/10 border border-white/10 rounded px-2 py-1 text-xs"
+                >
+                  {availableScenarios.map((pack) => (
+                    <option key={pack.id} value={pack.id}>{pack.title}</option>
+                  ))}
+                </select>
+                {chosenScenario.description && <p className="opacity-80">{chosenScenario.description}</p>}
+                <div className="token-controls">
+                  <span className="pill">Starts {formatGameDate(new Date(chosenScenario.startDate))}</span>
+                  <span className="pill">{chosenScenario.phases.length} phases</span>
+                  <span className="pill">{chosenScenario.players.length} starting players</span>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={() => startNewGame(chosenScenario)}
+                    className="h-10 rounded-xl bg-white/10 hover:bg-white/20 border border-white/10"
+                  >Load Scenario</button>
+                  <button
+                    onClick={() => scenarioInputRef.current?.click()}
+                    className="h-10 rounded-xl bg-white/10 hover:bg-white/20 border border-white/10"
+                  >Open Pack File…</button>
+                </div>
+                <input
+                  ref={scenarioInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  style={{ display: "none" }}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) {
+                      loadScenarioFromFile(file);
+                    }
+                    // Clear the input so the same file can be selected again
+                    e.target.value = '';
+                  }}
+                />
+                {scenarioErrors.length > 0 && (
+                  <div className="save-game-errors" role="alert">
+                    <div className="font-semibold">Could not load scenario pack</div>
+                    <ul className="list-disc list-inside">
+                      {scenarioErrors.slice(0, 8).map((error) => (
+                        <li key={error}>{error}</li>
+                      ))}
+                    </ul>
+                    {scenarioErrors.length > 8 && <div>…and {scenarioErrors.length - 8} more problems.</div>}
+                  </div>
+                )}
+              </div>
+
+              {autosaves.length > 0 && (
+                <div className="autosave-list text-xs">
+                  <div className="font-semibold">Resume last session</div>
+                  {autosaves.map((entry) => (
+                    <button
+                      key={entry.id}
+                      type="button"
+                      className="autosave-entry"
+                      onClick={() => resumeAutosave(entry.id)}
+                    >
+                      <span className="autosave-entry-round">Round {entry.roundNumber}</span>
+                      <span>{formatGameDate(new Date(entry.gameDate))}</span>
+                      <span className="opacity-70">Saved {new Date(entry.savedAt).toLocaleString()}</span>
+                    </button>
+                  ))}
+                  {autosaveError && <div className="save-game-errors" role="alert">{autosaveError}</div>}
+                </div>
+              )}
+
               <div className="grid-columns-two text-xs">
                 <div className="rounded-xl border border-white/10 p-3" style={{ background: "rgba(0,0,0,0.2)", borderRadius: "16px" }}>
                   <div className="font-semibold mb-1">Controls</div>
@@ -2305,6 +3968,7 @@ export default function GameWorldMap() {
                     <li>Click a country to select.</li>
                     <li>Assign players via Pause Menu → Settings.</li>
                     <li>Esc opens Pause Menu.</li>
+                    <li>Ctrl+Z undoes, Ctrl+Shift+Z redoes.</li>
                     <li>Enter closes this screen.</li>
                   </ul>
                 </div>
@@ -2329,10 +3993,43 @@ export default function GameWorldMap() {
               <div className="text-lg font-bold">Paused</div>
               <div className="grid gap-2">
                 <button onClick={() => setShowPauseMenu(false)} className="h-10 rounded-xl bg-white/10 hover:bg-white/20 border border-white/10">Resume</button>
-                <button onClick={startNewGame} className="h-10 rounded-xl bg-white/10 hover:bg-white/20 border border-white/10">Start New Game</button>
+                <button onClick={() => startNewGame()} className="h-10 rounded-xl bg-white/10 hover:bg-white/20 border border-white/10">Start New Game</button>
+                <button onClick={saveGameToFile} className="h-10 rounded-xl bg-white/10 hover:bg-white/20 border border-white/10">Save Game</button>
+                <button onClick={() => loadGameInputRef.current?.click()} className="h-10 rounded-xl bg-white/10 hover:bg-white/20 border border-white/10">Load Game</button>
+                <div className="text-xs opacity-70 mt-1">Export After-Action Report</div>
+                <div className="grid grid-cols-2 gap-2">
+                  <button onClick={exportReportMarkdown} className="h-10 rounded-xl bg-white/10 hover:bg-white/20 border border-white/10">Markdown</button>
+                  <button onClick={exportReportHtml} className="h-10 rounded-xl bg-white/10 hover:bg-white/20 border border-white/10">Printable HTML</button>
+                </div>
+                <button onClick={openPresenterView} className="h-10 rounded-xl bg-white/10 hover:bg-white/20 border border-white/10">Open Presenter View</button>
                 <button onClick={() => setShowSettings(true)} className="h-10 rounded-xl bg-white/10 hover:bg-white/20 border border-white/10">Settings</button>
                 <button onClick={() => setShowTitle(true)} className="h-10 rounded-xl bg-white/10 hover:bg-white/20 border border-white/10">Back to Title</button>
               </div>
+              <input
+                ref={loadGameInputRef}
+                type="file"
+                accept="application/json,.json"
+                style={{ display: "none" }}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) {
+                    loadGameFromFile(file);
+                  }
+                  // Clear the input so the same file can be selected again
+                  e.target.value = '';
+                }}
+              />
+              {saveGameErrors.length > 0 && (
+                <div className="save-game-errors" role="alert">
+                  <div className="font-semibold">Could not load saved game</div>
+                  <ul className="list-disc list-inside">
+                    {saveGameErrors.slice(0, 8).map((error) => (
+                      <li key={error}>{error}</li>
+                    ))}
+                  </ul>
+                  {saveGameErrors.length > 8 && <div>…and {saveGameErrors.length - 8} more problems.</div>}
+                </div>
+              )}
               <div className="text-xs opacity-70">Tip: You can open this menu anytime with <span className="font-semibold">Esc</span>.</div>
             </div>
           </div>
@@ -2359,6 +4056,36 @@ export default function GameWorldMap() {
               
               {/* Adjudicator Control Content */}
               <div className="space-y-6">
+                {/* History */}
+                <section className="border border-white/10 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-lg font-semibold">History</h3>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={undo}
+                        disabled={!history.past.length}
+                        className="button-soft"
+                        title={history.past.length ? `Undo ${history.past[history.past.length - 1].label} (Ctrl+Z)` : "Nothing to undo"}
+                      >Undo</button>
+                      <button
+                        onClick={redo}
+                        disabled={!history.future.length}
+                        className="button-ghost"
+                        title={history.future.length ? `Redo ${history.future[history.future.length - 1].label} (Ctrl+Shift+Z)` : "Nothing to redo"}
+                      >Redo</button>
+                    </div>
+                  </div>
+                  {history.past.length > 0 ? (
+                    <ol className="history-list text-xs">
+                      {[...history.past].reverse().slice(0, 8).map((entry, index) => (
+                        <li key={`${entry.at}-${index}`} className={index === 0 ? "history-entry-latest" : ""}>{entry.label}</li>
+                      ))}
+                    </ol>
+                  ) : (
+                    <div className="text-xs opacity-70">No changes yet.</div>
+                  )}
+                </section>
+
                 {/* Phase tracker */}
                 <section className="border border-white/10 rounded-lg p-4">
                   <div className="flex items-center justify-between mb-3">
@@ -2366,11 +4093,497 @@ export default function GameWorldMap() {
                   </div>
                   <div className="flex items-center gap-2 mb-3">
                     <span className="text-sm opacity-80">Current Phase:</span>
-                    <span className="font-medium">{PHASES[phaseIndex]}</span>
+                    <span className="font-medium">{phases[phaseIndex]}</span>
+                  </div>
+                  <div className="flex gap-2">
+                    <button onClick={prevPhase} className="button-soft">Previous</button>
+                    <button onClick={nextPhase} className="button-soft">Next</button>
+                  </div>
+                </section>
+
+                {/* Adjudication */}
+                <section className="border border-white/10 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-lg font-semibold">Adjudication</h3>
+                    <span className="pill">{pendingActions.length} pending</span>
+                  </div>
+                  <div className="space-y-3 text-xs">
+                    <p className="opacity-70">
+                      {adjudicationStage === "resolve"
+                        ? "Resolve each queued action with a roll or a ruling. Its effects are applied when you confirm."
+                        : adjudicationStage === "submit"
+                          ? "Record actions as players submit them. They are resolved in the Adjudication Phase."
+                          : "Actions recorded now wait in the queue for the Adjudication Phase."}
+                    </p>
+                    <div className="action-queue-form">
+                      <div className="token-controls">
+                        <select
+                          value={actionDraft.participantId}
+                          onChange={(e) => setActionDraft({ ...actionDraft, participantId: e.target.value, tokens: 0 })}
+                          className="px-2 py-1 rounded bg-white/10 border border-white/10"
+                        >
+                          <option value="">Who is acting?</option>
+                          {participants.map((participant) => (
+                            <option key={participant.id} value={participant.id}>{participant.name}</option>
+                          ))}
+                        </select>
+                        <select
+                          value={actionDraft.targetCountry}
+                          onChange={(e) => setActionDraft({ ...actionDraft, targetCountry: e.target.value })}
+                          className="px-2 py-1 rounded bg-white/10 border border-white/10"
+                        >
+                          <option value="">No target country</option>
+                          {countryNames.map((name) => (
+                            <option key={name} value={name}>{name}</option>
+                          ))}
+                        </select>
+                        <label className="label-inline">
+                          Tokens
+                          <input
+                            type="number"
+                            min={0}
+                            max={getAvailableTokens(actionDraft.participantId)}
+                            value={actionDraft.tokens}
+                            disabled={!getParticipantPool(game, actionDraft.participantId)}
+                            onChange={(e) => setActionDraft({ ...actionDraft, tokens: Math.max(0, parseInt(e.target.value || "0", 10) || 0) })}
+                            className="w-16 bg-white/10 border border-white/10 rounded px-1 py-0.5"
+                          />
+                        </label>
+                        {actionDraft.participantId && getParticipantPool(game, actionDraft.participantId) && (
+                          <span className="opacity-70">of {getAvailableTokens(actionDraft.participantId)}</span>
+                        )}
+                      </div>
+                      <div className="token-controls">
+                        <input
+                          type="text"
+                          value={actionDraft.description}
+                          onChange={(e) => setActionDraft({ ...actionDraft, description: e.target.value })}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") queueAction();
+                          }}
+                          placeholder="What are they trying to do?"
+                          className="flex-1 bg-white/10 border border-white/10 rounded px-2 py-1"
+                        />
+                        <button
+                          onClick={queueAction}
+                          disabled={!actionDraft.participantId || !actionDraft.description.trim()}
+                          className="button-primary"
+                        >Add to queue</button>
+                      </div>
+                    </div>
+
+                    {pendingActions.length > 0 ? (
+                      <ul className="action-queue">
+                        {pendingActions.map((queued) => {
+                          const participant = participants.find((item) => item.id === queued.participantId);
+                          const editing = ruling?.actionId === queued.id ? ruling : null;
+                          return (
+                            <li key={queued.id} className="action-queue-entry">
+                              <div className="flex items-center justify-between gap-2">
+                                <span className="flex items-center gap-2 font-semibold">
+                                  <span className="w-3 h-3 rounded-full" style={{ background: participant?.color ?? NEUTRAL_COLOR }} />
+                                  {participant?.name ?? queued.participantId}
+                                </span>
+                                <span className="opacity-70">
+                                  Round {queued.round}
+                                  {queued.targetCountry && ` · ${queued.targetCountry}`}
+                                  {queued.tokensCommitted > 0 && ` · ${queued.tokensCommitted} token${queued.tokensCommitted === 1 ? "" : "s"}`}
+                                </span>
+                              </div>
+                              <div>{queued.description}</div>
+                              {!editing ? (
+                                <div className="token-controls">
+                                  <button onClick={() => startRuling(queued.id)} className="button-soft">Resolve</button>
+                                  <button
+                                    onClick={() => withdrawAction(queued.id)}
+                                    className="button-ghost"
+                                    title={queued.tokensCommitted ? "Withdraw and return the committed tokens" : "Withdraw"}
+                                  >Withdraw</button>
+                                </div>
+                              ) : (
+                                <div className="action-ruling">
+                                  <div className="token-controls">
+                                    <input
+                                      type="text"
+                                      value={editing.expression}
+                                      onChange={(e) => setRuling({ ...editing, expression: e.target.value })}
+                                      placeholder={DEFAULT_ACTION_ROLL}
+                                      className="flex-1 bg-white/10 border border-white/10 rounded px-2 py-1"
+                                    />
+                                    <button onClick={rollForRuling} className="button-soft">{editing.roll ? "Roll again" : "Roll"}</button>
+                                    {editing.roll && (
+                                      <button onClick={() => setRuling({ ...editing, roll: null })} className="button-ghost">Rule without roll</button>
+                                    )}
+                                  </div>
+                                  {editing.error && <div className="dice-error" role="alert">{editing.error}</div>}
+                                  {editing.roll && (
+                                    <div className="dice-history-result">
+                                      <span className="text-lg font-bold">{editing.roll.total}</span>
+                                      <span className="opacity-70">{describeDiceRoll(editing.roll)} · seed {editing.roll.seed}</span>
+                                    </div>
+                                  )}
+                                  <textarea
+                                    value={editing.outcome}
+                                    onChange={(e) => setRuling({ ...editing, outcome: e.target.value })}
+                                    placeholder="Outcome, as it will be read out and logged"
+                                    className="w-full h-16 bg-white/10 border border-white/10 rounded px-2 py-1 text-xs"
+                                  />
+                                  {editing.effects.length > 0 && (
+                                    <div className="token-controls">
+                                      {editing.effects.map((effect, index) => (
+                                        <span key={index} className="pill">
+                                          {describeAdjudicationEffect(game, effect)}
+                                          <button
+                                            onClick={() => removeRulingEffect(index)}
+                                            className="pill-remove"
+                                            aria-label="Remove effect"
+                                          >×</button>
+                                        </span>
+                                      ))}
+                                    </div>
+                                  )}
+                                  <div className="token-controls">
+                                    <select
+                                      value={effectDraft.kind}
+                                      onChange={(e) => setEffectDraft({ ...effectDraft, kind: e.target.value as AdjudicationEffectKind })}
+                                      className="px-2 py-1 rounded bg-white/10 border border-white/10"
+                                    >
+                                      {(Object.keys(ADJUDICATION_EFFECT_LABELS) as AdjudicationEffectKind[]).map((kind) => (
+                                        <option key={kind} value={kind}>{ADJUDICATION_EFFECT_LABELS[kind]}</option>
+                                      ))}
+                                    </select>
+                                    {(effectDraft.kind === "assignCountry" || effectDraft.kind === "removeOwner") && (
+                                      <>
+                                        <select
+                                          value={effectDraft.country}
+                                          onChange={(e) => setEffectDraft({ ...effectDraft, country: e.target.value })}
+                                          className="px-2 py-1 rounded bg-white/10 border border-white/10"
+                                        >
+                                          <option value="">Country…</option>
+                                          {countryNames.map((name) => (
+                                            <option key={name} value={name}>{name}</option>
+                                          ))}
+                                        </select>
+                                        <select
+                                          value={effectDraft.playerId}
+                                          onChange={(e) => setEffectDraft({ ...effectDraft, playerId: e.target.value })}
+                                          className="px-2 py-1 rounded bg-white/10 border border-white/10"
+                                        >
+                                          <option value="">Player…</option>
+                                          {players.map((player) => (
+                                            <option key={player.id} value={player.id}>{player.name}</option>
+                                          ))}
+                                        </select>
+                                      </>
+                                    )}
+                                    {effectDraft.kind === "assignCountry" && (
+                                      <label className="flex items-center gap-2 cursor-pointer">
+                                        <input
+                                          type="checkbox"
+                                          checked={effectDraft.replaceOwners}
+                                          onChange={(e) => setEffectDraft({ ...effectDraft, replaceOwners: e.target.checked })}
+                                          className="w-4 h-4"
+                                        />
+                                        Replace owners
+                                      </label>
+                                    )}
+                                    {effectDraft.kind === "tokens" && (
+                                      <select
+                                        value={effectDraft.pool}
+                                        onChange={(e) => setEffectDraft({ ...effectDraft, pool: e.target.value })}
+                                        className="px-2 py-1 rounded bg-white/10 border border-white/10"
+                                      >
+                                        <option value="">Token pool…</option>
+                                        {participants
+                                          .filter((item) => item.kind !== "organization")
+                                          .map((item) => (
+                                            <option key={item.id} value={`${item.kind}:${item.id}`}>{item.name}</option>
+                                          ))}
+                                        {queued.targetCountry && (
+                                          <option value={`country:${queued.targetCountry}`}>{queued.targetCountry} (country)</option>
+                                        )}
+                                      </select>
+                                    )}
+                                    {effectDraft.kind === "interest" && (
+                                      <select
+                                        value={effectDraft.participantId}
+                                        onChange={(e) => setEffectDraft({ ...effectDraft, participantId: e.target.value })}
+                                        className="px-2 py-1 rounded bg-white/10 border border-white/10"
+                                      >
+                                        <option value="">Participant…</option>
+                                        {participants.map((item) => (
+                                          <option key={item.id} value={item.id}>{item.name}</option>
+                                        ))}
+                                      </select>
+                                    )}
+                                    {effectDraft.kind === "track" && (
+                                      <select
+                                        value={effectDraft.trackId}
+                                        onChange={(e) => setEffectDraft({ ...effectDraft, trackId: e.target.value })}
+                                        className="px-2 py-1 rounded bg-white/10 border border-white/10"
+                                      >
+                                        <option value="">Track…</option>
+                                        {tracks.map((track) => (
+                                          <option key={track.id} value={track.id}>{track.name}</option>
+                                        ))}
+                                      </select>
+                                    )}
+                                    {(effectDraft.kind === "tokens" || effectDraft.kind === "interest" || effectDraft.kind === "track") && (
+                                      <input
+                                        type="number"
+                                        value={effectDraft.delta}
+                                        onChange={(e) => setEffectDraft({ ...effectDraft, delta: parseInt(e.target.value || "0", 10) || 0 })}
+                                        className="w-16 bg-white/10 border border-white/10 rounded px-1 py-0.5"
+                                        aria-label="Change"
+                                      />
+                                    )}
+                                    <button onClick={addRulingEffect} disabled={!draftEffect} className="button-ghost">Add effect</button>
+                                  </div>
+                                  <div className="token-controls">
+                                    <button onClick={applyRuling} className="button-primary">
+                                      {editing.effects.length ? `Apply ruling and ${editing.effects.length} effect${editing.effects.length === 1 ? "" : "s"}` : "Apply ruling"}
+                                    </button>
+                                    <button onClick={() => setRuling(null)} className="button-ghost">Cancel</button>
+                                  </div>
+                                </div>
+                              )}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    ) : (
+                      <div className="opacity-70">No actions waiting.</div>
+                    )}
+
+                    {resolvedThisRound.length > 0 && (
+                      <div className="space-y-2">
+                        <div className="font-semibold">Resolved this round</div>
+                        <ul className="action-queue">
+                          {resolvedThisRound.map((queued) => {
+                            const resolution = queued.resolution!;
+                            return (
+                              <li key={queued.id} className="action-queue-entry action-queue-entry-resolved">
+                                <div className="flex items-center justify-between gap-2">
+                                  <span className="font-semibold">{participantName(queued.participantId)}</span>
+                                  <span className="opacity-70">
+                                    {resolution.roll
+                                      ? `${resolution.roll.expression}: ${resolution.roll.total}${
+                                          resolution.roll.success === null ? "" : resolution.roll.success ? " · success" : " · failure"
+                                        }`
+                                      : "Ruling"}
+                                  </span>
+                                </div>
+                                <div>{queued.description}</div>
+                                {resolution.outcome && <div className="opacity-70">{resolution.outcome}</div>}
+                                {resolution.effects.length > 0 && (
+                                  <div className="token-controls">
+                                    {resolution.effects.map((effect, index) => (
+                                      <span key={index} className="pill">{describeAdjudicationEffect(game, effect)}</span>
+                                    ))}
+                                  </div>
+                                )}
+                              </li>
+                            );
+                          })}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                </section>
+
+                {/* Agreements */}
+                <section className="border border-white/10 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-lg font-semibold">Agreements</h3>
+                    <span className="pill">{activeAgreements.length} in force</span>
+                  </div>
+                  <div className="space-y-3 text-xs">
+                    {negotiationPhase && <p className="opacity-70">Record agreements as the parties strike them.</p>}
+                    <div className="action-queue-form">
+                      <input
+                        type="text"
+                        value={agreementTitle}
+                        onChange={(e) => setAgreementTitle(e.target.value)}
+                        placeholder="Name, e.g. Baltic Ceasefire"
+                        className="w-full bg-white/10 border border-white/10 rounded px-2 py-1"
+                      />
+                      <div className="token-controls">
+                        <span className="label-inline">Parties</span>
+                        {participants.map((participant) => (
+                          <button
+                            key={participant.id}
+                            onClick={() => toggleAgreementParty(participant.id)}
+                            className={agreementParties.includes(participant.id) ? "button-soft" : "button-ghost"}
+                            aria-pressed={agreementParties.includes(participant.id)}
+                          >{participant.name}</button>
+                        ))}
+                        {!participants.length && <span className="opacity-70">Add players, actors or organizations first.</span>}
+                      </div>
+                      <textarea
+                        value={agreementTerms}
+                        onChange={(e) => setAgreementTerms(e.target.value)}
+                        placeholder="Terms"
+                        className="w-full h-16 bg-white/10 border border-white/10 rounded px-2 py-1 text-xs"
+                      />
+                      <div className="token-controls">
+                        <label className="label-inline">
+                          Runs for
+                          <input
+                            type="number"
+                            min={1}
+                            value={agreementDuration ?? ""}
+                            disabled={agreementDuration === null}
+                            onChange={(e) => setAgreementDuration(Math.max(1, parseInt(e.target.value || "1", 10) || 1))}
+                            className="w-16 bg-white/10 border border-white/10 rounded px-1 py-0.5"
+                          />
+                          rounds
+                        </label>
+                        <label className="flex items-center gap-2 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={agreementDuration === null}
+                            onChange={(e) => setAgreementDuration(e.target.checked ? null : 3)}
+                            className="w-4 h-4"
+                          />
+                          Open-ended
+                        </label>
+                      </div>
+                      <div className="token-controls">
+                        <button
+                          onClick={() => addAgreement(false)}
+                          disabled={!agreementTitle.trim() || agreementParties.length < 2}
+                          className="button-soft"
+                        >Propose</button>
+                        <button
+                          onClick={() => addAgreement(true)}
+                          disabled={!agreementTitle.trim() || agreementParties.length < 2}
+                          className="button-primary"
+                        >Record as signed</button>
+                      </div>
+                    </div>
+
+                    {listedAgreements.length > 0 ? (
+                      <ul className="action-queue">
+                        {listedAgreements.map((agreement) => (
+                          <li
+                            key={agreement.id}
+                            className={["action-queue-entry", agreement.status === "signed" || agreement.status === "proposed" ? "" : "action-queue-entry-resolved"]
+                              .filter(Boolean)
+                              .join(" ")}
+                          >
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="font-semibold">{agreement.title}</span>
+                              <span className={`agreement-status agreement-status-${agreement.status}`}>
+                                {AGREEMENT_STATUS_LABELS[agreement.status]}
+                                {agreement.endedRound !== null && ` in round ${agreement.endedRound}`}
+                              </span>
+                            </div>
+                            <div className="opacity-70">
+                              {agreement.parties.map((id) => participants.find((item) => item.id === id)?.name ?? id).join(", ")}
+                              {" · "}
+                              {describeAgreementTerm(agreement)}
+                              {agreement.signedRound !== null && ` · signed round ${agreement.signedRound}`}
+                            </div>
+                            {agreement.terms && <div className="agreement-terms">{agreement.terms}</div>}
+                            <div className="token-controls">
+                              {agreement.status === "proposed" && (
+                                <button onClick={() => setAgreementStatus(agreement.id, "signed")} className="button-soft">Sign</button>
+                              )}
+                              {agreement.status === "signed" && (
+                                <button onClick={() => setAgreementStatus(agreement.id, "broken")} className="button-ghost">Broken</button>
+                              )}
+                              {agreement.status !== "proposed" && agreement.status !== "signed" && (
+                                <button onClick={() => setAgreementStatus(agreement.id, "signed")} className="button-ghost">Reinstate</button>
+                              )}
+                              <button onClick={() => removeAgreement(agreement.id)} className="button-ghost">Delete</button>
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <div className="opacity-70">No agreements yet.</div>
+                    )}
+                    <div className="token-controls">
+                      <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={showTreatyLines}
+                          onChange={(e) => setShowTreatyLines(e.target.checked)}
+                          className="w-4 h-4"
+                        />
+                        Draw signed agreements on the map
+                      </label>
+                      {endedAgreements.length > 0 && (
+                        <button onClick={() => setShowEndedAgreements((prev) => !prev)} className="button-ghost">
+                          {showEndedAgreements ? "Hide" : "Show"} {endedAgreements.length} ended
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </section>
+
+                {/* Relations */}
+                <section className="border border-white/10 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-lg font-semibold">Relations</h3>
+                    <span className="pill">{Object.keys(relationships).length} set</span>
                   </div>
-                  <div className="flex gap-2">
-                    <button onClick={prevPhase} className="button-soft">Previous</button>
-                    <button onClick={nextPhase} className="button-soft">Next</button>
+                  <div className="space-y-3 text-xs">
+                    {participants.length > 1 ? (
+                      <div className="relations-matrix">
+                        <table>
+                          <thead>
+                            <tr>
+                              <th />
+                              {participants.map((participant) => (
+                                <th key={participant.id} style={{ color: participant.color }}>{participant.name}</th>
+                              ))}
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {participants.map((row) => (
+                              <tr key={row.id}>
+                                <th style={{ color: row.color }}>{row.name}</th>
+                                {participants.map((column) => {
+                                  if (row.id === column.id) return <td key={column.id} className="opacity-70">—</td>;
+                                  const stance = getStanceInfo(getStance(relationships, row.id, column.id));
+                                  return (
+                                    <td key={column.id}>
+                                      <select
+                                        value={stance.value}
+                                        onChange={(e) => setRelationship(row.id, column.id, Number(e.target.value))}
+                                        className="px-1 rounded bg-white/10 border border-white/10"
+                                        style={{ color: stance.color }}
+                                        aria-label={`${row.name} and ${column.name}`}
+                                      >
+                                        {STANCES.map((option) => (
+                                          <option key={option.value} value={option.value}>{option.label}</option>
+                                        ))}
+                                      </select>
+                                    </td>
+                                  );
+                                })}
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    ) : (
+                      <div className="opacity-70">Add at least two players, actors or organizations to set relations.</div>
+                    )}
+                    <label className="flex items-center gap-2">
+                      <span className="label-inline">Colour map by stance toward</span>
+                      <select
+                        value={stanceFocus?.id ?? ""}
+                        onChange={(e) => setStanceFocusId(e.target.value || null)}
+                        className="px-2 py-1 rounded bg-white/10 border border-white/10"
+                      >
+                        <option value="">Nobody (show ownership)</option>
+                        {participants.map((participant) => (
+                          <option key={participant.id} value={participant.id}>{participant.name}</option>
+                        ))}
+                      </select>
+                    </label>
                   </div>
                 </section>
 
@@ -2392,7 +4605,7 @@ export default function GameWorldMap() {
                           />
                         </div>
                         {(() => {
-                          const pool = playerTokens[p.id] ?? { allowance: DEFAULT_PLAYER_TOKENS, available: DEFAULT_PLAYER_TOKENS };
+                          const pool = playerTokens[p.id] ?? { allowance: scenario.tokens.player, available: scenario.tokens.player };
                           return (
                             <div className="token-controls text-xs">
                               <span className="pill">Tokens {pool.available}/{pool.allowance}</span>
@@ -2408,11 +4621,9 @@ export default function GameWorldMap() {
                               >Refund</button>
                               <label className="label-inline">
                                 Allowance
-                                <input
-                                  type="number"
-                                  min={0}
+                                <AllowanceInput
                                   value={pool.allowance}
-                                  onChange={(e) => setPlayerAllowance(p.id, parseInt(e.target.value || "0", 10))}
+                                  onCommit={(allowance) => setPlayerAllowance(p.id, allowance)}
                                   className="w-16 bg-white/10 border border-white/10 rounded px-1 py-0.5"
                                 />
                               </label>
@@ -2425,7 +4636,7 @@ export default function GameWorldMap() {
                             disabled={!selectedCountry}
                             className="button-soft text-xs"
                           >Assign selected</button>
-                          {Object.keys(PRESET_GROUPS).map((g) => (
+                          {Object.keys(scenario.countryGroups).map((g) => (
                             <button
                               key={g}
                               onClick={() => assignGroupToPlayer(g, p.id)}
@@ -2434,41 +4645,118 @@ export default function GameWorldMap() {
                           ))}
                         </div>
                         <div className="mt-2">
-                          <textarea
-                            id={`bulk-${p.id}`}
-                            placeholder="Countries separated by commas or new lines"
-                            className="w-full h-16 bg-white/10 border border-white/10 rounded px-2 py-1 text-xs"
+                          <CountryListAssign
+                            countries={countrySearchEntries}
+                            labelPlaceholder="Optional label (renames player)"
+                            onAssign={(countries, label) => assignCountriesToPlayer(countries, p.id, label)}
                           />
-                          <div className="token-controls mt-1">
-                            <input
-                              id={`label-${p.id}`}
-                              type="text"
-                              placeholder="Optional label (renames player)"
-                              className="flex-1 bg-white/10 border border-white/10 rounded px-2 py-1 text-xs"
-                            />
-                            <button
-                              onClick={() => {
-                                const textarea = document.getElementById(`bulk-${p.id}`) as HTMLTextAreaElement;
-                                const labelInput = document.getElementById(`label-${p.id}`) as HTMLInputElement;
-                                const countries = textarea.value.split(/[,\n]/).map(s => s.trim()).filter(Boolean);
-                                if (countries.length) {
-                                  assignCountriesToPlayer(countries, p.id);
-                                  if (labelInput.value.trim()) {
-                                    renamePlayer(p.id, labelInput.value.trim());
-                                  }
-                                  textarea.value = "";
-                                  labelInput.value = "";
-                                }
-                              }}
-                              className="button-soft text-xs"
-                            >Assign list</button>
-                          </div>
                         </div>
                       </div>
                     ))}
                   </div>
                 </section>
 
+                {/* Token Ledger */}
+                <section className="border border-white/10 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-lg font-semibold">Token Ledger</h3>
+                    <span className="pill">{tokenLedger.length} entries</span>
+                  </div>
+                  <div className="space-y-3 text-xs">
+                    <div className="action-queue-form">
+                      <div className="token-controls">
+                        <span className="label-inline">Transfer</span>
+                        <select
+                          value={transferFrom}
+                          onChange={(e) => setTransferFrom(e.target.value)}
+                          className="px-2 py-1 rounded bg-white/10 border border-white/10"
+                        >
+                          <option value="">From…</option>
+                          {tokenPools.map((entry) => (
+                            <option key={getPoolKey(entry)} value={getPoolKey(entry)}>
+                              {entry.name} ({TOKEN_POOL_KIND_LABELS[entry.pool].toLowerCase()})
+                            </option>
+                          ))}
+                        </select>
+                        <select
+                          value={transferTo}
+                          onChange={(e) => setTransferTo(e.target.value)}
+                          className="px-2 py-1 rounded bg-white/10 border border-white/10"
+                        >
+                          <option value="">To…</option>
+                          {tokenPools.map((entry) => (
+                            <option key={getPoolKey(entry)} value={getPoolKey(entry)} disabled={getPoolKey(entry) === transferFrom}>
+                              {entry.name} ({TOKEN_POOL_KIND_LABELS[entry.pool].toLowerCase()})
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          min={1}
+                          value={transferAmount}
+                          onChange={(e) => setTransferAmount(Math.max(1, parseInt(e.target.value || "1", 10)))}
+                          className="w-16 bg-white/10 border border-white/10 rounded px-1 py-0.5"
+                          aria-label="Tokens to transfer"
+                        />
+                      </div>
+                      <input
+                        type="text"
+                        value={transferReason}
+                        onChange={(e) => setTransferReason(e.target.value)}
+                        placeholder="Reason, e.g. funding the militia"
+                        className="w-full bg-white/10 border border-white/10 rounded px-2 py-1"
+                      />
+                      <div className="token-controls">
+                        <button onClick={transferTokens} disabled={!transferLimit} className="button-primary">Transfer</button>
+                        {transferSource && transferTarget && (
+                          <span className="opacity-70">
+                            {transferLimit
+                              ? `Up to ${transferLimit} can move; the recipient cannot go over its allowance.`
+                              : "Nothing can move: the source is empty or the recipient is full."}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <label className="flex items-center gap-2">
+                      <span className="label-inline">History for</span>
+                      <select
+                        value={ledgerPool ? getPoolKey(ledgerPool) : ""}
+                        onChange={(e) => setLedgerPoolKey(e.target.value)}
+                        className="px-2 py-1 rounded bg-white/10 border border-white/10"
+                      >
+                        {tokenPools.map((entry) => (
+                          <option key={getPoolKey(entry)} value={getPoolKey(entry)}>
+                            {entry.name} ({TOKEN_POOL_KIND_LABELS[entry.pool].toLowerCase()})
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    {ledgerEntries.length ? (
+                      <ul className="token-ledger">
+                        {ledgerEntries.map((entry) => (
+                          <li key={entry.id} className="token-ledger-entry">
+                            <span className={entry.delta < 0 ? "token-ledger-debit" : "token-ledger-credit"}>
+                              {entry.delta > 0 ? `+${entry.delta}` : entry.delta}
+                            </span>
+                            <div className="flex-1">
+                              <div>
+                                {TOKEN_LEDGER_KIND_LABELS[entry.kind]}
+                                {entry.counterparty && ` ${entry.delta < 0 ? "to" : "from"} ${getPoolName(entry.counterparty)}`}
+                                {" · "}{entry.reason}
+                              </div>
+                              <div className="opacity-70">
+                                Round {entry.round}{entry.phase && ` · ${entry.phase}`} · {entry.available}/{entry.allowance} after
+                              </div>
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <div className="opacity-70">{ledgerPool ? "No changes to this pool yet." : "No token pools yet."}</div>
+                    )}
+                  </div>
+                </section>
+
                 {/* Scenario Tools */}
                 <section className="border border-white/10 rounded-lg p-4">
                   <h3 className="text-lg font-semibold mb-3">Scenario Tools</h3>
@@ -2528,7 +4816,7 @@ export default function GameWorldMap() {
                       <button
                         onClick={() => {
                           if (manualOutbreakChoice) {
-                            setInitialOutbreak(manualOutbreakChoice);
+                            setOutbreakManually(manualOutbreakChoice);
                             setManualOutbreakChoice("");
                           }
                         }}
@@ -2536,21 +4824,545 @@ export default function GameWorldMap() {
                         className="button-ghost"
                       >Set</button>
                     </div>
-                    <div className="token-controls">
-                      <span className="label-inline">Vaccine progress</span>
-                      <span className="pill">{vaccineProgress}/{VACCINE_TRACK_MAX}</span>
-                      <button onClick={() => adjustVaccineProgress(1)} className="button-soft" disabled={vaccineProgress >= VACCINE_TRACK_MAX}>+1</button>
-                      <button onClick={() => adjustVaccineProgress(-1)} className="button-ghost" disabled={vaccineProgress <= 0}>-1</button>
+                    {scenario.tracks.vaccineMax > 0 && (
+                      <div className="token-controls">
+                        <span className="label-inline">Vaccine progress</span>
+                        <span className="pill">{vaccineProgress}/{scenario.tracks.vaccineMax}</span>
+                        <button onClick={() => adjustVaccineProgress(1)} className="button-soft" disabled={vaccineProgress >= scenario.tracks.vaccineMax}>+1</button>
+                        <button onClick={() => adjustVaccineProgress(-1)} className="button-ghost" disabled={vaccineProgress <= 0}>-1</button>
+                      </div>
+                    )}
+                    <div className="space-y-2">
+                      <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={pandemic.enabled}
+                          onChange={(e) => setPandemicEnabled(e.target.checked)}
+                          className="w-4 h-4"
+                        />
+                        <span className="text-sm">Spread model</span>
+                      </label>
+                      {pandemic.enabled && (
+                        <>
+                          <div className="token-controls">
+                            <label className="label-inline">
+                              Transmission rate
+                              <input
+                                type="number"
+                                min={0}
+                                max={100}
+                                step={5}
+                                value={Math.round(pandemic.transmissionRate * 100)}
+                                onChange={(e) => setTransmissionRate(parseInt(e.target.value || "0", 10))}
+                                className="w-16 bg-white/10 border border-white/10 rounded px-1 py-0.5"
+                              />
+                              %
+                            </label>
+                            <span className="pill">{infectedCount} infected</span>
+                            {containedCount > 0 && <span className="pill">{containedCount} contained</span>}
+                          </div>
+                          <div className="token-controls">
+                            <label className="flex items-center gap-2 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={showInfectionOverlay}
+                                onChange={(e) => setShowInfectionOverlay(e.target.checked)}
+                                className="w-4 h-4"
+                              />
+                              Show infection overlay
+                            </label>
+                            <button onClick={resetPandemic} className="button-ghost">Reset spread</button>
+                          </div>
+                          <div className="opacity-70">
+                            Each new round, infected countries can pass the infection to their neighbours, by land border or sea link.
+                            {scenario.tracks.vaccineMax > 0 && ` Vaccine progress currently cuts the rate to ${Math.round(vaccineFactor * 100)}%.`}
+                            {" "}Select a country to change its status or give it its own rate.
+                          </div>
+                          {!initialOutbreak && infectedCount === 0 && (
+                            <div className="opacity-70">Roll or set the initial outbreak to seed the spread.</div>
+                          )}
+                        </>
+                      )}
                     </div>
                     <button onClick={resetAllOverlayLayouts} className="button-ghost">Reset HUD layout</button>
                   </div>
                 </section>
 
+                {/* Tracks */}
+                <section className="border border-white/10 rounded-lg p-4">
+                  <h3 className="text-lg font-semibold mb-3">Tracks</h3>
+                  <div className="space-y-3 text-xs">
+                    {tracks.length === 0 && (
+                      <div className="opacity-70">No tracks yet. Add one for escalation, tension or any other counter the scenario needs.</div>
+                    )}
+                    {tracks.map((track) => {
+                      const draft = thresholdDrafts[track.id] ?? { value: "", label: "" };
+                      return (
+                        <div key={track.id} className="track-editor">
+                          <div className="token-controls">
+                            <input
+                              type="color"
+                              value={track.color}
+                              onChange={(e) => updateTrack(track.id, { color: e.target.value }, `track-color:${track.id}`)}
+                              aria-label={`${track.name} colour`}
+                            />
+                            <input
+                              type="text"
+                              value={track.name}
+                              onChange={(e) => updateTrack(track.id, { name: e.target.value }, `track-name:${track.id}`)}
+                              className="bg-white/10 border border-white/10 rounded px-2 py-1 text-xs"
+                              aria-label="Track name"
+                            />
+                            <span className="pill">{track.value}/{track.max}</span>
+                            <button onClick={() => adjustTrack(track.id, 1)} className="button-soft" disabled={track.value >= track.max}>+1</button>
+                            <button onClick={() => adjustTrack(track.id, -1)} className="button-ghost" disabled={track.value <= track.min}>-1</button>
+                          </div>
+                          <div className="token-controls">
+                            <label className="label-inline">
+                              Min
+                              <input
+                                type="number"
+                                value={track.min}
+                                max={track.max - 1}
+                                onChange={(e) => {
+                                  const min = parseInt(e.target.value, 10);
+                                  if (Number.isFinite(min) && min < track.max) updateTrack(track.id, { min }, `track-range:${track.id}`);
+                                }}
+                                className="w-16 bg-white/10 border border-white/10 rounded px-1 py-0.5"
+                              />
+                            </label>
+                            <label className="label-inline">
+                              Max
+                              <input
+                                type="number"
+                                value={track.max}
+                                min={track.min + 1}
+                                onChange={(e) => {
+                                  const max = parseInt(e.target.value, 10);
+                                  if (Number.isFinite(max) && max > track.min) updateTrack(track.id, { max }, `track-range:${track.id}`);
+                                }}
+                                className="w-16 bg-white/10 border border-white/10 rounded px-1 py-0.5"
+                              />
+                            </label>
+                            <label className="flex items-center gap-2 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={track.showOnHud}
+                                onChange={(e) => updateTrack(track.id, { showOnHud: e.target.checked })}
+                                className="w-4 h-4"
+                              />
+                              Show on HUD
+                            </label>
+                          </div>
+                          <div className="space-y-2">
+                            <div className="label-inline">Thresholds</div>
+                            {track.thresholds.length > 0 && (
+                              <div className="flex flex-wrap gap-2">
+                                {track.thresholds.map((threshold) => (
+                                  <span key={`${threshold.value}-${threshold.label}`} className="pill">
+                                    {threshold.value}: {threshold.label}
+                                    <button
+                                      type="button"
+                                      className="pill-remove"
+                                      onClick={() => removeThreshold(track, threshold)}
+                                      aria-label={`Remove threshold ${threshold.label}`}
+                                    >
+                                      ×
+                                    </button>
+                                  </span>
+                                ))}
+                              </div>
+                            )}
+                            <div className="token-controls">
+                              <input
+                                type="number"
+                                min={track.min}
+                                max={track.max}
+                                value={draft.value}
+                                onChange={(e) => setThresholdDrafts((prev) => ({ ...prev, [track.id]: { ...draft, value: e.target.value } }))}
+                                placeholder="Value"
+                                className="w-16 bg-white/10 border border-white/10 rounded px-1 py-0.5"
+                                aria-label={`${track.name} threshold value`}
+                              />
+                              <input
+                                type="text"
+                                value={draft.label}
+                                onChange={(e) => setThresholdDrafts((prev) => ({ ...prev, [track.id]: { ...draft, label: e.target.value } }))}
+                                onKeyDown={(e) => {
+                                  if (e.key === "Enter") addThreshold(track);
+                                }}
+                                placeholder="Label, e.g. Crisis"
+                                className="bg-white/10 border border-white/10 rounded px-2 py-1 text-xs"
+                                aria-label={`${track.name} threshold label`}
+                              />
+                              <button onClick={() => addThreshold(track)} className="button-ghost" disabled={!draft.value || !draft.label.trim()}>
+                                Add threshold
+                              </button>
+                            </div>
+                          </div>
+                          <div className="token-controls">
+                            <button
+                              onClick={() => setOpenTrackHistory((prev) => (prev === track.id ? null : track.id))}
+                              className="button-ghost"
+                              aria-expanded={openTrackHistory === track.id}
+                            >
+                              {openTrackHistory === track.id ? "Hide history" : "Show history"}
+                            </button>
+                            <button onClick={() => removeTrack(track.id)} className="button-ghost">Remove track</button>
+                          </div>
+                          {openTrackHistory === track.id && <TrackHistoryChart track={track} lastRound={roundNumber} />}
+                        </div>
+                      );
+                    })}
+                    <div className="space-y-2">
+                      <div className="label-inline">New track</div>
+                      <div className="token-controls">
+                        <input
+                          type="color"
+                          value={newTrackColor}
+                          onChange={(e) => setNewTrackColor(e.target.value)}
+                          aria-label="New track colour"
+                        />
+                        <input
+                          type="text"
+                          list="track-name-suggestions"
+                          value={newTrackName}
+                          onChange={(e) => setNewTrackName(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") addTrack();
+                          }}
+                          placeholder="Name, e.g. Escalation level"
+                          className="bg-white/10 border border-white/10 rounded px-2 py-1 text-xs"
+                        />
+                        <datalist id="track-name-suggestions">
+                          {TRACK_NAME_SUGGESTIONS.map((name) => (
+                            <option key={name} value={name} />
+                          ))}
+                        </datalist>
+                      </div>
+                      <div className="token-controls">
+                        <label className="label-inline">
+                          Min
+                          <input
+                            type="number"
+                            value={newTrackMin}
+                            onChange={(e) => setNewTrackMin(parseInt(e.target.value || "0", 10))}
+                            className="w-16 bg-white/10 border border-white/10 rounded px-1 py-0.5"
+                          />
+                        </label>
+                        <label className="label-inline">
+                          Max
+                          <input
+                            type="number"
+                            value={newTrackMax}
+                            onChange={(e) => setNewTrackMax(parseInt(e.target.value || "0", 10))}
+                            className="w-16 bg-white/10 border border-white/10 rounded px-1 py-0.5"
+                          />
+                        </label>
+                        <button onClick={addTrack} className="button-soft" disabled={!newTrackName.trim()}>Add track</button>
+                      </div>
+                    </div>
+                  </div>
+                </section>
+
+                {/* Fog of War */}
+                <section className="border border-white/10 rounded-lg p-4">
+                  <h3 className="text-lg font-semibold mb-3">Fog of War</h3>
+                  <div className="space-y-3 text-xs">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={fogEnabled}
+                        onChange={(e) => setFogEnabled(e.target.checked)}
+                        className="w-4 h-4"
+                      />
+                      <span className="text-sm">Show fog of war</span>
+                    </label>
+                    <label className="token-controls">
+                      <span className="label-inline">Reveal radius</span>
+                      <input
+                        type="range"
+                        min={50}
+                        max={3000}
+                        step={50}
+                        value={fogRadius}
+                        onChange={(e) => setFogRadius(Number(e.target.value))}
+                      />
+                      <span className="pill">{fogRadius} km</span>
+                    </label>
+                    <label className="token-controls">
+                      <span className="label-inline">Opacity</span>
+                      <input
+                        type="range"
+                        min={0.1}
+                        max={1}
+                        step={0.05}
+                        value={fogOpacity}
+                        onChange={(e) => setFogOpacity(Number(e.target.value))}
+                      />
+                      <span className="pill">{Math.round(fogOpacity * 100)}%</span>
+                    </label>
+                    <label className="token-controls">
+                      <span className="label-inline">View as</span>
+                      <select
+                        value={viewAsPlayerId ?? ""}
+                        onChange={(e) => setViewAsPlayerId(e.target.value || null)}
+                        className="px-2 py-1 rounded bg-white/10 border border-white/10"
+                      >
+                        <option value="">Adjudicator (all players)</option>
+                        {players.map((player) => (
+                          <option key={player.id} value={player.id}>{player.name}</option>
+                        ))}
+                      </select>
+                    </label>
+                    {(() => {
+                      const areaCount = fogTargetIds.reduce((sum, id) => sum + (discoveredAreas[id]?.length ?? 0), 0);
+                      const countryCount = fogTargetIds.reduce((sum, id) => sum + (revealedCountries[id]?.length ?? 0), 0);
+                      return (
+                        <div className="token-controls">
+                          <span className="label-inline">Revealed for {fogTargetName}</span>
+                          <span className="pill">{areaCount} areas</span>
+                          <span className="pill">{countryCount} countries</span>
+                          <button onClick={resetFog} className="button-ghost" disabled={!areaCount && !countryCount}>Reset fog</button>
+                        </div>
+                      );
+                    })()}
+                    <p className="opacity-70">
+                      Each player sees their own territory plus what they have discovered. Use the Fog toolbar on the map to
+                      reveal or re-fog by clicking, or reveal a whole country from its territory panel; edits apply to the
+                      player being viewed, or to every player from the adjudicator's view.
+                    </p>
+                  </div>
+                </section>
+
+                {/* Base Map */}
+                <section className="border border-white/10 rounded-lg p-4">
+                  <h3 className="text-lg font-semibold mb-3">Base Map</h3>
+                  <div className="space-y-3 text-xs">
+                    <label className="token-controls">
+                      <span className="label-inline">Mode</span>
+                      <select
+                        value={basemap.mode}
+                        onChange={(e) => setBasemapMode(e.target.value as BasemapMode)}
+                        className="px-2 py-1 rounded bg-white/10 border border-white/10"
+                      >
+                        <option value="tiles">Tile server</option>
+                        <option value="offline">Offline vector map</option>
+                      </select>
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={basemap.showLabels}
+                        disabled={basemap.mode !== "offline"}
+                        onChange={(e) => setBasemap((prev) => ({ ...prev, showLabels: e.target.checked }))}
+                        className="w-4 h-4"
+                      />
+                      <span>Show country labels on the offline map</span>
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      <span className="label-inline">Tile URL template</span>
+                      <input
+                        type="text"
+                        value={tileUrlDraft}
+                        onChange={(e) => setTileUrlDraft(e.target.value)}
+                        placeholder="http://localhost:8080/{z}/{x}/{y}.png"
+                        className="w-full bg-white/10 border border-white/10 rounded px-2 py-1 text-xs"
+                      />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      <span className="label-inline">Attribution</span>
+                      <input
+                        type="text"
+                        value={tileAttributionDraft}
+                        onChange={(e) => setTileAttributionDraft(e.target.value)}
+                        className="w-full bg-white/10 border border-white/10 rounded px-2 py-1 text-xs"
+                      />
+                    </label>
+                    <div className="token-controls">
+                      <button onClick={() => applyTileServer(tileUrlDraft, tileAttributionDraft)} className="button-soft">Use tile server</button>
+                      <button
+                        onClick={() => applyTileServer(DEFAULT_BASEMAP_SETTINGS.tileUrl, DEFAULT_BASEMAP_SETTINGS.tileAttribution)}
+                        className="button-ghost"
+                      >Reset to OpenStreetMap</button>
+                    </div>
+                    <p className="opacity-70">
+                      The offline map is drawn from data bundled with the app and needs no network. Point the tile URL at a
+                      local tile server to keep street-level detail without internet access. This choice is remembered in
+                      this browser and shared with the presenter window.
+                    </p>
+                  </div>
+                </section>
+
+                {/* Country Boundaries */}
+                <section className="border border-white/10 rounded-lg p-4">
+                  <h3 className="text-lg font-semibold mb-3">Country Boundaries</h3>
+                  <div className="space-y-3 text-xs">
+                    <div className="token-controls">
+                      <span className="label-inline">Source</span>
+                      <span className="pill">{boundaries ? boundaries.source : "Not loaded"}</span>
+                      {boundaries && <span className="pill">{boundaries.geojson.features.length} countries</span>}
+                    </div>
+                    <div className="token-controls">
+                      <button onClick={() => boundariesInputRef.current?.click()} className="button-soft">Load GeoJSON file…</button>
+                      <button
+                        onClick={loadBoundaries}
+                        className="button-ghost"
+                        disabled={boundaries?.source === BUNDLED_BOUNDARIES_SOURCE}
+                      >Use bundled boundaries</button>
+                    </div>
+                    <div className="space-y-2">
+                      <div className="label-inline">Sea links</div>
+                      {seaLinks.length > 0 ? (
+                        <div className="flex flex-wrap gap-2">
+                          {seaLinks.map((link) => (
+                            <span key={link.join("|")} className="pill">
+                              {link[0]} – {link[1]}
+                              <button
+                                type="button"
+                                className="pill-remove"
+                                onClick={() => removeSeaLink(link)}
+                                aria-label={`Remove sea link ${link[0]} – ${link[1]}`}
+                              >
+                                ×
+                              </button>
+                            </span>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="opacity-70">None. Select a country to link it to another across the sea.</div>
+                      )}
+                    </div>
+                    {unmatchedCountries.length > 0 && (
+                      <div className="boundary-unmatched">
+                        Assigned but missing from these boundaries, by name and code: {unmatchedCountries.join(", ")}
+                      </div>
+                    )}
+                    <p className="opacity-70">
+                      Load any GeoJSON FeatureCollection of country polygons with a name property. Countries are matched
+                      to the game by name, or by ISO alpha-3 code when the file provides one, so a country named differently
+                      keeps its owners, tokens and infections; lists can use the codes too. Land borders
+                      are worked out from shared polygon edges.
+                    </p>
+                  </div>
+                </section>
+
                 {/* Territory Management */}
                 {selectedCountry && (
-                  <section className="border border-white/10 rounded-lg p-4">
+                  <section ref={territorySectionRef} className="border border-white/10 rounded-lg p-4">
                     <h3 className="text-lg font-semibold mb-3">Territory: {selectedCountry}</h3>
                     <div className="space-y-3">
+                      {fogEnabled && (
+                        <div className="token-controls">
+                          <span className="label-inline">Fog of war</span>
+                          {fogTargetIds.some((id) => !revealedCountries[id]?.includes(selectedCountry)) && (
+                            <button onClick={() => revealCountry(selectedCountry)} className="button-soft">Reveal for {fogTargetName}</button>
+                          )}
+                          {fogTargetIds.some((id) => revealedCountries[id]?.includes(selectedCountry)) && (
+                            <button onClick={() => refogCountry(selectedCountry)} className="button-ghost">Re-fog for {fogTargetName}</button>
+                          )}
+                        </div>
+                      )}
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <div className="text-sm font-semibold">Neighbours</div>
+                          <label className="flex items-center gap-2 cursor-pointer text-xs">
+                            <input
+                              type="checkbox"
+                              checked={highlightNeighbours}
+                              onChange={(e) => setHighlightNeighbours(e.target.checked)}
+                              className="w-4 h-4"
+                            />
+                            Highlight on map
+                          </label>
+                        </div>
+                        {selectedNeighbours.size > 0 ? (
+                          <div className="flex flex-wrap gap-2 text-xs">
+                            {Array.from(selectedNeighbours).map((neighbour) => (
+                              <span key={neighbour} className="pill">
+                                <button type="button" className="pill-link" onClick={() => setSelectedCountry(neighbour)}>
+                                  {neighbour}
+                                </button>
+                                {isSeaLink(selectedCountry, neighbour) && (
+                                  <>
+                                    <span className="opacity-70">by sea</span>
+                                    <button
+                                      type="button"
+                                      className="pill-remove"
+                                      onClick={() => removeSeaLink(normalizeSeaLink(selectedCountry, neighbour))}
+                                      aria-label={`Remove sea link to ${neighbour}`}
+                                    >
+                                      ×
+                                    </button>
+                                  </>
+                                )}
+                              </span>
+                            ))}
+                          </div>
+                        ) : (
+                          <div className="text-xs opacity-70">No land borders or sea links.</div>
+                        )}
+                        <div className="token-controls text-xs">
+                          <label className="label-inline" htmlFor="sea-link-select">Sea link to</label>
+                          <select
+                            id="sea-link-select"
+                            value={seaLinkTarget}
+                            onChange={(e) => setSeaLinkTarget(e.target.value)}
+                            className="px-2 py-1 rounded bg-white/10 border border-white/10"
+                          >
+                            <option value="">Select country…</option>
+                            {countryNames
+                              .filter((name) => name !== selectedCountry && !selectedNeighbours.has(name))
+                              .map((name) => (
+                                <option key={name} value={name}>{name}</option>
+                              ))}
+                          </select>
+                          <button
+                            onClick={() => {
+                              addSeaLink(selectedCountry, seaLinkTarget);
+                              setSeaLinkTarget("");
+                            }}
+                            disabled={!seaLinkTarget}
+                            className="button-ghost"
+                          >Add</button>
+                        </div>
+                      </div>
+                      {pandemic.enabled && (
+                        <div className="token-controls">
+                          <label className="label-inline" htmlFor="infection-status-select">Infection</label>
+                          <select
+                            id="infection-status-select"
+                            value={getInfectionStatus(pandemic, selectedCountry)}
+                            onChange={(e) => setInfectionStatus(selectedCountry, e.target.value === "healthy" ? null : (e.target.value as InfectionStatus))}
+                            className="px-2 py-1 rounded bg-white/10 border border-white/10"
+                          >
+                            {(Object.keys(INFECTION_STATUS_LABELS) as (InfectionStatus | "healthy")[]).map((status) => (
+                              <option key={status} value={status}>{INFECTION_STATUS_LABELS[status]}</option>
+                            ))}
+                          </select>
+                          {pandemic.infections[selectedCountry] && <span>since round {pandemic.infections[selectedCountry].since}</span>}
+                          <label className="label-inline">
+                            Rate
+                            <input
+                              type="number"
+                              min={0}
+                              max={100}
+                              step={5}
+                              value={pandemic.countryRates[selectedCountry] === undefined ? "" : Math.round(pandemic.countryRates[selectedCountry] * 100)}
+                              placeholder={String(Math.round(pandemic.transmissionRate * 100))}
+                              onChange={(e) =>
+                                setCountryTransmissionRate(selectedCountry, e.target.value === "" ? null : parseInt(e.target.value, 10))
+                              }
+                              className="w-16 bg-white/10 border border-white/10 rounded px-1 py-0.5"
+                              title="Chance per round of catching it from each infected neighbour. Leave empty for the game-wide rate."
+                            />
+                            %
+                          </label>
+                          <span className="opacity-70">
+                            effective {Math.round(getEffectiveRate(pandemic, selectedCountry, vaccineFactor) * 100)}%
+                          </span>
+                        </div>
+                      )}
                       <div>
                         <div className="text-sm font-semibold mb-2">Owners</div>
                         {selectedOwnerDetails.length > 0 ? (
@@ -2578,7 +5390,7 @@ export default function GameWorldMap() {
                         <span className="label-inline">Country tokens</span>
                         <span className="pill">
                           {(() => {
-                            const pool = countryTokens[selectedCountry] ?? { allowance: DEFAULT_COUNTRY_TOKENS, available: DEFAULT_COUNTRY_TOKENS };
+                            const pool = countryTokens[selectedCountry] ?? { allowance: scenario.tokens.country, available: scenario.tokens.country };
                             return `${pool.available}/${pool.allowance}`;
                           })()}
                         </span>
@@ -2586,7 +5398,7 @@ export default function GameWorldMap() {
                           onClick={() => adjustCountryTokens(selectedCountry, -1)}
                           className="button-ghost"
                           disabled={(() => {
-                            const pool = countryTokens[selectedCountry] ?? { allowance: DEFAULT_COUNTRY_TOKENS, available: DEFAULT_COUNTRY_TOKENS };
+                            const pool = countryTokens[selectedCountry] ?? { allowance: scenario.tokens.country, available: scenario.tokens.country };
                             return pool.available <= 0;
                           })()}
                         >Spend</button>
@@ -2594,20 +5406,15 @@ export default function GameWorldMap() {
                           onClick={() => adjustCountryTokens(selectedCountry, 1)}
                           className="button-ghost"
                           disabled={(() => {
-                            const pool = countryTokens[selectedCountry] ?? { allowance: DEFAULT_COUNTRY_TOKENS, available: DEFAULT_COUNTRY_TOKENS };
+                            const pool = countryTokens[selectedCountry] ?? { allowance: scenario.tokens.country, available: scenario.tokens.country };
                             return pool.available >= pool.allowance;
                           })()}
                         >Refund</button>
                         <label className="label-inline">
                           Allowance
-                          <input
-                            type="number"
-                            min={0}
-                            value={(() => {
-                              const pool = countryTokens[selectedCountry] ?? { allowance: DEFAULT_COUNTRY_TOKENS, available: DEFAULT_COUNTRY_TOKENS };
-                              return pool.allowance;
-                            })()}
-                            onChange={(e) => setCountryAllowance(selectedCountry, parseInt(e.target.value || "0", 10))}
+                          <AllowanceInput
+                            value={countryTokens[selectedCountry]?.allowance ?? scenario.tokens.country}
+                            onCommit={(allowance) => setCountryAllowance(selectedCountry, allowance)}
                             className="w-16 bg-white/10 border border-white/10 rounded px-1 py-0.5"
                           />
                         </label>
@@ -2649,7 +5456,7 @@ export default function GameWorldMap() {
                             className="w-full h-12 bg-white/10 border border-white/10 rounded px-2 py-1 text-xs"
                           />
                           {(() => {
-                            const pool = actorTokens[actor.id] ?? { allowance: DEFAULT_ACTOR_TOKENS, available: DEFAULT_ACTOR_TOKENS };
+                            const pool = actorTokens[actor.id] ?? { allowance: scenario.tokens.actor, available: scenario.tokens.actor };
                             return (
                               <div className="token-controls token-controls-small">
                                 <span className="pill">{pool.available}/{pool.allowance}</span>
@@ -2665,11 +5472,9 @@ export default function GameWorldMap() {
                                 >Refund</button>
                                 <label className="label-inline">
                                   Allowance
-                                  <input
-                                    type="number"
-                                    min={0}
+                                  <AllowanceInput
                                     value={pool.allowance}
-                                    onChange={(e) => setActorAllowance(actor.id, parseInt(e.target.value || "0", 10))}
+                                    onCommit={(allowance) => setActorAllowance(actor.id, allowance)}
                                     className="w-14 bg-white/10 border border-white/10 rounded px-1 py-0.5"
                                   />
                                 </label>
@@ -2709,6 +5514,37 @@ export default function GameWorldMap() {
                   </section>
                 )}
 
+                <UnitsPanel
+                  units={units}
+                  unitStacks={unitStacks}
+                  selectedStack={selectedStack}
+                  selectedUnitId={selectedUnitId}
+                  onSelectUnit={setSelectedUnitId}
+                  owners={unitOwners}
+                  getOwnerName={getUnitOwnerName}
+                  getUnitColor={getUnitColor}
+                  selectedCountry={selectedCountry}
+                  getPlacePosition={getUnitPlacePosition}
+                  recordHistory={recordHistory}
+                  dispatch={dispatch}
+                />
+
+                <AnnotationsPanel
+                  annotations={annotations}
+                  visibleCount={visibleAnnotations.length}
+                  roundNumber={roundNumber}
+                  participants={participants}
+                  showDrawToolbar={showDrawToolbar}
+                  onShowDrawToolbar={(show) => {
+                    setShowDrawToolbar(show);
+                    if (!show) cancelDrawing();
+                  }}
+                  showAllAnnotations={showAllAnnotations}
+                  onShowAllAnnotations={setShowAllAnnotations}
+                  recordHistory={recordHistory}
+                  dispatch={dispatch}
+                />
+
                 {/* External Organizations */}
                 <section className="border border-white/10 rounded-lg p-4">
                   <div className="flex items-center justify-between mb-3">
@@ -2721,12 +5557,12 @@ export default function GameWorldMap() {
                           <input
                             type="color"
                             value={org.color}
-                            onChange={(e) => updateExternalOrganization(org.id, { color: e.target.value })}
+                            onChange={(e) => editExternalOrganization(org.id, { color: e.target.value })}
                             className="w-6 h-6 rounded border border-white/10"
                           />
                           <input
                             value={org.name}
-                            onChange={(e) => updateExternalOrganization(org.id, { name: e.target.value })}
+                            onChange={(e) => editExternalOrganization(org.id, { name: e.target.value })}
                             className="flex-1 bg-white/10 border border-white/10 rounded px-2 py-1 text-sm"
                           />
                           <button
@@ -2760,7 +5596,7 @@ export default function GameWorldMap() {
                             </label>
                             {org.picture && (
                               <button
-                                onClick={() => updateExternalOrganization(org.id, { picture: undefined, pictureFile: undefined })}
+                                onClick={() => editExternalOrganization(org.id, { picture: undefined, pictureFile: undefined })}
                                 className="button-ghost text-xs"
                                 title="Remove current image"
                               >
@@ -2770,7 +5606,7 @@ export default function GameWorldMap() {
                           </div>
                           <input
                             value={org.picture?.startsWith('data:') ? '' : (org.picture || "")}
-                            onChange={(e) => updateExternalOrganization(org.id, { picture: e.target.value || undefined })}
+                            onChange={(e) => editExternalOrganization(org.id, { picture: e.target.value || undefined })}
                             placeholder="Or paste image URL..."
                             className="w-full bg-white/10 border border-white/10 rounded px-2 py-1 text-xs"
                             disabled={org.picture?.startsWith('data:')}
@@ -2783,7 +5619,7 @@ export default function GameWorldMap() {
                         </div>
                         <textarea
                           value={org.notes}
-                          onChange={(e) => updateExternalOrganization(org.id, { notes: e.target.value })}
+                          onChange={(e) => editExternalOrganization(org.id, { notes: e.target.value })}
                           placeholder="Notes..."
                           className="w-full h-12 bg-white/10 border border-white/10 rounded px-2 py-1 text-xs"
                         />
@@ -2793,7 +5629,7 @@ export default function GameWorldMap() {
                             <input
                               type="number"
                               value={org.width}
-                              onChange={(e) => updateExternalOrganization(org.id, { width: Math.max(120, parseInt(e.target.value || "200", 10)) })}
+                              onChange={(e) => editExternalOrganization(org.id, { width: Math.max(120, parseInt(e.target.value || "200", 10)) })}
                               className="w-16 bg-white/10 border border-white/10 rounded px-1 py-0.5"
                               min="120"
                             />
@@ -2801,7 +5637,7 @@ export default function GameWorldMap() {
                             <input
                               type="number"
                               value={org.height}
-                              onChange={(e) => updateExternalOrganization(org.id, { height: Math.max(80, parseInt(e.target.value || "150", 10)) })}
+                              onChange={(e) => editExternalOrganization(org.id, { height: Math.max(80, parseInt(e.target.value || "150", 10)) })}
                               className="w-16 bg-white/10 border border-white/10 rounded px-1 py-0.5"
                               min="80"
                             />
@@ -2898,25 +5734,104 @@ export default function GameWorldMap() {
                 {/* Dice */}
                 <section className="border border-white/10 rounded-lg p-4">
                   <h3 className="text-lg font-semibold mb-3">Dice</h3>
-                  <div className="space-y-3">
+                  <div className="space-y-3 text-xs">
+                    <div className="token-controls">
+                      <label className="label-inline" htmlFor="dice-expression-settings">Roll</label>
+                      <input
+                        id="dice-expression-settings"
+                        type="text"
+                        value={diceExpression}
+                        onChange={(e) => setDiceExpression(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") rollDice();
+                        }}
+                        placeholder="2d6+3, 4d10kh2, d20+5 >= 15"
+                        className="flex-1 bg-white/10 border border-white/10 rounded px-2 py-1"
+                      />
+                      <button onClick={rollDice} className="button-primary">Roll</button>
+                    </div>
+                    <div className="token-controls">
+                      {DIE_OPTIONS.map((sides) => (
+                        <button key={sides} onClick={() => setDiceExpression(`1d${sides}`)} className="button-ghost">
+                          d{sides}
+                        </button>
+                      ))}
+                    </div>
+                    {diceError && <div className="dice-error" role="alert">{diceError}</div>}
                     <div className="token-controls">
-                      <label className="label-inline" htmlFor="die-select-settings">Sides</label>
+                      <label className="label-inline" htmlFor="dice-mode-settings">Mode</label>
                       <select
-                        id="die-select-settings"
-                        value={dieSides}
-                        onChange={(e) => setDieSides(parseInt(e.target.value, 10))}
+                        id="dice-mode-settings"
+                        value={diceMode}
+                        onChange={(e) => setDiceMode(e.target.value as DiceMode)}
                         className="px-2 py-1 rounded bg-white/10 border border-white/10"
                       >
-                        {DIE_OPTIONS.map((sides) => (
-                          <option key={sides} value={sides}>
-                            d{sides}
-                          </option>
+                        {(Object.keys(DICE_MODE_LABELS) as DiceMode[]).map((mode) => (
+                          <option key={mode} value={mode}>{DICE_MODE_LABELS[mode]}</option>
+                        ))}
+                      </select>
+                      <label className="label-inline" htmlFor="dice-roller-settings">Roll for</label>
+                      <select
+                        id="dice-roller-settings"
+                        value={diceRollerId}
+                        onChange={(e) => setDiceRollerId(e.target.value)}
+                        className="px-2 py-1 rounded bg-white/10 border border-white/10"
+                      >
+                        <option value="">Adjudicator</option>
+                        {participants.map((participant) => (
+                          <option key={participant.id} value={participant.id}>{participant.name}</option>
                         ))}
                       </select>
-                      <button onClick={rollDie} className="button-primary">Roll</button>
                     </div>
-                    {lastRoll !== null && (
-                      <div className="text-lg font-bold">Result: {lastRoll} (d{dieSides})</div>
+                    <div className="token-controls">
+                      <label className="label-inline" htmlFor="dice-seed-settings">Session seed</label>
+                      <input
+                        id="dice-seed-settings"
+                        type="text"
+                        inputMode="numeric"
+                        value={diceSeedInput}
+                        onChange={(e) => setDiceSeedInput(e.target.value)}
+                        placeholder="Random"
+                        className="w-32 bg-white/10 border border-white/10 rounded px-1 py-0.5"
+                      />
+                      <button onClick={restartDiceSequence} disabled={sessionSeed === null} className="button-ghost">
+                        Restart sequence
+                      </button>
+                    </div>
+                    {diceSeedInput.trim() !== "" && sessionSeed === null && (
+                      <div className="dice-error" role="alert">The seed must be a whole number from 0 to 4294967295.</div>
+                    )}
+                    <p className="opacity-70">
+                      With a session seed the same rolls come up in the same order, including the outbreak roll.
+                      Each roll below keeps its own seed for reproducing it later.
+                    </p>
+                    {diceHistory.length > 0 && (
+                      <ul className="dice-history">
+                        {diceHistory.map((entry) => (
+                          <li key={entry.id} className="dice-history-entry">
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="font-semibold">{entry.rollerName}</span>
+                              <span className="opacity-70">Round {entry.round} · seed {entry.roll.seed}</span>
+                            </div>
+                            <div>
+                              {entry.roll.expression}
+                              {entry.roll.mode !== "normal" && ` (${DICE_MODE_LABELS[entry.roll.mode].toLowerCase()})`}
+                            </div>
+                            <div className="dice-history-result">
+                              <span className="text-lg font-bold">{entry.roll.total}</span>
+                              <span className="opacity-70">{describeDiceRoll(entry.roll)}</span>
+                            </div>
+                            <div className="token-controls">
+                              <button onClick={() => reproduceRoll(entry)} className="button-ghost">Reproduce</button>
+                              {reproducedRoll?.entryId === entry.id && (
+                                <span className={reproducedRoll.matches ? "dice-reproduced" : "dice-error"}>
+                                  {reproducedRoll.matches ? "Same result from this seed" : "Seed gives a different result"}
+                                </span>
+                              )}
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
                     )}
                   </div>
                 </section>
@@ -2937,13 +5852,13 @@ export default function GameWorldMap() {
                         value={Number.isNaN(timeAdvanceValue) ? "" : timeAdvanceValue}
                         onChange={(e) => {
                           const nextValue = parseInt(e.target.value || "0", 10);
-                          setTimeAdvanceValue(Number.isNaN(nextValue) ? 1 : Math.max(1, nextValue));
+                          dispatch({ type: "setTimeAdvance", value: Number.isNaN(nextValue) ? 1 : Math.max(1, nextValue) });
                         }}
                         className="w-16 bg-white/10 border border-white/10 rounded px-1 py-0.5"
                       />
                       <select
                         value={timeAdvanceUnit}
-                        onChange={(e) => setTimeAdvanceUnit(e.target.value as TimeUnit)}
+                        onChange={(e) => dispatch({ type: "setTimeAdvance", unit: e.target.value as TimeUnit })}
                         className="px-2 py-1 rounded bg-white/10 border border-white/10"
                       >
                         <option value="days">Days</option>
@@ -3005,6 +5920,16 @@ export default function GameWorldMap() {
                         <span className="text-sm">Interest Track</span>
                       </label>
                       
+                      <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={showEventLogOverlay}
+                          onChange={(e) => setShowEventLogOverlay(e.target.checked)}
+                          className="w-4 h-4"
+                        />
+                        <span className="text-sm">Event Log</span>
+                      </label>
+                      
                       <label className="flex items-center gap-2 cursor-pointer">
                         <input
                           type="checkbox"
@@ -3026,6 +5951,10 @@ export default function GameWorldMap() {
                       </label>
                     </div>
                     <div className="text-xs opacity-70">Toggle which UI elements are visible on the screen</div>
+                    <div className="token-controls">
+                      <button onClick={openPresenterView} className="button-soft">Open presenter view</button>
+                      <span className="text-xs opacity-70">A second window for the projector: map, timer, round and interest track only.</span>
+                    </div>
                   </div>
                 </section>
 
@@ -3043,7 +5972,7 @@ export default function GameWorldMap() {
                     </div>
                     <div className="space-y-2">
                       <div className="text-sm font-semibold mb-1">Phase Durations</div>
-                      {PHASES.map((ph, idx) => (
+                      {phases.map((ph, idx) => (
                         <div key={ph} className="flex items-center gap-2 text-xs">
                           <span className="w-32 text-xs">{ph}</span>
                           <input 
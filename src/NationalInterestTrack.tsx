@@ -0,0 +1,90 @@
+import { getActorInitials } from "./mapGraphics";
+import type { TrackParticipant } from "./gameTypes";
+
+type NationalInterestTrackProps = {
+  levels: number;
+  participants: TrackParticipant[];
+  positions: Record<string, number>;
+  // Omit for a read-only track
+  onMove?: (id: string, delta: number) => void;
+};
+
+export default function NationalInterestTrack({ levels, participants, positions, onMove }: NationalInterestTrackProps) {
+  const maxLevel = Math.max(1, levels);
+  const sorted = [...participants].sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: "base" }));
+  const buckets: Record<number, TrackParticipant[]> = {};
+  for (let level = 0; level <= maxLevel; level += 1) {
+    buckets[level] = [];
+  }
+  sorted.forEach((participant) => {
+    const raw = positions[participant.id] ?? 1;
+    const level = Math.max(0, Math.min(maxLevel, raw));
+    buckets[level].push(participant);
+  });
+  const levelOrder = Array.from({ length: maxLevel + 1 }, (_, index) => index).reverse();
+  return (
+    <div className="national-interest-track">
+      {levelOrder.map((level) => {
+        const entries = buckets[level] ?? [];
+        const isTop = level === maxLevel;
+        const labelClasses = ["interest-tier-label"];
+        if (isTop) {
+          labelClasses.push("interest-tier-label-top");
+        }
+        if (level === 0) {
+          labelClasses.push("interest-tier-label-start");
+        }
+        return (
+          <div key={level} className="interest-tier">
+            <div className={labelClasses.join(" ")}>
+              {isTop && <span className="interest-tier-heading">National Interest</span>}
+              <span className="interest-tier-number">{level === 0 ? "Start" : level}</span>
+            </div>
+            <div className="interest-tier-slots">
+              {entries.map((participant) => {
+                const currentLevel = Math.max(0, Math.min(maxLevel, positions[participant.id] ?? 1));
+                const canLevelUp = currentLevel < maxLevel;
+                const canLevelDown = currentLevel > 0;
+                return (
+                  <div key={participant.id} className="interest-participant">
+                    <div className="interest-participant-avatar" style={{ background: participant.color }}>
+                      {getActorInitials(participant.name)}
+                    </div>
+                    <div className="interest-participant-body">
+                      <span className="interest-participant-name">{participant.name}</span>
+                      {participant.kind === "actor" && participant.territory && (
+                        <span className="interest-participant-subtext">{participant.territory}</span>
+                      )}
+                    </div>
+                    {onMove && (
+                      <div className="interest-participant-controls">
+                        <button
+                          type="button"
+                          className="interest-control"
+                          onClick={() => onMove(participant.id, 1)}
+                          disabled={!canLevelUp}
+                          aria-label={`Advance ${participant.name}`}
+                        >
+                          ^
+                        </button>
+                        <button
+                          type="button"
+                          className="interest-control"
+                          onClick={() => onMove(participant.id, -1)}
+                          disabled={!canLevelDown}
+                          aria-label={`Revert ${participant.name}`}
+                        >
+                          v
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+import { useEffect, useRef, useState } from "react";
+import L from "leaflet";
+import "leaflet/dist/leaflet.css";
+import { BASEMAP_STORAGE_KEY, addBasemap, createCountryLabels, readBasemapSettings } from "./basemap";
+import type { BasemapSettings } from "./basemap";
+import { loadBundledBoundaries } from "./countryBoundaries";
+import type { CountryBoundaries, CountryGeoFeature } from "./countryBoundaries";
+import { clearFog, drawFog, transformFogForZoom } from "./fogOfWar";
+import {
+  WORLD_BOUNDS,
+  blendHexColors,
+  createActorIcon,
+  createAnnotationOverlay,
+  createInfectionOverlay,
+  createTreatyOverlay,
+  createUnitIcon,
+} from "./mapGraphics";
+import { NEUTRAL_COLOR } from "./playerColors";
+import NationalInterestTrack from "./NationalInterestTrack";
+import { openPresenterChannel } from "./presenterChannel";
+import TrackMeters from "./TrackMeters";
+import type { PresenterSnapshot, PresenterTimer } from "./presenterChannel";
+
+const formatGameDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { year: "numeric", month: "long", day: "numeric" });
+
+const countryStyle = (colors: string[] | undefined): L.PathOptions => {
+  if (!colors?.length) {
+    return { color: NEUTRAL_COLOR, weight: 1, fillColor: NEUTRAL_COLOR, fillOpacity: 0.1 };
+  }
+  const color = colors.length === 1 ? colors[0] : blendHexColors(colors);
+  return { color, weight: 1.5, fillColor: color, fillOpacity: colors.length > 1 ? 0.45 : 0.35 };
+};
+
+// Read-only mirror of the adjudicator's map for a projector or second screen.
+export default function PresenterView() {
+  const mapRef = useRef<L.Map | null>(null);
+  const mapElRef = useRef<HTMLDivElement | null>(null);
+  const fogCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const countriesLayerRef = useRef<L.GeoJSON | null>(null);
+  const countryLayerIndex = useRef<Record<string, L.Polygon>>({});
+  const actorMarkersRef = useRef<Record<string, L.Marker>>({});
+  const [boundaries, setBoundaries] = useState<CountryBoundaries | null>(null);
+  // Boundaries sent by the adjudicator win over the bundled set once they arrive
+  const [sharedBoundaries, setSharedBoundaries] = useState<CountryBoundaries | null>(null);
+  const [basemap, setBasemap] = useState<BasemapSettings>(readBasemapSettings);
+  const [snapshot, setSnapshot] = useState<PresenterSnapshot | null>(null);
+  const [timer, setTimer] = useState<PresenterTimer | null>(null);
+  const [channelMissing, setChannelMissing] = useState<boolean>(false);
+
+  useEffect(() => {
+    document.title = "Geopolitics: Presenter";
+  }, []);
+
+  useEffect(() => {
+    const channel = openPresenterChannel((message) => {
+      if (message.type === "snapshot") setSnapshot(message.snapshot);
+      if (message.type === "timer") setTimer(message.timer);
+      if (message.type === "boundaries") setSharedBoundaries(message.boundaries);
+    });
+    if (!channel) {
+      setChannelMissing(true);
+      return;
+    }
+    channel.post({ type: "requestSnapshot" });
+    return () => channel.close();
+  }, []);
+
+  useEffect(() => {
+    if (mapRef.current || !mapElRef.current) return;
+    // Players watch; only the adjudicator moves the map
+    const map = L.map(mapElRef.current, {
+      zoomControl: false,
+      attributionControl: true,
+      dragging: false,
+      scrollWheelZoom: false,
+      doubleClickZoom: false,
+      boxZoom: false,
+      keyboard: false,
+      touchZoom: false,
+      minZoom: 2,
+      maxZoom: 18,
+      maxBounds: WORLD_BOUNDS,
+    });
+    map.setView([20, 0], 2);
+    mapRef.current = map;
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      countriesLayerRef.current = null;
+      countryLayerIndex.current = {};
+      actorMarkersRef.current = {};
+    };
+  }, []);
+
+  useEffect(() => {
+    loadBundledBoundaries()
+      .then(setBoundaries)
+      .catch((error) => {
+        console.error("Error loading country boundaries:", error);
+      });
+  }, []);
+
+  // The adjudicator window writes the setting; storage events only fire in other windows
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === BASEMAP_STORAGE_KEY) setBasemap(readBasemapSettings());
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    const layer = addBasemap(map, basemap);
+    return () => {
+      layer.remove();
+    };
+  }, [basemap]);
+
+  const activeBoundaries = sharedBoundaries ?? boundaries;
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !activeBoundaries) return;
+    const layerIndex: Record<string, L.Polygon> = {};
+    const layer = L.geoJSON(activeBoundaries.geojson as GeoJSON.FeatureCollection, {
+      style: () => countryStyle(undefined),
+      interactive: false,
+      onEachFeature: (feature: CountryGeoFeature, lyr: L.Layer) => {
+        if (lyr instanceof L.Polygon) {
+          layerIndex[feature.properties.name] = lyr;
+        }
+      },
+    }).addTo(map);
+    countryLayerIndex.current = layerIndex;
+    countriesLayerRef.current = layer;
+    return () => {
+      layer.remove();
+      if (countriesLayerRef.current === layer) countriesLayerRef.current = null;
+    };
+  }, [activeBoundaries]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !activeBoundaries || basemap.mode !== "offline" || !basemap.showLabels) return;
+    const labels = createCountryLabels(map, countryLayerIndex.current).addTo(map);
+    return () => {
+      labels.remove();
+    };
+  }, [activeBoundaries, basemap.mode, basemap.showLabels]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    const view = snapshot?.mapView;
+    if (!map || !view) return;
+    const center = map.getCenter();
+    if (map.getZoom() === view.zoom && center.lat === view.center.lat && center.lng === view.center.lng) return;
+    map.setView([view.center.lat, view.center.lng], view.zoom);
+  }, [snapshot?.mapView]);
+
+  useEffect(() => {
+    const layer = countriesLayerRef.current;
+    if (!layer) return;
+    const colors = snapshot?.countryColors ?? {};
+    Object.entries(countryLayerIndex.current).forEach(([name, polygon]) => polygon.setStyle(countryStyle(colors[name])));
+  }, [snapshot?.countryColors, activeBoundaries]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    const infection = snapshot?.infection;
+    if (!map || !infection || !activeBoundaries) return;
+    const overlay = createInfectionOverlay(map, countryLayerIndex.current, infection.infections, infection.round).addTo(map);
+    return () => {
+      overlay.remove();
+    };
+  }, [snapshot?.infection, activeBoundaries]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    const treaties = snapshot?.treaties;
+    if (!map || !treaties?.length) return;
+    const overlay = createTreatyOverlay(map, treaties).addTo(map);
+    return () => {
+      overlay.remove();
+    };
+  }, [snapshot?.treaties]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    const markers = actorMarkersRef.current;
+    const actors = snapshot?.actors ?? [];
+    actors.forEach((actor) => {
+      const icon = createActorIcon(actor.color, actor.name, true);
+      const existing = markers[actor.id];
+      if (existing) {
+        existing.setLatLng([actor.position.lat, actor.position.lng]);
+        existing.setIcon(icon);
+        existing.getTooltip()?.setContent(actor.name);
+        return;
+      }
+      markers[actor.id] = L.marker([actor.position.lat, actor.position.lng], { icon, interactive: false })
+        .bindTooltip(actor.name, { direction: "top", offset: [0, -28], opacity: 0.85, permanent: true })
+        .addTo(map);
+    });
+    const activeIds = new Set(actors.map((actor) => actor.id));
+    Object.entries(markers).forEach(([id, marker]) => {
+      if (!activeIds.has(id)) {
+        marker.remove();
+        delete markers[id];
+      }
+    });
+  }, [snapshot?.actors]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    const units = snapshot?.units;
+    if (!map || !units?.length) return;
+    const group = L.layerGroup(
+      units.map((stack) =>
+        L.marker([stack.position.lat, stack.position.lng], {
+          icon: createUnitIcon(stack.color, stack.glyph, stack.strength, stack.count, false),
+          interactive: false,
+        })
+      )
+    ).addTo(map);
+    return () => {
+      group.remove();
+    };
+  }, [snapshot?.units]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    const annotations = snapshot?.annotations;
+    if (!map || !annotations?.length) return;
+    const overlay = createAnnotationOverlay(map, annotations).addTo(map);
+    return () => {
+      overlay.remove();
+    };
+  }, [snapshot?.annotations]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    const canvas = fogCanvasRef.current;
+    const fog = snapshot?.fog;
+    if (!map || !canvas) return;
+    if (!fog) {
+      clearFog(canvas);
+      return;
+    }
+    const countries = fog.countries
+      .map((country) => countryLayerIndex.current[country])
+      .filter((layer): layer is L.Polygon => Boolean(layer));
+    let animatingZoom = false;
+    const redraw = () => {
+      if (animatingZoom) return;
+      drawFog(canvas, map, { areas: fog.areas, countries, radiusKm: fog.radiusKm, opacity: fog.opacity });
+    };
+    const followZoom = (event: L.ZoomAnimEvent) => {
+      animatingZoom = true;
+      transformFogForZoom(canvas, map, event.center, event.zoom);
+    };
+    const finishZoom = () => {
+      animatingZoom = false;
+      redraw();
+    };
+    redraw();
+    map.on("move zoom resize viewreset", redraw);
+    map.on("zoomanim", followZoom);
+    map.on("zoomend", finishZoom);
+    return () => {
+      map.off("move zoom resize viewreset", redraw);
+      map.off("zoomanim", followZoom);
+      map.off("zoomend", finishZoom);
+    };
+  }, [snapshot?.fog, activeBoundaries]);
+
+  const round = snapshot?.round;
+  const interest = snapshot?.interest;
+
+  return (
+    <div className="app-shell">
+      <section className="app-map-area">
+        <div ref={mapElRef} className="map-surface" />
+        <canvas ref={fogCanvasRef} className="map-fog" />
+
+        {timer && (
+          <div className="presenter-timer">
+            <div className="hud-timer">
+              <div
+                className={["hud-timer-value", timer.seconds < 60 && timer.running && timer.seconds % 2 === 0 ? "hud-timer-value-alert" : ""]
+                  .filter(Boolean)
+                  .join(" ")}
+              >
+                {Math.floor(timer.seconds / 60)}:{String(timer.seconds % 60).padStart(2, "0")}
+              </div>
+              <span className="hud-timer-subtext">{timer.phase}</span>
+            </div>
+          </div>
+        )}
+
+        {round && (
+          <div className="hud-round">
+            <div className="hud-round-label">Round {round.number} · {formatGameDate(round.gameDate)}</div>
+          </div>
+        )}
+
+        {interest && (
+          <div className="presenter-interest">
+            <div className="overlay-header">
+              <span className="overlay-title">National Interest Track</span>
+            </div>
+            <div className="overlay-body">
+              <NationalInterestTrack levels={interest.levels} participants={interest.participants} positions={interest.positions} />
+            </div>
+          </div>
+        )}
+
+        {snapshot && snapshot.tracks.length > 0 && (
+          <div className="presenter-tracks">
+            <div className="overlay-header">
+              <span className="overlay-title">Tracks</span>
+            </div>
+            <div className="overlay-body">
+              <TrackMeters tracks={snapshot.tracks} />
+            </div>
+          </div>
+        )}
+
+        {!snapshot && (
+          <div className="presenter-waiting">
+            {channelMissing
+              ? "This browser cannot sync windows. Use a current version of Chrome, Edge, Firefox or Safari."
+              : "Waiting for the adjudicator window…"}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
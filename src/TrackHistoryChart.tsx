@@ -0,0 +1,51 @@
+import { getTrackSeries } from "./customTracks";
+import type { CustomTrack } from "./gameTypes";
+
+type TrackHistoryChartProps = {
+  track: CustomTrack;
+  // The chart runs up to this round even if the track has not moved since
+  lastRound: number;
+};
+
+const WIDTH = 280;
+const HEIGHT = 90;
+const PAD_X = 24;
+const PAD_TOP = 8;
+// Room under the plot for the round labels
+const PAD_BOTTOM = 16;
+
+// Round-by-round line chart of a track, with its thresholds drawn as dashed guides.
+export default function TrackHistoryChart({ track, lastRound }: TrackHistoryChartProps) {
+  const series = getTrackSeries(track, lastRound);
+  const span = Math.max(1, track.max - track.min);
+  const first = series[0]?.round ?? lastRound;
+  const last = series[series.length - 1]?.round ?? lastRound;
+  const x = (round: number) => (last === first ? WIDTH / 2 : PAD_X + ((round - first) / (last - first)) * (WIDTH - PAD_X * 2));
+  const y = (value: number) => HEIGHT - PAD_BOTTOM - ((value - track.min) / span) * (HEIGHT - PAD_TOP - PAD_BOTTOM);
+  const points = series.map((point) => `${x(point.round)},${y(point.value)}`).join(" ");
+  return (
+    <svg
+      className="track-history-chart"
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      role="img"
+      aria-label={`${track.name} by round: ${series.map((point) => `round ${point.round} ${point.value}`).join(", ")}`}
+    >
+      {track.thresholds.map((threshold) => (
+        <g key={`${threshold.value}-${threshold.label}`}>
+          <line x1={PAD_X} x2={WIDTH - PAD_X} y1={y(threshold.value)} y2={y(threshold.value)} className="track-history-threshold" />
+          <text x={WIDTH - PAD_X + 2} y={y(threshold.value) + 3} className="track-history-label">{threshold.value}</text>
+        </g>
+      ))}
+      <text x={2} y={y(track.max) + 3} className="track-history-label">{track.max}</text>
+      <text x={2} y={y(track.min) + 3} className="track-history-label">{track.min}</text>
+      <polyline points={points} fill="none" stroke={track.color} strokeWidth={2} strokeLinejoin="round" />
+      {series.map((point) => (
+        <circle key={point.round} cx={x(point.round)} cy={y(point.value)} r={2.5} fill={track.color}>
+          <title>{`Round ${point.round}: ${point.value}`}</title>
+        </circle>
+      ))}
+      <text x={x(first)} y={HEIGHT - 2} className="track-history-label" textAnchor="middle">R{first}</text>
+      {last !== first && <text x={x(last)} y={HEIGHT - 2} className="track-history-label" textAnchor="middle">R{last}</text>}
+    </svg>
+  );
+}
@@ -0,0 +1,74 @@
+import type { CustomTrack } from "./gameTypes";
+
+type TrackMetersProps = {
+  tracks: CustomTrack[];
+  // Omit for read-only meters
+  onAdjust?: (trackId: string, delta: number) => void;
+};
+
+// The highest threshold the value has reached, if any
+const currentThreshold = (track: CustomTrack) =>
+  [...track.thresholds].reverse().find((threshold) => track.value >= threshold.value) ?? null;
+
+const percentOf = (track: CustomTrack, value: number) =>
+  track.max === track.min ? 100 : ((value - track.min) / (track.max - track.min)) * 100;
+
+export default function TrackMeters({ tracks, onAdjust }: TrackMetersProps) {
+  if (!tracks.length) {
+    return <div className="track-meters-empty">No tracks are shown on the HUD.</div>;
+  }
+  return (
+    <div className="track-meters">
+      {tracks.map((track) => {
+        const threshold = currentThreshold(track);
+        return (
+          <div key={track.id} className="track-meter">
+            <div className="track-meter-header">
+              <span className="track-meter-name">{track.name}</span>
+              <span className="track-meter-value">
+                {track.value}
+                <span className="track-meter-range">/{track.max}</span>
+              </span>
+            </div>
+            <div className="track-meter-bar">
+              <div className="track-meter-fill" style={{ width: `${percentOf(track, track.value)}%`, background: track.color }} />
+              {track.thresholds.map((item) => (
+                <span
+                  key={`${item.value}-${item.label}`}
+                  className="track-meter-tick"
+                  style={{ left: `${percentOf(track, item.value)}%` }}
+                  title={`${item.label} (${item.value})`}
+                />
+              ))}
+            </div>
+            <div className="track-meter-footer">
+              <span className="track-meter-threshold">{threshold?.label ?? ""}</span>
+              {onAdjust && (
+                <span className="track-meter-controls">
+                  <button
+                    type="button"
+                    className="interest-control"
+                    onClick={() => onAdjust(track.id, -1)}
+                    disabled={track.value <= track.min}
+                    aria-label={`Lower ${track.name}`}
+                  >
+                    −
+                  </button>
+                  <button
+                    type="button"
+                    className="interest-control"
+                    onClick={() => onAdjust(track.id, 1)}
+                    disabled={track.value >= track.max}
+                    aria-label={`Raise ${track.name}`}
+                  >
+                    +
+                  </button>
+                </span>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import type { GameAction } from "./gameState";
+import type { LatLng, MapUnit, TrackParticipant, UnitKind } from "./gameTypes";
+import { UNIT_KINDS, UNIT_KIND_ICONS, UNIT_KIND_LABELS, createUnit, getSplitPosition, getStackStrength } from "./mapUnits";
+import type { UnitStack } from "./mapUnits";
+
+type UnitsPanelProps = {
+  units: MapUnit[];
+  unitStacks: UnitStack[];
+  selectedStack: UnitStack | null;
+  selectedUnitId: string | null;
+  onSelectUnit: (unitId: string | null) => void;
+  // Players and local actors; organizations do not field units
+  owners: TrackParticipant[];
+  getOwnerName: (ownerId: string) => string;
+  getUnitColor: (ownerId: string) => string;
+  // New units go on the selected country, otherwise in the middle of the view
+  selectedCountry: string | null;
+  getPlacePosition: () => LatLng | null;
+  recordHistory: (label: string, coalesceKey?: string) => void;
+  dispatch: (action: GameAction) => void;
+};
+
+// The settings section for placing unit counters and editing the ones on the map
+export default function UnitsPanel({
+  units,
+  unitStacks,
+  selectedStack,
+  selectedUnitId,
+  onSelectUnit,
+  owners,
+  getOwnerName,
+  getUnitColor,
+  selectedCountry,
+  getPlacePosition,
+  recordHistory,
+  dispatch,
+}: UnitsPanelProps) {
+  const [unitDraft, setUnitDraft] = useState<{ ownerId: string; kind: UnitKind; label: string; strength: number }>({
+    ownerId: "",
+    kind: "military",
+    label: "",
+    strength: 1,
+  });
+
+  const placeUnit = () => {
+    const ownerId = unitDraft.ownerId || owners[0]?.id;
+    if (!ownerId) return;
+    const position = getPlacePosition();
+    if (!position) return;
+    const unit = createUnit(
+      `unit-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      unitDraft.kind,
+      ownerId,
+      unitDraft.label,
+      unitDraft.strength,
+      position
+    );
+    recordHistory(`Placed ${getOwnerName(ownerId)}'s ${unit.label}`);
+    dispatch({ type: "addUnit", unit });
+    setUnitDraft((prev) => ({ ...prev, label: "" }));
+    onSelectUnit(unit.id);
+  };
+
+  const setUnitStrength = (unitId: string, strength: number) => {
+    const unit = units.find((item) => item.id === unitId);
+    if (!unit) return;
+    recordHistory(`Changed ${unit.label} strength`, `unit-strength:${unitId}`);
+    dispatch({ type: "updateUnit", unitId, updates: { strength } });
+  };
+
+  const setUnitOwner = (unitId: string, ownerId: string) => {
+    const unit = units.find((item) => item.id === unitId);
+    if (!unit) return;
+    recordHistory(`Gave ${unit.label} to ${getOwnerName(ownerId)}`);
+    dispatch({ type: "updateUnit", unitId, updates: { ownerId } });
+  };
+
+  const splitUnit = (unitId: string) => {
+    const unit = units.find((item) => item.id === unitId);
+    if (!unit) return;
+    recordHistory(`Split ${unit.label} off its stack`);
+    dispatch({ type: "moveUnits", unitIds: [unitId], position: getSplitPosition(unit.position) });
+  };
+
+  const removeUnit = (unitId: string) => {
+    const unit = units.find((item) => item.id === unitId);
+    if (!unit) return;
+    recordHistory(`Removed ${unit.label}`);
+    dispatch({ type: "removeUnit", unitId });
+    if (selectedUnitId === unitId) onSelectUnit(null);
+  };
+
+  return (
+    <section className="border border-white/10 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold">Units</h3>
+        <span className="pill">{units.length} on map</span>
+      </div>
+      <div className="space-y-3 text-xs">
+        <div className="action-queue-form">
+          <div className="token-controls">
+            <select
+              value={unitDraft.ownerId || owners[0]?.id || ""}
+              onChange={(e) => setUnitDraft((prev) => ({ ...prev, ownerId: e.target.value }))}
+              className="px-2 py-1 rounded bg-white/10 border border-white/10"
+              aria-label="Owner"
+            >
+              {owners.map((owner) => (
+                <option key={owner.id} value={owner.id}>{owner.name}</option>
+              ))}
+            </select>
+            <select
+              value={unitDraft.kind}
+              onChange={(e) => setUnitDraft((prev) => ({ ...prev, kind: e.target.value as UnitKind }))}
+              className="px-2 py-1 rounded bg-white/10 border border-white/10"
+              aria-label="Type"
+            >
+              {UNIT_KINDS.map((kind) => (
+                <option key={kind} value={kind}>{UNIT_KIND_ICONS[kind]} {UNIT_KIND_LABELS[kind]}</option>
+              ))}
+            </select>
+            <label className="label-inline">
+              Strength
+              <input
+                type="number"
+                min={0}
+                value={unitDraft.strength}
+                onChange={(e) => setUnitDraft((prev) => ({ ...prev, strength: parseInt(e.target.value || "0", 10) }))}
+                className="w-16 bg-white/10 border border-white/10 rounded px-1 py-0.5"
+              />
+            </label>
+          </div>
+          <div className="token-controls">
+            <input
+              type="text"
+              value={unitDraft.label}
+              onChange={(e) => setUnitDraft((prev) => ({ ...prev, label: e.target.value }))}
+              placeholder={`Name, e.g. 3rd ${UNIT_KIND_LABELS[unitDraft.kind]}`}
+              className="flex-1 bg-white/10 border border-white/10 rounded px-2 py-1"
+            />
+            <button onClick={placeUnit} disabled={!owners.length} className="button-primary">
+              Place {selectedCountry ? `in ${selectedCountry}` : "at map centre"}
+            </button>
+          </div>
+          {!owners.length && <div className="opacity-70">Add a player or local actor to own units.</div>}
+        </div>
+        {unitStacks.length ? (
+          <div className="unit-list">
+            {unitStacks.map((stack) =>
+              stack.units.map((unit) => (
+                <div
+                  key={unit.id}
+                  className={`unit-list-entry${stack === selectedStack ? " unit-list-entry-selected" : ""}`}
+                >
+                  <button
+                    onClick={() => onSelectUnit(stack === selectedStack ? null : unit.id)}
+                    className="button-ghost"
+                    title={stack === selectedStack ? "Deselect" : "Select to show its moves"}
+                  >
+                    <span style={{ color: getUnitColor(unit.ownerId) }}>{UNIT_KIND_ICONS[unit.kind]}</span> {unit.label}
+                  </button>
+                  <select
+                    value={unit.ownerId}
+                    onChange={(e) => setUnitOwner(unit.id, e.target.value)}
+                    className="px-1 rounded bg-white/10 border border-white/10"
+                    aria-label={`${unit.label} owner`}
+                  >
+                    {owners.map((owner) => (
+                      <option key={owner.id} value={owner.id}>{owner.name}</option>
+                    ))}
+                  </select>
+                  <label className="label-inline">
+                    Strength
+                    <input
+                      type="number"
+                      min={0}
+                      value={unit.strength}
+                      onChange={(e) => setUnitStrength(unit.id, parseInt(e.target.value || "0", 10))}
+                      className="w-16 bg-white/10 border border-white/10 rounded px-1 py-0.5"
+                    />
+                  </label>
+                  {stack.units.length > 1 && (
+                    <button onClick={() => splitUnit(unit.id)} className="button-ghost">Split off</button>
+                  )}
+                  <button onClick={() => removeUnit(unit.id)} className="pill-remove" aria-label={`Remove ${unit.label}`}>×</button>
+                  {stack === selectedStack && (
+                    <span className="opacity-70">
+                      {unit.path.length ? `Moved ${unit.path.length} time${unit.path.length === 1 ? "" : "s"}` : "Not moved yet"}
+                      {stack.units.length > 1 && ` · stack of ${stack.units.length}, strength ${getStackStrength(stack)}`}
+                    </span>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        ) : (
+          <div className="opacity-70">No units yet.</div>
+        )}
+        {unitStacks.length > 0 && (
+          <div className="opacity-70">Drop a counter on another to stack them; select a unit to draw its moves.</div>
+        )}
+      </div>
+    </section>
+  );
+}
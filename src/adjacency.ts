@@ -0,0 +1,76 @@
+import type { CountryBoundaries } from "./countryBoundaries";
+
+// Which countries border each other: land borders worked out from the boundary
+// polygons, plus sea links the adjudicator adds for crossings such as UK–France.
+// Country name -> sorted neighbour names.
+export type AdjacencyGraph = Record<string, string[]>;
+
+// Stored with the two names in alphabetical order so each crossing has one form
+export type SeaLink = [string, string];
+
+// Borders are matched on shared vertices, snapped to ~100 m so files whose
+// neighbours don't reuse exactly the same points still line up.
+const VERTEX_PRECISION = 3;
+
+type Position = [number, number];
+
+const collectPositions = (coordinates: unknown, positions: Position[]) => {
+  if (!Array.isArray(coordinates)) return positions;
+  if (typeof coordinates[0] === "number" && typeof coordinates[1] === "number") {
+    positions.push([coordinates[0], coordinates[1]]);
+    return positions;
+  }
+  coordinates.forEach((child) => collectPositions(child, positions));
+  return positions;
+};
+
+const vertexKey = ([lng, lat]: Position) => `${lng.toFixed(VERTEX_PRECISION)},${lat.toFixed(VERTEX_PRECISION)}`;
+
+export const buildLandAdjacency = (boundaries: CountryBoundaries): AdjacencyGraph => {
+  const owners = new Map<string, Set<string>>();
+  boundaries.geojson.features.forEach((feature) => {
+    const name = feature.properties.name;
+    collectPositions(feature.geometry.coordinates, []).forEach((position) => {
+      const key = vertexKey(position);
+      const names = owners.get(key);
+      if (names) names.add(name);
+      else owners.set(key, new Set([name]));
+    });
+  });
+  const neighbours: Record<string, Set<string>> = {};
+  owners.forEach((names) => {
+    if (names.size < 2) return;
+    names.forEach((name) => {
+      neighbours[name] ??= new Set();
+      names.forEach((other) => {
+        if (other !== name) neighbours[name].add(other);
+      });
+    });
+  });
+  return Object.fromEntries(
+    Object.entries(neighbours).map(([name, set]) => [name, Array.from(set).sort((a, b) => a.localeCompare(b))])
+  );
+};
+
+export const normalizeSeaLink = (a: string, b: string): SeaLink => (a.localeCompare(b) <= 0 ? [a, b] : [b, a]);
+
+export const isSameSeaLink = (link: SeaLink, other: SeaLink) => link[0] === other[0] && link[1] === other[1];
+
+export const withSeaLinks = (land: AdjacencyGraph, seaLinks: SeaLink[]): AdjacencyGraph => {
+  if (!seaLinks.length) return land;
+  const graph: Record<string, Set<string>> = {};
+  Object.entries(land).forEach(([country, neighbours]) => {
+    graph[country] = new Set(neighbours);
+  });
+  seaLinks.forEach(([a, b]) => {
+    (graph[a] ??= new Set()).add(b);
+    (graph[b] ??= new Set()).add(a);
+  });
+  return Object.fromEntries(
+    Object.entries(graph).map(([country, set]) => [country, Array.from(set).sort((a, b) => a.localeCompare(b))])
+  );
+};
+
+export const getNeighbours = (graph: AdjacencyGraph, country: string) => graph[country] ?? [];
+
+export const areNeighbours = (graph: AdjacencyGraph, a: string, b: string) => getNeighbours(graph, a).includes(b);
@@ -0,0 +1,51 @@
+import { findActor } from "./gameState";
+import type { GameState } from "./gameState";
+import type { AdjudicationEffect } from "./gameTypes";
+
+// The action queue: participants submit actions during the Action Phase and the
+// adjudicator rules on each one, with a roll or without, in the Adjudication Phase.
+
+export type AdjudicationEffectKind = AdjudicationEffect["kind"];
+
+export const ADJUDICATION_EFFECT_LABELS: Record<AdjudicationEffectKind, string> = {
+  assignCountry: "Give country",
+  removeOwner: "Remove owner",
+  tokens: "Tokens",
+  interest: "National interest",
+  track: "Track",
+};
+
+// Offered for each ruling; any dice expression with a target works
+export const DEFAULT_ACTION_ROLL = "2d6 >= 7";
+
+// Which part of the workflow the current phase belongs to, judged from its name
+export const getAdjudicationStage = (phaseName: string): "submit" | "resolve" | null => {
+  if (/adjudicat/i.test(phaseName)) return "resolve";
+  if (/action|operation/i.test(phaseName)) return "submit";
+  return null;
+};
+
+const signed = (value: number) => (value > 0 ? `+${value}` : String(value));
+
+const nameOf = (state: GameState, id: string) =>
+  state.players.find((player) => player.id === id)?.name ??
+  findActor(state, id)?.name ??
+  state.externalOrganizations.find((org) => org.id === id)?.name ??
+  id;
+
+export const describeAdjudicationEffect = (state: GameState, effect: AdjudicationEffect) => {
+  switch (effect.kind) {
+    case "assignCountry":
+      return `${effect.country} to ${nameOf(state, effect.playerId)}${effect.replaceOwners ? " (replacing owners)" : ""}`;
+    case "removeOwner":
+      return `${nameOf(state, effect.playerId)} loses ${effect.country}`;
+    case "tokens":
+      return `${effect.pool === "country" ? effect.id : nameOf(state, effect.id)} tokens ${signed(effect.delta)}`;
+    case "interest":
+      return `${nameOf(state, effect.participantId)} interest ${signed(effect.delta)}`;
+    case "track":
+      return `${state.tracks.find((track) => track.id === effect.trackId)?.name ?? effect.trackId} ${signed(effect.delta)}`;
+    default:
+      return "";
+  }
+};
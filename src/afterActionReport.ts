@@ -0,0 +1,391 @@
+import { getTrackSeries } from "./customTracks";
+import { findActor } from "./gameState";
+import type { GameState } from "./gameState";
+import type { GameEvent, RoundStandings } from "./eventLog";
+
+export type ReportInterestStanding = { name: string; level: number };
+
+export type ReportRound = {
+  round: number;
+  gameDate: string | null;
+  phases: string[];
+  dice: string[];
+  // Submitted, withdrawn and resolved actions from the adjudication queue
+  actions: string[];
+  agreements: string[];
+  relations: string[];
+  units: string[];
+  territory: string[];
+  tokenSpending: { subject: string; spent: number }[];
+  interestMoves: string[];
+  interestStandings: ReportInterestStanding[];
+  outbreak: string[];
+  vaccineProgress: number | null;
+  trackMoves: string[];
+};
+
+export type ReportPlayerStanding = {
+  name: string;
+  territories: string[];
+  tokensAvailable: number;
+  tokenAllowance: number;
+  interestLevel: number;
+};
+
+export type ReportOrganizationStanding = { name: string; interestLevel: number; notes: string };
+
+export type ReportTrackStanding = { name: string; value: number; min: number; max: number; byRound: number[] };
+
+export type AfterActionReport = {
+  scenario: string;
+  generatedAt: string;
+  gameDate: string;
+  roundsPlayed: number;
+  interestLevelCount: number;
+  initialOutbreak: string | null;
+  outbreakRoll: number | null;
+  vaccineProgress: number;
+  vaccineTrackMax: number;
+  // Null when the spread model was not used
+  infectedCountries: string[] | null;
+  rounds: ReportRound[];
+  players: ReportPlayerStanding[];
+  organizations: ReportOrganizationStanding[];
+  tracks: ReportTrackStanding[];
+};
+
+const participantName = (state: GameState, id: string) =>
+  state.players.find((player) => player.id === id)?.name ??
+  state.externalOrganizations.find((org) => org.id === id)?.name ??
+  findActor(state, id)?.name;
+
+const toInterestStandings = (state: GameState, levels: Record<string, number>): ReportInterestStanding[] =>
+  Object.entries(levels)
+    .flatMap(([id, level]) => {
+      const name = participantName(state, id);
+      return name ? [{ name, level }] : [];
+    })
+    .sort((a, b) => b.level - a.level || a.name.localeCompare(b.name));
+
+const unique = (values: string[]) => Array.from(new Set(values));
+
+const summarizeRound = (state: GameState, round: number, events: GameEvent[]): ReportRound => {
+  const byType = (type: GameEvent["type"]) => events.filter((event) => event.type === type).map((event) => event.message);
+
+  const spending = new Map<string, number>();
+  events.forEach((event) => {
+    if (event.type !== "tokens" || event.amount === undefined || !event.subject) return;
+    spending.set(event.subject, (spending.get(event.subject) ?? 0) - event.amount);
+  });
+
+  // Standings are captured when a round closes; the round in progress uses the live state.
+  let standings: RoundStandings | undefined;
+  events.forEach((event) => {
+    if (event.standings) standings = event.standings;
+  });
+  if (round === state.roundNumber) {
+    standings = { nationalInterests: state.nationalInterests, vaccineProgress: state.vaccineProgress };
+  }
+
+  const phasesSeen = unique(events.map((event) => event.phase).filter(Boolean));
+  return {
+    round,
+    gameDate: events[0]?.gameDate ?? (round === state.roundNumber ? state.gameDate : null),
+    phases: state.scenario.phases.map((phase) => phase.name).filter((phase) => phasesSeen.includes(phase)),
+    dice: byType("dice"),
+    actions: byType("adjudication"),
+    agreements: byType("agreement"),
+    relations: byType("relationship"),
+    units: byType("unit"),
+    territory: byType("ownership"),
+    tokenSpending: Array.from(spending, ([subject, spent]) => ({ subject, spent })).filter((entry) => entry.spent !== 0),
+    interestMoves: byType("interest"),
+    interestStandings: standings ? toInterestStandings(state, standings.nationalInterests) : [],
+    outbreak: [...byType("outbreak"), ...byType("vaccine")],
+    vaccineProgress: standings?.vaccineProgress ?? null,
+    trackMoves: byType("track"),
+  };
+};
+
+export const buildAfterActionReport = (state: GameState, generatedAt: Date = new Date()): AfterActionReport => {
+  const lastRound = Math.max(state.roundNumber, ...state.eventLog.map((event) => event.round));
+  const rounds = Array.from({ length: lastRound }, (_, index) => index + 1).map((round) =>
+    summarizeRound(state, round, state.eventLog.filter((event) => event.round === round))
+  );
+  const players = state.players.map((player) => {
+    const pool = state.playerTokens[player.id];
+    return {
+      name: player.name,
+      territories: Object.keys(state.ownership)
+        .filter((country) => state.ownership[country].includes(player.id))
+        .sort((a, b) => a.localeCompare(b)),
+      tokensAvailable: pool?.available ?? 0,
+      tokenAllowance: pool?.allowance ?? 0,
+      interestLevel: state.nationalInterests[player.id] ?? 0,
+    };
+  });
+  const organizations = state.externalOrganizations.map((org) => ({
+    name: org.name,
+    interestLevel: state.nationalInterests[org.id] ?? 0,
+    notes: org.notes,
+  }));
+  const tracks = state.tracks.map((track) => ({
+    name: track.name,
+    value: track.value,
+    min: track.min,
+    max: track.max,
+    byRound: getTrackSeries(track, state.roundNumber).map((point) => point.value),
+  }));
+  return {
+    scenario: state.scenario.title,
+    generatedAt: generatedAt.toISOString(),
+    gameDate: state.gameDate,
+    roundsPlayed: state.roundNumber,
+    interestLevelCount: state.interestLevelCount,
+    initialOutbreak: state.initialOutbreak,
+    outbreakRoll: state.outbreakRoll,
+    vaccineProgress: state.vaccineProgress,
+    vaccineTrackMax: state.scenario.tracks.vaccineMax,
+    infectedCountries: state.pandemic.enabled
+      ? Object.keys(state.pandemic.infections)
+          .filter((country) => state.pandemic.infections[country].status === "infected")
+          .sort((a, b) => a.localeCompare(b))
+      : null,
+    rounds,
+    players,
+    organizations,
+    tracks,
+  };
+};
+
+const describeInfected = (countries: string[]) => (countries.length ? `${countries.length} — ${countries.join(", ")}` : "None");
+
+const describeTrackHistory = (track: ReportTrackStanding) => track.byRound.join(" → ");
+
+export const getReportFileName = (report: AfterActionReport, extension: "md" | "html") =>
+  `after-action-report-round-${report.roundsPlayed}-${report.gameDate.slice(0, 10)}.${extension}`;
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { year: "numeric", month: "long", day: "numeric" });
+
+const describeOutbreak = (report: AfterActionReport) =>
+  report.initialOutbreak
+    ? `${report.initialOutbreak}${report.outbreakRoll !== null ? ` (roll ${report.outbreakRoll})` : ""}`
+    : "Not set";
+
+// ────────────────────────────────────────────────────────────────────────────
+// Markdown
+// ────────────────────────────────────────────────────────────────────────────
+
+const escapeMarkdownCell = (value: string) => value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+
+const markdownList = (items: string[], empty: string) => (items.length ? items.map((item) => `- ${item}`) : [`- ${empty}`]);
+
+const markdownTable = (headers: string[], rows: string[][]) => [
+  `| ${headers.join(" | ")} |`,
+  `| ${headers.map(() => "---").join(" | ")} |`,
+  ...rows.map((row) => `| ${row.map(escapeMarkdownCell).join(" | ")} |`),
+];
+
+export const renderReportMarkdown = (report: AfterActionReport) => {
+  const lines: string[] = [
+    "# After-Action Report",
+    "",
+    `- **Scenario:** ${report.scenario}`,
+    `- **Rounds played:** ${report.roundsPlayed}`,
+    `- **Final game date:** ${formatDate(report.gameDate)}`,
+    `- **Initial outbreak:** ${describeOutbreak(report)}`,
+    `- **Vaccine progress:** ${report.vaccineProgress}/${report.vaccineTrackMax}`,
+    ...(report.infectedCountries ? [`- **Infected countries:** ${describeInfected(report.infectedCountries)}`] : []),
+    `- **Generated:** ${new Date(report.generatedAt).toLocaleString()}`,
+    "",
+    "## Rounds",
+  ];
+  report.rounds.forEach((round) => {
+    lines.push("", `### Round ${round.round}${round.gameDate ? ` — ${formatDate(round.gameDate)}` : ""}`, "");
+    lines.push(`**Phases:** ${round.phases.length ? round.phases.join(" → ") : "No phases recorded"}`, "");
+    lines.push("**Dice results**", ...markdownList(round.dice, "None"), "");
+    lines.push("**Actions & rulings**", ...markdownList(round.actions, "None"), "");
+    lines.push("**Agreements**", ...markdownList(round.agreements, "None"), "");
+    lines.push("**Relations**", ...markdownList(round.relations, "No change"), "");
+    lines.push("**Units**", ...markdownList(round.units, "No movement"), "");
+    lines.push("**Territory changes**", ...markdownList(round.territory, "None"), "");
+    lines.push(
+      "**Token spending**",
+      ...markdownList(round.tokenSpending.map((entry) => `${entry.subject}: ${entry.spent}`), "None"),
+      ""
+    );
+    lines.push("**National interest**", ...markdownList(round.interestMoves, "No movement"));
+    if (round.interestStandings.length) {
+      lines.push("", ...markdownTable(["Participant", "Level"], round.interestStandings.map((entry) => [entry.name, String(entry.level)])));
+    }
+    lines.push("", "**Outbreak & vaccine**", ...markdownList(round.outbreak, "No change"));
+    if (round.vaccineProgress !== null) {
+      lines.push(`- Vaccine progress at end of round: ${round.vaccineProgress}/${report.vaccineTrackMax}`);
+    }
+    if (report.tracks.length) {
+      lines.push("", "**Tracks**", ...markdownList(round.trackMoves, "No movement"));
+    }
+  });
+  lines.push("", "## Final Standings", "", "### Players", "");
+  if (report.players.length) {
+    lines.push(
+      ...markdownTable(
+        ["Player", "Territories", "Tokens", "National interest"],
+        report.players.map((player) => [
+          player.name,
+          player.territories.length ? player.territories.join(", ") : "—",
+          `${player.tokensAvailable}/${player.tokenAllowance}`,
+          `${player.interestLevel}/${report.interestLevelCount}`,
+        ])
+      )
+    );
+  } else {
+    lines.push("No players.");
+  }
+  lines.push("", "### Organizations", "");
+  if (report.organizations.length) {
+    lines.push(
+      ...markdownTable(
+        ["Organization", "National interest", "Notes"],
+        report.organizations.map((org) => [org.name, `${org.interestLevel}/${report.interestLevelCount}`, org.notes || "—"])
+      )
+    );
+  } else {
+    lines.push("No organizations.");
+  }
+  if (report.tracks.length) {
+    lines.push(
+      "",
+      "### Tracks",
+      "",
+      ...markdownTable(
+        ["Track", "Final value", "By round"],
+        report.tracks.map((track) => [track.name, `${track.value} (${track.min}–${track.max})`, describeTrackHistory(track)])
+      )
+    );
+  }
+  return `${lines.join("\n")}\n`;
+};
+
+// ────────────────────────────────────────────────────────────────────────────
+// Printable HTML
+// ────────────────────────────────────────────────────────────────────────────
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const htmlList = (items: string[], empty: string) =>
+  items.length
+    ? `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</ul>`
+    : `<p class="empty">${escapeHtml(empty)}</p>`;
+
+const htmlTable = (headers: string[], rows: string[][]) =>
+  `<table><thead><tr>${headers.map((header) => `<th>${escapeHtml(header)}</th>`).join("")}</tr></thead>` +
+  `<tbody>${rows.map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`).join("")}</tbody></table>`;
+
+const REPORT_STYLES = `
+  body { font-family: Georgia, "Times New Roman", serif; color: #111827; max-width: 48rem; margin: 2rem auto; padding: 0 1.5rem; line-height: 1.45; }
+  h1 { font-size: 1.8rem; border-bottom: 2px solid #111827; padding-bottom: 0.4rem; }
+  h2 { font-size: 1.3rem; margin-top: 2rem; border-bottom: 1px solid #9ca3af; padding-bottom: 0.2rem; }
+  h3 { font-size: 1.1rem; margin-bottom: 0.4rem; }
+  h4 { font-size: 0.85rem; text-transform: uppercase; letter-spacing: 0.06em; color: #4b5563; margin: 0.9rem 0 0.3rem; }
+  ul { margin: 0; padding-left: 1.2rem; }
+  table { border-collapse: collapse; width: 100%; margin: 0.4rem 0; font-size: 0.9rem; }
+  th, td { border: 1px solid #d1d5db; padding: 0.3rem 0.5rem; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  .summary { display: grid; grid-template-columns: max-content 1fr; gap: 0.2rem 1rem; }
+  .summary dt { font-weight: bold; }
+  .summary dd { margin: 0; }
+  .empty { color: #6b7280; font-style: italic; margin: 0; }
+  .round { break-inside: avoid; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    h2 { break-after: avoid; }
+  }
+`;
+
+export const renderReportHtml = (report: AfterActionReport) => {
+  const rounds = report.rounds
+    .map((round) => {
+      const standings = round.interestStandings.length
+        ? htmlTable(["Participant", "Level"], round.interestStandings.map((entry) => [entry.name, String(entry.level)]))
+        : "";
+      const vaccine = round.vaccineProgress !== null
+        ? [`Vaccine progress at end of round: ${round.vaccineProgress}/${report.vaccineTrackMax}`]
+        : [];
+      return `<section class="round">
+<h3>Round ${round.round}${round.gameDate ? ` — ${escapeHtml(formatDate(round.gameDate))}` : ""}</h3>
+<h4>Phases</h4>${htmlList(round.phases.length ? [round.phases.join(" → ")] : [], "No phases recorded")}
+<h4>Dice results</h4>${htmlList(round.dice, "None")}
+<h4>Actions &amp; rulings</h4>${htmlList(round.actions, "None")}
+<h4>Agreements</h4>${htmlList(round.agreements, "None")}
+<h4>Relations</h4>${htmlList(round.relations, "No change")}
+<h4>Units</h4>${htmlList(round.units, "No movement")}
+<h4>Territory changes</h4>${htmlList(round.territory, "None")}
+<h4>Token spending</h4>${htmlList(round.tokenSpending.map((entry) => `${entry.subject}: ${entry.spent}`), "None")}
+<h4>National interest</h4>${htmlList(round.interestMoves, "No movement")}${standings}
+<h4>Outbreak &amp; vaccine</h4>${htmlList([...round.outbreak, ...vaccine], "No change")}${
+        report.tracks.length ? `\n<h4>Tracks</h4>${htmlList(round.trackMoves, "No movement")}` : ""
+      }
+</section>`;
+    })
+    .join("\n");
+  const players = report.players.length
+    ? htmlTable(
+        ["Player", "Territories", "Tokens", "National interest"],
+        report.players.map((player) => [
+          player.name,
+          player.territories.length ? player.territories.join(", ") : "—",
+          `${player.tokensAvailable}/${player.tokenAllowance}`,
+          `${player.interestLevel}/${report.interestLevelCount}`,
+        ])
+      )
+    : `<p class="empty">No players.</p>`;
+  const organizations = report.organizations.length
+    ? htmlTable(
+        ["Organization", "National interest", "Notes"],
+        report.organizations.map((org) => [org.name, `${org.interestLevel}/${report.interestLevelCount}`, org.notes || "—"])
+      )
+    : `<p class="empty">No organizations.</p>`;
+  const tracks = report.tracks.length
+    ? `<h3>Tracks</h3>
+${htmlTable(
+  ["Track", "Final value", "By round"],
+  report.tracks.map((track) => [track.name, `${track.value} (${track.min}–${track.max})`, describeTrackHistory(track)])
+)}`
+    : "";
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>After-Action Report — Round ${report.roundsPlayed}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>After-Action Report</h1>
+<dl class="summary">
+<dt>Scenario</dt><dd>${escapeHtml(report.scenario)}</dd>
+<dt>Rounds played</dt><dd>${report.roundsPlayed}</dd>
+<dt>Final game date</dt><dd>${escapeHtml(formatDate(report.gameDate))}</dd>
+<dt>Initial outbreak</dt><dd>${escapeHtml(describeOutbreak(report))}</dd>
+<dt>Vaccine progress</dt><dd>${report.vaccineProgress}/${report.vaccineTrackMax}</dd>
+${report.infectedCountries ? `<dt>Infected countries</dt><dd>${escapeHtml(describeInfected(report.infectedCountries))}</dd>\n` : ""}<dt>Generated</dt><dd>${escapeHtml(new Date(report.generatedAt).toLocaleString())}</dd>
+</dl>
+<h2>Rounds</h2>
+${rounds}
+<h2>Final Standings</h2>
+<h3>Players</h3>
+${players}
+<h3>Organizations</h3>
+${organizations}
+${tracks}
+</body>
+</html>
+`;
+};
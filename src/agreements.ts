@@ -0,0 +1,69 @@
+import type { Agreement, AgreementStatus } from "./gameTypes";
+
+// Agreements recorded in the Negotiation Phase. A signed agreement with a duration
+// runs for that many rounds, counting the one it was signed in, then expires.
+
+export const AGREEMENT_STATUS_LABELS: Record<AgreementStatus, string> = {
+  proposed: "Proposed",
+  signed: "Signed",
+  broken: "Broken",
+  expired: "Expired",
+};
+
+export const createAgreement = (
+  id: string,
+  title: string,
+  parties: string[],
+  terms: string,
+  durationRounds: number | null,
+  round: number
+): Agreement => ({
+  id,
+  title,
+  parties: Array.from(new Set(parties)),
+  terms,
+  durationRounds: durationRounds === null ? null : Math.max(1, Math.floor(durationRounds)),
+  status: "proposed",
+  proposedRound: round,
+  signedRound: null,
+  endedRound: null,
+});
+
+// The round an agreement lapses at, or null while it is unsigned or open-ended
+export const getExpiryRound = (agreement: Agreement) =>
+  agreement.signedRound === null || agreement.durationRounds === null ? null : agreement.signedRound + agreement.durationRounds;
+
+// Rounds still to run after the current one; null when open-ended
+export const getRoundsRemaining = (agreement: Agreement, round: number) => {
+  const expiry = getExpiryRound(agreement);
+  return expiry === null ? null : Math.max(0, expiry - round - 1);
+};
+
+export const withStatus = (agreement: Agreement, status: AgreementStatus, round: number): Agreement => {
+  if (agreement.status === status) return agreement;
+  if (status === "proposed") return { ...agreement, status, signedRound: null, endedRound: null };
+  if (status === "signed") return { ...agreement, status, signedRound: round, endedRound: null };
+  return { ...agreement, status, endedRound: round };
+};
+
+// Signed agreements whose term is up by `round`
+export const getLapsingAgreements = (agreements: Agreement[], round: number) =>
+  agreements.filter((agreement) => {
+    const expiry = getExpiryRound(agreement);
+    return agreement.status === "signed" && expiry !== null && expiry <= round;
+  });
+
+export const expireAgreements = (agreements: Agreement[], round: number) => {
+  const lapsing = new Set(getLapsingAgreements(agreements, round));
+  return lapsing.size ? agreements.map((agreement) => (lapsing.has(agreement) ? withStatus(agreement, "expired", round) : agreement)) : agreements;
+};
+
+// Undoes the expiries that happened on entering `round`, for rewinding past it
+export const unexpireAgreements = (agreements: Agreement[], round: number) => {
+  const restored = agreements.filter(
+    (agreement) => agreement.status === "expired" && agreement.endedRound === round && getExpiryRound(agreement) === round
+  );
+  return restored.length
+    ? agreements.map((agreement) => (restored.includes(agreement) ? { ...agreement, status: "signed" as const, endedRound: null } : agreement))
+    : agreements;
+};
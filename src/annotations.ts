@@ -0,0 +1,65 @@
+import { distanceKm } from "./gameState";
+import type { Annotation, AnnotationKind, LatLng } from "./gameTypes";
+
+// Sketches on the map: arrows for offensives, circles for exclusion zones, free
+// text. Each is drawn by clicking points on the map with one of the tools below.
+
+export const ANNOTATION_KIND_LABELS: Record<AnnotationKind, string> = {
+  arrow: "Arrow",
+  polyline: "Line",
+  polygon: "Area",
+  circle: "Circle",
+  text: "Text",
+};
+
+export const ANNOTATION_KINDS = Object.keys(ANNOTATION_KIND_LABELS) as AnnotationKind[];
+
+export const DEFAULT_ANNOTATION_COLOR = "#f97316";
+
+// Points each tool needs; tools without a maximum finish on double-click or Finish
+export const ANNOTATION_POINTS: Record<AnnotationKind, { min: number; max: number | null }> = {
+  arrow: { min: 2, max: 2 },
+  polyline: { min: 2, max: null },
+  polygon: { min: 3, max: null },
+  circle: { min: 2, max: 2 },
+  text: { min: 1, max: 1 },
+};
+
+export const ANNOTATION_HINTS: Record<AnnotationKind, string> = {
+  arrow: "Click where the arrow starts, then where it points.",
+  polyline: "Click each point of the line; double-click to finish.",
+  polygon: "Click each corner of the area; double-click to finish.",
+  circle: "Click the centre, then a point on the edge.",
+  text: "Type the label, then click where it goes.",
+};
+
+// A double-click also lands two clicks on the same spot
+const withoutRepeats = (points: LatLng[]) =>
+  points.filter((point, index) => index === 0 || point.lat !== points[index - 1].lat || point.lng !== points[index - 1].lng);
+
+export const canFinishAnnotation = (kind: AnnotationKind, points: LatLng[]) =>
+  withoutRepeats(points).length >= ANNOTATION_POINTS[kind].min;
+
+// Null until the drawn points are enough for the shape
+export const createAnnotation = (
+  id: string,
+  kind: AnnotationKind,
+  drawn: LatLng[],
+  options: Pick<Annotation, "color" | "ownerId" | "text" | "round" | "public">
+): Annotation | null => {
+  const points = withoutRepeats(drawn);
+  if (points.length < ANNOTATION_POINTS[kind].min) return null;
+  if (kind === "text" && !options.text.trim()) return null;
+  const base = { id, kind, color: options.color, ownerId: options.ownerId, round: options.round, public: options.public };
+  if (kind === "circle") return { ...base, points: [points[0]], radiusKm: distanceKm(points[0], points[1]), text: "" };
+  return { ...base, points, radiusKm: 0, text: kind === "text" ? options.text.trim() : "" };
+};
+
+export const isAnnotationVisible = (annotation: Annotation, round: number) => annotation.round === null || annotation.round === round;
+
+// What a player is shown: public annotations and their own, unless every point lies under
+// their fog. A null viewer stands for all players at once, as on the presenter view.
+export const isAnnotationShownTo = (annotation: Annotation, viewerId: string | null, isFogged: (point: LatLng) => boolean) => {
+  if (viewerId !== null && annotation.ownerId === viewerId) return true;
+  return annotation.public && !annotation.points.every(isFogged);
+};
@@ -0,0 +1,109 @@
+import { parseGameSave, serializeGameSave } from "./gameSave";
+import type { GameSaveFile, GameSnapshot } from "./gameSave";
+
+const DB_NAME = "wargames";
+const DB_VERSION = 1;
+const STORE_NAME = "autosaves";
+
+export const MAX_AUTOSAVES = 5;
+export const AUTOSAVE_DEBOUNCE_MS = 1500;
+
+type AutosaveRecord = {
+  id?: number;
+  savedAt: string;
+  roundNumber: number;
+  gameDate: string;
+  data: string;
+};
+
+export type AutosaveEntry = {
+  id: number;
+  savedAt: string;
+  roundNumber: number;
+  gameDate: string;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed"));
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error("IndexedDB transaction failed"));
+    transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB transaction aborted"));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: "id", autoIncrement: true });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Failed to open IndexedDB"));
+  });
+  // Allow a later call to retry if opening failed
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+};
+
+// Stores a snapshot and drops the oldest ones beyond MAX_AUTOSAVES.
+export const writeAutosave = async (game: GameSnapshot) => {
+  const db = await openDatabase();
+  const savedAt = new Date();
+  const record: AutosaveRecord = {
+    savedAt: savedAt.toISOString(),
+    roundNumber: game.roundNumber,
+    gameDate: game.gameDate,
+    data: serializeGameSave(game, savedAt),
+  };
+  const transaction = db.transaction(STORE_NAME, "readwrite");
+  const store = transaction.objectStore(STORE_NAME);
+  store.add(record);
+  const keys = (await requestToPromise(store.getAllKeys())) as number[];
+  const excess = keys.length - MAX_AUTOSAVES;
+  if (excess > 0) {
+    [...keys].sort((a, b) => a - b).slice(0, excess).forEach((key) => store.delete(key));
+  }
+  await transactionDone(transaction);
+};
+
+// Newest first.
+export const listAutosaves = async (): Promise<AutosaveEntry[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_NAME, "readonly");
+  const records = (await requestToPromise(transaction.objectStore(STORE_NAME).getAll())) as AutosaveRecord[];
+  return records
+    .filter((record): record is AutosaveRecord & { id: number } => typeof record.id === "number")
+    .map(({ id, savedAt, roundNumber, gameDate }) => ({ id, savedAt, roundNumber, gameDate }))
+    .sort((a, b) => b.id - a.id);
+};
+
+export const readAutosave = async (id: number): Promise<GameSaveFile> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_NAME, "readonly");
+  const record = (await requestToPromise(transaction.objectStore(STORE_NAME).get(id))) as AutosaveRecord | undefined;
+  if (!record) {
+    throw new Error(`Autosave ${id} no longer exists`);
+  }
+  const result = parseGameSave(record.data);
+  if (!result.ok) {
+    throw new Error(result.errors.join(" "));
+  }
+  return result.save;
+};
@@ -0,0 +1,163 @@
+import L from "leaflet";
+import BUNDLED_LAND_URL from "./data/land.geo.json?url";
+import { WORLD_BOUNDS, largestPartBounds } from "./mapGraphics";
+
+// The base map under the country overlay: either raster tiles from a configurable
+// server, or a vector map drawn from bundled Natural Earth land polygons so the
+// game runs with no network at all.
+
+export type BasemapMode = "offline" | "tiles";
+
+export type BasemapSettings = {
+  mode: BasemapMode;
+  // Leaflet URL template, e.g. http://localhost:8080/{z}/{x}/{y}.png
+  tileUrl: string;
+  tileAttribution: string;
+  // Country name labels for the offline map; tile servers draw their own
+  showLabels: boolean;
+};
+
+export const DEFAULT_TILE_URL = "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
+const DEFAULT_TILE_ATTRIBUTION = "&copy; <a href='https://www.openstreetmap.org/copyright'>OpenStreetMap</a> contributors";
+
+export const DEFAULT_BASEMAP_SETTINGS: BasemapSettings = {
+  mode: "tiles",
+  tileUrl: DEFAULT_TILE_URL,
+  tileAttribution: DEFAULT_TILE_ATTRIBUTION,
+  showLabels: true,
+};
+
+// Kept per browser rather than per game: it describes the machine, not the scenario.
+// The presenter window reads the same key, so both windows share one basemap.
+export const BASEMAP_STORAGE_KEY = "wargames.basemap";
+
+export const readBasemapSettings = (): BasemapSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(BASEMAP_STORAGE_KEY) ?? "null");
+    if (!stored || typeof stored !== "object") return DEFAULT_BASEMAP_SETTINGS;
+    return {
+      mode: stored.mode === "offline" ? "offline" : "tiles",
+      tileUrl: typeof stored.tileUrl === "string" && stored.tileUrl ? stored.tileUrl : DEFAULT_TILE_URL,
+      tileAttribution: typeof stored.tileAttribution === "string" ? stored.tileAttribution : DEFAULT_TILE_ATTRIBUTION,
+      showLabels: stored.showLabels !== false,
+    };
+  } catch (error) {
+    console.error("Error reading basemap settings:", error);
+    return DEFAULT_BASEMAP_SETTINGS;
+  }
+};
+
+export const writeBasemapSettings = (settings: BasemapSettings) => {
+  try {
+    localStorage.setItem(BASEMAP_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error saving basemap settings:", error);
+  }
+};
+
+// Leaflet needs {z}, {x} and {y} to request tiles; {s} and {r} are optional
+export const isValidTileUrl = (url: string) => ["{z}", "{x}", "{y}"].every((token) => url.includes(token));
+
+// ────────────────────────────────────────────────────────────────────────────
+// Offline vector map
+// ────────────────────────────────────────────────────────────────────────────
+
+const BASEMAP_PANE = "basemap";
+const LABEL_PANE = "basemapLabels";
+const OFFLINE_CLASS = "map-basemap-offline";
+const GRATICULE_STEP = 15;
+const LAND_STYLE: L.PathOptions = { color: "#64748b", weight: 0.8, fillColor: "#1f2d3d", fillOpacity: 1 };
+const GRATICULE_STYLE: L.PathOptions = { color: "#94a3b8", weight: 0.5, opacity: 0.18, interactive: false };
+
+// Sits where the tile pane would, below the country overlay
+const ensurePane = (map: L.Map, name: string, zIndex: number) => {
+  const pane = map.getPane(name) ?? map.createPane(name);
+  pane.style.zIndex = String(zIndex);
+  pane.style.pointerEvents = "none";
+  return name;
+};
+
+let landPromise: Promise<unknown> | null = null;
+
+const loadLand = () => {
+  landPromise ??= fetch(BUNDLED_LAND_URL).then((response) => {
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return response.json();
+  });
+  landPromise.catch(() => {
+    // Let the next basemap switch try again
+    landPromise = null;
+  });
+  return landPromise;
+};
+
+const createGraticule = (pane: string) => {
+  const south = WORLD_BOUNDS.getSouth();
+  const north = WORLD_BOUNDS.getNorth();
+  const lines: L.LatLngExpression[][] = [];
+  for (let lng = -180; lng <= 180; lng += GRATICULE_STEP) {
+    lines.push([[south, lng], [north, lng]]);
+  }
+  for (let lat = -75; lat <= 75; lat += GRATICULE_STEP) {
+    lines.push([[lat, -180], [lat, 180]]);
+  }
+  return L.polyline(lines, { ...GRATICULE_STYLE, pane });
+};
+
+const createOfflineBasemap = (map: L.Map) => {
+  const pane = ensurePane(map, BASEMAP_PANE, 200);
+  const group = L.layerGroup([createGraticule(pane)]);
+  loadLand()
+    .then((land) => {
+      // Land goes under the graticule so the grid reads over the continents too
+      L.geoJSON(land as GeoJSON.FeatureCollection, { style: () => LAND_STYLE, pane, interactive: false }).addTo(group);
+      group.eachLayer((layer) => {
+        if (layer instanceof L.Polyline && !(layer instanceof L.Polygon)) layer.bringToFront();
+      });
+    })
+    .catch((error) => {
+      console.error("Error loading bundled land polygons:", error);
+    });
+  group.on("add", () => map.getContainer().classList.add(OFFLINE_CLASS));
+  group.on("remove", () => map.getContainer().classList.remove(OFFLINE_CLASS));
+  return group;
+};
+
+export const addBasemap = (map: L.Map, settings: BasemapSettings): L.Layer => {
+  if (settings.mode === "offline") return createOfflineBasemap(map).addTo(map);
+  return L.tileLayer(settings.tileUrl, {
+    attribution: settings.tileAttribution,
+    minZoom: 2,
+    maxZoom: 18,
+    bounds: WORLD_BOUNDS, // Restrict tiles to world bounds
+    noWrap: true, // Prevent tile wrapping
+  }).addTo(map);
+};
+
+// Smaller countries only get a label once there is room for it
+const labelMinZoom = (area: number) => (area > 400 ? 2 : area > 60 ? 3 : area > 8 ? 4 : 5);
+
+export const createCountryLabels = (map: L.Map, countries: Record<string, L.Polygon>) => {
+  const pane = ensurePane(map, LABEL_PANE, 450);
+  const labels: { marker: L.Marker; minZoom: number }[] = [];
+  Object.entries(countries).forEach(([name, polygon]) => {
+    const { bounds, area } = largestPartBounds(polygon);
+    if (!bounds) return;
+    // Names can come from a loaded file, so set them as text rather than markup
+    const text = document.createElement("span");
+    text.textContent = name;
+    const icon = L.divIcon({ className: "map-country-label", html: text, iconSize: [0, 0] });
+    labels.push({ marker: L.marker(bounds.getCenter(), { icon, pane, interactive: false, keyboard: false }), minZoom: labelMinZoom(area) });
+  });
+  const group = L.layerGroup(labels.map((label) => label.marker));
+  const updateVisibility = () => {
+    const zoom = map.getZoom();
+    labels.forEach(({ marker, minZoom }) => marker.setOpacity(zoom >= minZoom ? 1 : 0));
+  };
+  group.on("add", () => {
+    updateVisibility();
+    map.on("zoomend", updateVisibility);
+  });
+  group.on("remove", () => map.off("zoomend", updateVisibility));
+  return group;
+};
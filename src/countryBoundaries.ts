@@ -0,0 +1,88 @@
+// Natural Earth 1:110m admin-0 boundaries (public domain, via world-atlas), shipped
+// with the app so the map works offline. Features carry the country names the game
+// has always used plus their ISO 3166 alpha-3 code.
+import BUNDLED_COUNTRIES_URL from "./data/countries.geo.json?url";
+import { isRecord } from "./validation";
+
+export type CountryFeature = {
+  type: "Feature";
+  id?: string | number;
+  properties: Record<string, unknown> & { name: string; iso_a3?: string };
+  geometry: { type: "Polygon" | "MultiPolygon"; coordinates: unknown };
+};
+
+// A country as Leaflet hands it back from the boundary layer
+export type CountryGeoFeature = GeoJSON.Feature<GeoJSON.Geometry, { name: string; iso_a3?: string }>;
+
+export type CountryBoundaries = {
+  // Shown in settings so the adjudicator knows which file the map came from
+  source: string;
+  geojson: { type: "FeatureCollection"; features: CountryFeature[] };
+};
+
+export const BUNDLED_BOUNDARIES_SOURCE = "Natural Earth 1:110m (bundled)";
+
+// Property names used by common boundary exports (Natural Earth, geoBoundaries, GADM)
+const NAME_KEYS = ["name", "NAME", "ADMIN", "admin", "name_en", "NAME_EN", "shapeName", "COUNTRY"];
+const CODE_KEYS = ["iso_a3", "ISO_A3", "ADM0_A3", "adm0_a3", "shapeGroup", "GID_0"];
+
+const pickString = (properties: Record<string, unknown>, keys: string[]) => {
+  for (const key of keys) {
+    const value = properties[key];
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return null;
+};
+
+// Natural Earth marks missing codes as "-99"
+const normalizeCode = (value: unknown) =>
+  typeof value === "string" && /^[A-Za-z]{3}$/.test(value.trim()) ? value.trim().toUpperCase() : null;
+
+export const getCountryCode = (feature: CountryFeature) => feature.properties.iso_a3 ?? null;
+
+// Checks a FeatureCollection of country polygons and normalises each feature to carry
+// `name` and, where known, `iso_a3`. Throws with a readable message if unusable.
+export const parseCountryBoundaries = (data: unknown, source: string): CountryBoundaries => {
+  if (!isRecord(data) || data.type !== "FeatureCollection" || !Array.isArray(data.features)) {
+    throw new Error("Expected a GeoJSON FeatureCollection.");
+  }
+  const seenNames = new Set<string>();
+  const features: CountryFeature[] = [];
+  data.features.forEach((feature) => {
+    if (!isRecord(feature) || !isRecord(feature.geometry) || !isRecord(feature.properties)) return;
+    const { geometry, properties } = feature;
+    if (geometry.type !== "Polygon" && geometry.type !== "MultiPolygon") return;
+    const name = pickString(properties, NAME_KEYS);
+    if (!name || seenNames.has(name)) return;
+    seenNames.add(name);
+    const code = CODE_KEYS.map((key) => normalizeCode(properties[key])).find(Boolean) ?? normalizeCode(feature.id);
+    features.push({
+      type: "Feature",
+      id: code ?? name,
+      properties: { ...properties, name, ...(code ? { iso_a3: code } : {}) },
+      geometry: { type: geometry.type, coordinates: geometry.coordinates },
+    });
+  });
+  if (!features.length) {
+    throw new Error("No country polygons with a name property were found.");
+  }
+  return { source, geojson: { type: "FeatureCollection", features } };
+};
+
+export const loadBundledBoundaries = async () => {
+  const response = await fetch(BUNDLED_COUNTRIES_URL);
+  if (!response.ok) {
+    throw new Error(`The bundled boundary file could not be read (HTTP ${response.status}).`);
+  }
+  return parseCountryBoundaries(await response.json(), BUNDLED_BOUNDARIES_SOURCE);
+};
+
+export const readBoundariesFile = async (file: File) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not valid JSON.`);
+  }
+  return parseCountryBoundaries(data, file.name);
+};
@@ -0,0 +1,154 @@
+import { normalizeSeaLink } from "./adjacency";
+import type { SeaLink } from "./adjacency";
+import type { GameState } from "./gameState";
+import type { AdjudicationEffect, TokenPoolRef } from "./gameTypes";
+
+// The game keys countries by display name, but boundary files disagree on names
+// ("Vietnam", "Viet Nam"). Each game keeps the ISO alpha-3 code behind every name it
+// has seen, so a map that names a country differently can take over its state by code.
+
+// Country name -> ISO alpha-3 code
+export type CountryCodes = Record<string, string>;
+
+// A country as the loaded boundary file names it
+export type MapCountry = { name: string; code: string | null };
+
+// Every country name the game state refers to; the event log is history and keeps
+// the names it was written with
+const referencedCountries = (state: GameState) => {
+  const names = new Set<string>([
+    ...Object.keys(state.ownership),
+    ...Object.keys(state.countryActors),
+    ...Object.keys(state.countryTokens),
+    ...Object.keys(state.pandemic.infections),
+    ...Object.keys(state.pandemic.countryRates),
+    ...state.seaLinks.flat(),
+    ...Object.values(state.revealedCountries).flat(),
+    ...Object.values(state.scenario.countryGroups).flat(),
+    ...state.scenario.players.flatMap((player) => player.countries),
+    ...state.scenario.outbreakCandidates,
+    ...state.scenario.seaLinks.flat(),
+  ]);
+  if (state.initialOutbreak) names.add(state.initialOutbreak);
+  state.actionQueue.forEach((queued) => {
+    if (queued.targetCountry) names.add(queued.targetCountry);
+  });
+  return names;
+};
+
+// Codes the game knows, with those of the loaded map taking precedence
+export const mergeCountryCodes = (state: GameState, countries: MapCountry[], knownCodes: CountryCodes = {}): CountryCodes => {
+  const codes: CountryCodes = { ...knownCodes, ...state.countryCodes };
+  countries.forEach(({ name, code }) => {
+    if (code) codes[name] = code;
+  });
+  return codes;
+};
+
+// Old name -> name on the loaded map, for each country the game refers to that the
+// map lacks but has under another name with the same code
+export const findCountryRenames = (state: GameState, countries: MapCountry[], knownCodes: CountryCodes = {}) => {
+  const onMap = new Set(countries.map((country) => country.name));
+  const nameByCode = new Map<string, string>();
+  countries.forEach(({ name, code }) => {
+    if (code && !nameByCode.has(code)) nameByCode.set(code, name);
+  });
+  const codes = mergeCountryCodes(state, countries, knownCodes);
+  const renames: Record<string, string> = {};
+  referencedCountries(state).forEach((name) => {
+    if (onMap.has(name) || !codes[name]) return;
+    const renamed = nameByCode.get(codes[name]);
+    if (renamed) renames[name] = renamed;
+  });
+  return renames;
+};
+
+// Moves each renamed key onto its new name; `merge` decides when both names had a value
+const renameKeys = <T>(record: Record<string, T>, renames: Record<string, string>, merge: (kept: T, renamed: T) => T = (kept) => kept) => {
+  if (!Object.keys(record).some((name) => name in renames)) return record;
+  const next = Object.fromEntries(Object.entries(record).filter(([name]) => !(name in renames)));
+  Object.entries(record).forEach(([name, value]) => {
+    if (!(name in renames)) return;
+    const renamed = renames[name];
+    next[renamed] = renamed in next ? merge(next[renamed], value) : value;
+  });
+  return next;
+};
+
+const renameList = (countries: string[], renames: Record<string, string>) =>
+  Array.from(new Set(countries.map((name) => renames[name] ?? name)));
+
+const renameSeaLinks = (links: SeaLink[], renames: Record<string, string>) => {
+  const seen = new Set<string>();
+  return links.flatMap(([a, b]) => {
+    const link = normalizeSeaLink(renames[a] ?? a, renames[b] ?? b);
+    const key = link.join("|");
+    if (link[0] === link[1] || seen.has(key)) return [];
+    seen.add(key);
+    return [link];
+  });
+};
+
+const renamePoolRef = (ref: TokenPoolRef, renames: Record<string, string>): TokenPoolRef =>
+  ref.pool === "country" && ref.id in renames ? { ...ref, id: renames[ref.id] } : ref;
+
+const renameEffect = (effect: AdjudicationEffect, renames: Record<string, string>): AdjudicationEffect => {
+  if (effect.kind === "assignCountry" || effect.kind === "removeOwner") {
+    return { ...effect, country: renames[effect.country] ?? effect.country };
+  }
+  if (effect.kind === "tokens") return { ...effect, ...renamePoolRef(effect, renames) };
+  return effect;
+};
+
+// Moves everything the game holds under a country's old name onto the name the
+// loaded map uses, and records the map's codes. Returns the same state when the map
+// matches the game already.
+export const reconcileCountries = (state: GameState, countries: MapCountry[], knownCodes: CountryCodes = {}): GameState => {
+  const renames = findCountryRenames(state, countries, knownCodes);
+  const merged = mergeCountryCodes(state, countries, knownCodes);
+  const codesChanged =
+    Object.keys(merged).length !== Object.keys(state.countryCodes).length ||
+    Object.entries(merged).some(([name, code]) => state.countryCodes[name] !== code);
+  if (!Object.keys(renames).length) return codesChanged ? { ...state, countryCodes: merged } : state;
+  const rename = (name: string) => renames[name] ?? name;
+  const { scenario, pandemic } = state;
+  return {
+    ...state,
+    countryCodes: merged,
+    ownership: renameKeys(state.ownership, renames, (kept, renamed) => Array.from(new Set([...kept, ...renamed]))),
+    countryActors: renameKeys(state.countryActors, renames, (kept, renamed) => [...kept, ...renamed]),
+    countryTokens: renameKeys(state.countryTokens, renames),
+    tokenLedger: state.tokenLedger.map((entry) => ({
+      ...entry,
+      poolId: entry.pool === "country" ? rename(entry.poolId) : entry.poolId,
+      counterparty: entry.counterparty && renamePoolRef(entry.counterparty, renames),
+    })),
+    initialOutbreak: state.initialOutbreak && rename(state.initialOutbreak),
+    pandemic: {
+      ...pandemic,
+      infections: renameKeys(pandemic.infections, renames),
+      countryRates: renameKeys(pandemic.countryRates, renames),
+    },
+    seaLinks: renameSeaLinks(state.seaLinks, renames),
+    actionQueue: state.actionQueue.map((queued) => ({
+      ...queued,
+      targetCountry: queued.targetCountry && rename(queued.targetCountry),
+      resolution: queued.resolution && {
+        ...queued.resolution,
+        effects: queued.resolution.effects.map((effect) => renameEffect(effect, renames)),
+      },
+    })),
+    revealedCountries: Object.fromEntries(
+      Object.entries(state.revealedCountries).map(([id, names]) => [id, renameList(names, renames)])
+    ),
+    scenario: {
+      ...scenario,
+      countryGroups: Object.fromEntries(
+        Object.entries(scenario.countryGroups).map(([group, names]) => [group, renameList(names, renames)])
+      ),
+      players: scenario.players.map((player) => ({ ...player, countries: renameList(player.countries, renames) })),
+      outbreakCandidates: renameList(scenario.outbreakCandidates, renames),
+      seaLinks: renameSeaLinks(scenario.seaLinks, renames),
+    },
+  };
+};
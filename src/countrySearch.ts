@@ -0,0 +1,233 @@
+// Finding countries by typing part of their name or their ISO code, for states too
+// small to click, stepping from one country to the next with the arrow keys, and
+// checking typed country lists against the names on the map.
+
+export type CountrySearchEntry = { name: string; code: string | null };
+
+export type CountrySearchResult = {
+  name: string;
+  code: string | null;
+  score: number;
+  // Positions in the name that matched the query, for highlighting
+  indexes: number[];
+};
+
+// Which countries the arrow keys step through from the selected one
+export type CountryCycleMode = "neighbours" | "owned";
+
+export const COUNTRY_CYCLE_MODE_LABELS: Record<CountryCycleMode, string> = {
+  neighbours: "Neighbours",
+  owned: "Same owner",
+};
+
+const WORD_BREAK = /[\s\-'’(),.&/]/;
+
+// Letter by letter so positions still line up with the original name: "Côte" folds to "cote"
+const foldChar = (char: string) => char.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().charAt(0) || char;
+
+const fold = (text: string) => Array.from(text, foldChar).join("");
+
+const isWordStart = (text: string, index: number) => index === 0 || WORD_BREAK.test(text[index - 1]);
+
+// Walks the query through the name in order, preferring the start of a word for each letter
+const findIndexes = (query: string, text: string, preferWordStarts: boolean) => {
+  const indexes: number[] = [];
+  let from = 0;
+  for (const char of query) {
+    let index = text.indexOf(char, from);
+    if (preferWordStarts) {
+      for (let i = index; i !== -1; i = text.indexOf(char, i + 1)) {
+        if (isWordStart(text, i)) {
+          index = i;
+          break;
+        }
+      }
+    }
+    if (index === -1) return null;
+    indexes.push(index);
+    from = index + 1;
+  }
+  return indexes;
+};
+
+const scoreIndexes = (text: string, indexes: number[]) =>
+  indexes.reduce((score, index, i) => {
+    let points = 1;
+    if (isWordStart(text, index)) points += 8;
+    if (i > 0 && indexes[i - 1] === index - 1) points += 5;
+    if (i > 0) points -= Math.min(3, (index - indexes[i - 1] - 1) * 0.2);
+    return score + points;
+  }, 0);
+
+// Null when the query's letters do not all appear in the name in order
+export const fuzzyMatch = (query: string, name: string): { score: number; indexes: number[] } | null => {
+  const needle = fold(query.trim());
+  if (!needle) return null;
+  const text = fold(name);
+  if (text === needle) return { score: 1000, indexes: Array.from(name, (_, index) => index) };
+  const substring = text.indexOf(needle);
+  if (substring !== -1) {
+    const indexes = Array.from(needle, (_, index) => substring + index);
+    const bonus = substring === 0 ? 500 : isWordStart(text, substring) ? 300 : 100;
+    return { score: bonus + scoreIndexes(text, indexes), indexes };
+  }
+  const candidates = [findIndexes(needle, text, true), findIndexes(needle, text, false)].filter(
+    (indexes): indexes is number[] => indexes !== null
+  );
+  if (!candidates.length) return null;
+  return candidates
+    .map((indexes) => ({ score: scoreIndexes(text, indexes), indexes }))
+    .reduce((best, match) => (match.score > best.score ? match : best));
+};
+
+// Best matches first; an exact ISO code ranks just below an exact name
+export const searchCountries = (query: string, entries: CountrySearchEntry[], limit = 8): CountrySearchResult[] => {
+  const code = query.trim().toUpperCase();
+  return entries
+    .flatMap((entry) => {
+      if (code && entry.code === code) return [{ ...entry, score: 900, indexes: [] }];
+      const match = fuzzyMatch(query, entry.name);
+      return match ? [{ ...entry, ...match }] : [];
+    })
+    .sort((a, b) => b.score - a.score || a.name.length - b.name.length || a.name.localeCompare(b.name))
+    .slice(0, limit);
+};
+
+// The countries the arrow keys step through from `country`: the country and its
+// neighbours, or every country held by any of its owners. Empty when there is nothing to step to.
+export const getCountryCycle = (
+  country: string,
+  mode: CountryCycleMode,
+  neighbours: string[],
+  ownership: Record<string, string[]>
+) => {
+  if (mode === "neighbours") {
+    return neighbours.length ? [country, ...[...neighbours].sort((a, b) => a.localeCompare(b))] : [];
+  }
+  const owners = ownership[country] ?? [];
+  if (!owners.length) return [];
+  const owned = Object.keys(ownership)
+    .filter((name) => ownership[name].some((id) => owners.includes(id)))
+    .sort((a, b) => a.localeCompare(b));
+  return owned.length > 1 ? owned : [];
+};
+
+// ────────────────────────────────────────────────────────────────────────────
+// Country lists
+// ────────────────────────────────────────────────────────────────────────────
+
+// Common names and abbreviations for countries the bundled map names differently.
+// Keys are compared ignoring case, accents, spaces and punctuation.
+export const COUNTRY_ALIASES: Record<string, string> = {
+  "US": "United States of America",
+  "U.S.A.": "United States of America",
+  "United States": "United States of America",
+  "America": "United States of America",
+  "UK": "United Kingdom",
+  "Great Britain": "United Kingdom",
+  "Britain": "United Kingdom",
+  "England": "United Kingdom",
+  "Scotland": "United Kingdom",
+  "Wales": "United Kingdom",
+  "Viet Nam": "Vietnam",
+  "Russian Federation": "Russia",
+  "Republic of Korea": "South Korea",
+  "ROK": "South Korea",
+  "Democratic People's Republic of Korea": "North Korea",
+  "DPRK": "North Korea",
+  "PRC": "China",
+  "People's Republic of China": "China",
+  "Republic of China": "Taiwan",
+  "Czechia": "Czech Republic",
+  "Côte d'Ivoire": "Ivory Coast",
+  "DRC": "Democratic Republic of the Congo",
+  "DR Congo": "Democratic Republic of the Congo",
+  "Congo-Kinshasa": "Democratic Republic of the Congo",
+  "Congo-Brazzaville": "Republic of the Congo",
+  "Tanzania": "United Republic of Tanzania",
+  "Serbia": "Republic of Serbia",
+  "North Macedonia": "Macedonia",
+  "Eswatini": "Swaziland",
+  "Timor-Leste": "East Timor",
+  "Bahamas": "The Bahamas",
+  "The Gambia": "Gambia",
+  "Burma": "Myanmar",
+  "Lao PDR": "Laos",
+  "Syrian Arab Republic": "Syria",
+  "Iran (Islamic Republic of)": "Iran",
+  "Persia": "Iran",
+  "Türkiye": "Turkey",
+  "Holland": "Netherlands",
+  "UAE": "United Arab Emirates",
+  "Palestine": "West Bank",
+  "Brunei Darussalam": "Brunei",
+  "Republic of Moldova": "Moldova",
+  "Kyrgyz Republic": "Kyrgyzstan",
+  "Slovak Republic": "Slovakia",
+  "Bolivia (Plurinational State of)": "Bolivia",
+  "Venezuela (Bolivarian Republic of)": "Venezuela",
+};
+
+// Matched entries name a country on the map; ambiguous ones have suggestions to choose
+// from; unknown ones resemble nothing on the map
+export type CountryListStatus = "matched" | "ambiguous" | "unknown";
+
+export type CountryListMatch = {
+  entry: string;
+  status: CountryListStatus;
+  // Set when matched
+  country: string | null;
+  suggestions: string[];
+};
+
+const MAX_SUGGESTIONS = 4;
+
+// "Guinea-Bissau" and "Guinea Bissau" compare equal
+const compact = (name: string) => fold(name).replace(/[^a-z0-9]/g, "");
+
+// Edits to turn one name into the other, counting a swap of neighbouring letters as one
+const editDistance = (a: string, b: string) => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+};
+
+export const parseCountryList = (text: string) =>
+  text
+    .split(/[,\n]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+// Checks each entry against the countries on the map by name, ISO code and alias, and
+// suggests near misses: misspellings by edit distance, partial names by fuzzy match
+export const matchCountryList = (entries: string[], countries: CountrySearchEntry[]): CountryListMatch[] => {
+  const byName = new Map(countries.map((country) => [compact(country.name), country.name]));
+  const byCode = new Map(countries.flatMap((country) => (country.code ? [[country.code, country.name] as const] : [])));
+  const aliases = new Map(Object.entries(COUNTRY_ALIASES).map(([alias, name]) => [compact(alias), name]));
+  return entries.map((entry) => {
+    const key = compact(entry);
+    const alias = aliases.get(key);
+    const country = byName.get(key) ?? byCode.get(entry.toUpperCase()) ?? (alias ? byName.get(compact(alias)) : undefined);
+    if (country) return { entry, status: "matched", country, suggestions: [] };
+    const maxDistance = Math.max(1, Math.floor(key.length / 4));
+    const close = countries
+      .map((candidate) => ({ name: candidate.name, distance: editDistance(key, compact(candidate.name)) }))
+      .filter((candidate) => candidate.distance <= maxDistance)
+      .sort((a, b) => a.distance - b.distance)
+      .map((candidate) => candidate.name);
+    // Letters scattered across a long name are not a suggestion
+    const fuzzy = searchCountries(entry, countries, MAX_SUGGESTIONS)
+      .filter((result) => result.score >= key.length * 2)
+      .map((result) => result.name);
+    const suggestions = Array.from(new Set([...close, ...fuzzy])).slice(0, MAX_SUGGESTIONS);
+    return { entry, status: suggestions.length ? "ambiguous" : "unknown", country: null, suggestions };
+  });
+};
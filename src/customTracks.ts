@@ -0,0 +1,69 @@
+import type { CustomTrack, TrackThreshold } from "./gameTypes";
+
+// Adjudicator-defined counters such as escalation or public opinion. Thresholds are
+// labelled values that raise an alert whenever the track moves across them.
+
+export const TRACK_NAME_SUGGESTIONS = ["Escalation level", "Global tension", "Economic index", "Public opinion"];
+
+export type ThresholdCrossing = { threshold: TrackThreshold; direction: "up" | "down" };
+
+export const clampTrackValue = (track: Pick<CustomTrack, "min" | "max">, value: number) =>
+  Math.max(track.min, Math.min(track.max, Math.round(value)));
+
+export const createCustomTrack = (
+  id: string,
+  name: string,
+  min: number,
+  max: number,
+  round: number,
+  options: Partial<Pick<CustomTrack, "color" | "value" | "thresholds" | "showOnHud">> = {}
+): CustomTrack => {
+  const low = Math.min(min, max);
+  const high = Math.max(min, max);
+  const value = clampTrackValue({ min: low, max: high }, options.value ?? low);
+  return {
+    id,
+    name,
+    color: options.color ?? "#38bdf8",
+    min: low,
+    max: high,
+    value,
+    thresholds: [...(options.thresholds ?? [])].sort((a, b) => a.value - b.value),
+    showOnHud: options.showOnHud ?? false,
+    history: { [round]: value },
+  };
+};
+
+// A threshold is reached going up when the value arrives at or above it, and left
+// going down when the value drops below it.
+export const getCrossedThresholds = (track: CustomTrack, from: number, to: number): ThresholdCrossing[] => {
+  if (to > from) {
+    return track.thresholds.filter((threshold) => from < threshold.value && to >= threshold.value).map((threshold) => ({ threshold, direction: "up" }));
+  }
+  if (to < from) {
+    return track.thresholds
+      .filter((threshold) => from >= threshold.value && to < threshold.value)
+      .reverse()
+      .map((threshold) => ({ threshold, direction: "down" }));
+  }
+  return [];
+};
+
+export const describeCrossing = (track: CustomTrack, { threshold, direction }: ThresholdCrossing) =>
+  direction === "up"
+    ? `${track.name} reached ${threshold.label} (${threshold.value})`
+    : `${track.name} fell below ${threshold.label} (${threshold.value})`;
+
+// One point per round up to `lastRound`; rounds where the track did not move repeat the previous value.
+export const getTrackSeries = (track: CustomTrack, lastRound: number) => {
+  const rounds = Object.keys(track.history).map(Number).filter(Number.isFinite);
+  const finalRound = Math.max(lastRound, ...rounds);
+  const firstRound = rounds.length ? Math.min(...rounds) : finalRound;
+  const series: { round: number; value: number }[] = [];
+  let value = track.history[firstRound] ?? track.value;
+  for (let round = firstRound; round <= finalRound; round += 1) {
+    value = track.history[round] ?? value;
+    series.push({ round, value });
+  }
+  return series;
+};
@@ -0,0 +1,212 @@
+// Dice expressions for adjudication: "2d6+3", "4d10kh2", "d20+5 >= 15". Every roll
+// is made from a numbered seed, so a contested result can be rolled again exactly.
+
+export type DiceMode = "normal" | "advantage" | "disadvantage";
+
+export type DiceComparison = ">=" | ">" | "<=" | "<" | "=";
+
+type KeepRule = { kind: "kh" | "kl" | "dh" | "dl"; count: number };
+
+type DiceTerm =
+  | { kind: "dice"; sign: 1 | -1; count: number; sides: number; keep: KeepRule | null }
+  | { kind: "constant"; sign: 1 | -1; value: number };
+
+export type DiceExpression = {
+  source: string;
+  terms: DiceTerm[];
+  target: { comparison: DiceComparison; value: number } | null;
+};
+
+export type DiceTermResult = {
+  label: string;
+  sign: 1 | -1;
+  // Every face rolled, and which of them count towards the total
+  rolls: { value: number; kept: boolean }[];
+  subtotal: number;
+};
+
+export type DiceRoll = {
+  expression: string;
+  mode: DiceMode;
+  seed: number;
+  total: number;
+  terms: DiceTermResult[];
+  target: { comparison: DiceComparison; value: number; success: boolean } | null;
+};
+
+// One line of the session's roll history, kept in memory rather than in saves
+export type DiceHistoryEntry = {
+  id: string;
+  roll: DiceRoll;
+  // Player or actor who asked for the roll; null for the adjudicator
+  rollerId: string | null;
+  rollerName: string;
+  round: number;
+};
+
+export type DiceParseResult = { ok: true; expression: DiceExpression } | { ok: false; error: string };
+
+export const DICE_MODE_LABELS: Record<DiceMode, string> = {
+  normal: "Normal",
+  advantage: "Advantage",
+  disadvantage: "Disadvantage",
+};
+
+const MAX_DICE = 100;
+const MAX_SIDES = 1000;
+
+// ────────────────────────────────────────────────────────────────────────────
+// Seeded random numbers
+// ────────────────────────────────────────────────────────────────────────────
+
+// mulberry32: small, fast and plenty for dice; the same seed always gives the same sequence
+export const createRng = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 4294967296);
+
+// Seeds typed by the adjudicator: a whole number from 0 to 4294967295
+export const parseSeed = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  const seed = Number(trimmed);
+  return seed <= 0xffffffff ? seed : null;
+};
+
+export const rollFace = (random: () => number, sides: number) => Math.floor(random() * sides) + 1;
+
+// ────────────────────────────────────────────────────────────────────────────
+// Parsing
+// ────────────────────────────────────────────────────────────────────────────
+
+const TERM_PATTERN = /^(\d*)d(\d+|%)(?:(kh|kl|dh|dl)(\d*))?$/i;
+const TARGET_PATTERN = /(>=|<=|>|<|=)\s*(-?\d+)\s*$/;
+
+export const parseDiceExpression = (source: string): DiceParseResult => {
+  let text = source.trim().toLowerCase();
+  if (!text) return { ok: false, error: "Enter a dice expression such as 2d6+3." };
+  let target: DiceExpression["target"] = null;
+  const targetMatch = text.match(TARGET_PATTERN);
+  if (targetMatch) {
+    target = { comparison: targetMatch[1] as DiceComparison, value: Number(targetMatch[2]) };
+    text = text.slice(0, targetMatch.index).trim();
+  }
+  // "adv" and "dis" are shorthand for a d20 rolled twice
+  text = text.replace(/\badv\b/g, "2d20kh1").replace(/\bdis\b/g, "2d20kl1").replace(/\s+/g, "");
+  if (!text) return { ok: false, error: "The expression needs at least one die or number before the target." };
+
+  const terms: DiceTerm[] = [];
+  const parts = text.match(/[+-]?[^+-]+/g) ?? [];
+  if (parts.join("") !== text) return { ok: false, error: `"${source}" is not a dice expression.` };
+  for (const part of parts) {
+    const sign: 1 | -1 = part.startsWith("-") ? -1 : 1;
+    const body = part.replace(/^[+-]/, "");
+    if (/^\d+$/.test(body)) {
+      terms.push({ kind: "constant", sign, value: Number(body) });
+      continue;
+    }
+    const match = body.match(TERM_PATTERN);
+    if (!match) return { ok: false, error: `"${body}" is not a die or a number. Try forms like 2d6, d20 or 4d10kh2.` };
+    const count = match[1] ? Number(match[1]) : 1;
+    const sides = match[2] === "%" ? 100 : Number(match[2]);
+    if (count < 1 || count > MAX_DICE) return { ok: false, error: `Roll between 1 and ${MAX_DICE} dice at a time.` };
+    if (sides < 1 || sides > MAX_SIDES) return { ok: false, error: `Dice need between 1 and ${MAX_SIDES} sides.` };
+    let keep: KeepRule | null = null;
+    if (match[3]) {
+      keep = { kind: match[3] as KeepRule["kind"], count: match[4] ? Number(match[4]) : 1 };
+      if (keep.count > count) return { ok: false, error: `${body} keeps or drops more dice than it rolls.` };
+    }
+    terms.push({ kind: "dice", sign, count, sides, keep });
+  }
+  return { ok: true, expression: { source: source.trim(), terms, target } };
+};
+
+// ────────────────────────────────────────────────────────────────────────────
+// Rolling
+// ────────────────────────────────────────────────────────────────────────────
+
+const keptIndexes = (values: number[], keep: KeepRule | null) => {
+  const all = values.map((_, index) => index);
+  if (!keep) return new Set(all);
+  // Ties go to the die rolled first
+  const ascending = [...all].sort((a, b) => values[a] - values[b] || a - b);
+  const highest = [...all].sort((a, b) => values[b] - values[a] || a - b);
+  if (keep.kind === "kh") return new Set(highest.slice(0, keep.count));
+  if (keep.kind === "kl") return new Set(ascending.slice(0, keep.count));
+  if (keep.kind === "dh") return new Set(highest.slice(keep.count));
+  return new Set(ascending.slice(keep.count));
+};
+
+const termLabel = (term: DiceTerm) =>
+  term.kind === "constant"
+    ? String(term.value)
+    : `${term.count}d${term.sides}${term.keep ? `${term.keep.kind}${term.keep.count}` : ""}`;
+
+// Advantage and disadvantage roll the first single die twice and keep the better or worse
+const applyMode = (terms: DiceTerm[], mode: DiceMode): DiceTerm[] => {
+  if (mode === "normal") return terms;
+  const index = terms.findIndex((term) => term.kind === "dice" && term.count === 1 && !term.keep);
+  if (index === -1) return terms;
+  const kind = mode === "advantage" ? "kh" : "kl";
+  return terms.map((term, i) => (i === index && term.kind === "dice" ? { ...term, count: 2, keep: { kind, count: 1 } } : term));
+};
+
+const compare = (total: number, comparison: DiceComparison, value: number) => {
+  if (comparison === ">=") return total >= value;
+  if (comparison === ">") return total > value;
+  if (comparison === "<=") return total <= value;
+  if (comparison === "<") return total < value;
+  return total === value;
+};
+
+export const rollDiceExpression = (
+  expression: DiceExpression,
+  seed: number,
+  mode: DiceMode = "normal",
+  target: DiceExpression["target"] = expression.target
+): DiceRoll => {
+  const random = createRng(seed);
+  const terms = applyMode(expression.terms, mode).map((term): DiceTermResult => {
+    if (term.kind === "constant") {
+      return { label: termLabel(term), sign: term.sign, rolls: [], subtotal: term.value };
+    }
+    const values = Array.from({ length: term.count }, () => rollFace(random, term.sides));
+    const kept = keptIndexes(values, term.keep);
+    return {
+      label: termLabel(term),
+      sign: term.sign,
+      rolls: values.map((value, index) => ({ value, kept: kept.has(index) })),
+      subtotal: values.reduce((sum, value, index) => (kept.has(index) ? sum + value : sum), 0),
+    };
+  });
+  const total = terms.reduce((sum, term) => sum + term.sign * term.subtotal, 0);
+  return {
+    expression: expression.source,
+    mode,
+    seed,
+    total,
+    terms,
+    target: target ? { ...target, success: compare(total, target.comparison, target.value) } : null,
+  };
+};
+
+// "2d6 [4, 2] + 3 = 9", with dropped dice struck through as ~n~
+export const describeDiceRoll = (roll: DiceRoll) => {
+  const parts = roll.terms.map((term, index) => {
+    const sign = term.sign < 0 ? "- " : index > 0 ? "+ " : "";
+    const faces = term.rolls.length
+      ? ` [${term.rolls.map((face) => (face.kept ? String(face.value) : `~${face.value}~`)).join(", ")}]`
+      : "";
+    return `${sign}${term.label}${faces}`;
+  });
+  const target = roll.target ? ` vs ${roll.target.comparison} ${roll.target.value}: ${roll.target.success ? "success" : "failure"}` : "";
+  return `${parts.join(" ")} = ${roll.total}${target}`;
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { withEventLog } from "./eventLog";
+import { gameReducer } from "./gameState";
+import type { GameAction, GameState } from "./gameState";
+import { createTestGame, playWith } from "./testGame";
+
+const reducer = withEventLog(gameReducer);
+
+const play = (state: GameState, ...actions: GameAction[]) => playWith(reducer, state, ...actions);
+
+const setup = () => createTestGame(reducer);
+
+// What the actions after the setup wrote to the log
+const messages = (state: GameState) => state.eventLog.slice(setup().eventLog.length).map((event) => event.message);
+
+describe("withEventLog", () => {
+  it("appends an event for every allowance change and keeps the earlier ones", () => {
+    const state = play(
+      setup(),
+      { type: "setAllowance", pool: "player", id: "p1", allowance: 1 },
+      { type: "setAllowance", pool: "player", id: "p1", allowance: 12 },
+      { type: "setAllowance", pool: "country", id: "France", allowance: 4, reason: "Treaty bonus" }
+    );
+    expect(messages(state)).toEqual([
+      "Set Blue token allowance to 1",
+      "Set Blue token allowance to 12",
+      "Set France token allowance to 4",
+    ]);
+  });
+
+  it("writes nothing when the action changes nothing", () => {
+    const state = setup();
+    expect(play(state, { type: "adjustTokens", pool: "player", id: "p1", delta: 1 })).toBe(state);
+  });
+});
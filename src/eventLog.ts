@@ -0,0 +1,557 @@
+import { getLapsingAgreements } from "./agreements";
+import { findCountryRenames } from "./countryCodes";
+import { clampTrackValue, describeCrossing, getCrossedThresholds } from "./customTracks";
+import { findActor, gameReducer, getEffectActions, getParticipantPool, getTransferAmount } from "./gameState";
+import { ANNOTATION_KIND_LABELS } from "./annotations";
+import { UNIT_KIND_LABELS, clampStrength, isSamePosition } from "./mapUnits";
+import { INFECTION_STATUS_LABELS } from "./pandemic";
+import { clampStance, getStance, getStanceInfo } from "./relationships";
+import type { GameAction, GameState, TokenPoolKind } from "./gameState";
+import type { ActionRoll, AdjudicationEffect, Agreement, LatLng, MapUnit, QueuedAction } from "./gameTypes";
+
+export type GameEventType =
+  | "ownership"
+  | "tokens"
+  | "dice"
+  | "outbreak"
+  | "interest"
+  | "phase"
+  | "round"
+  | "vaccine"
+  | "track"
+  | "adjudication"
+  | "agreement"
+  | "relationship"
+  | "unit"
+  | "annotation"
+  | "setup"
+  | "fog"
+  | "history";
+
+export const GAME_EVENT_TYPE_LABELS: Record<GameEventType, string> = {
+  ownership: "Ownership",
+  tokens: "Tokens",
+  dice: "Dice",
+  outbreak: "Outbreak",
+  interest: "National interest",
+  phase: "Phase",
+  round: "Round",
+  vaccine: "Vaccine",
+  track: "Tracks",
+  adjudication: "Adjudication",
+  agreement: "Agreements",
+  relationship: "Relations",
+  unit: "Units",
+  annotation: "Annotations",
+  setup: "Setup",
+  fog: "Fog of war",
+  history: "Undo / redo",
+};
+
+// Taken when a round closes so reports can show standings round by round.
+export type RoundStandings = {
+  nationalInterests: Record<string, number>;
+  vaccineProgress: number;
+};
+
+export type GameEvent = {
+  id: string;
+  type: GameEventType;
+  message: string;
+  round: number;
+  phase: string;
+  gameDate: string; // ISO timestamp of the in-game date
+  at: string; // ISO wall-clock timestamp
+  playerIds: string[];
+  countries: string[];
+  subject?: string; // display name of the token pool or participant involved
+  amount?: number; // signed token change, or the value rolled
+  standings?: RoundStandings;
+};
+
+// What a caller knows about an event before it is stamped with time and turn.
+export type GameEventDraft = Pick<GameEvent, "type" | "message"> &
+  Partial<Pick<GameEvent, "playerIds" | "countries" | "subject" | "amount" | "standings">>;
+
+export type GameEventFilter = {
+  playerId: string;
+  country: string;
+  round: number | null;
+  type: GameEventType | "";
+};
+
+export const EMPTY_EVENT_FILTER: GameEventFilter = { playerId: "", country: "", round: null, type: "" };
+
+export const stampEvents = (state: GameState, drafts: GameEventDraft[], at: Date = new Date()): GameEvent[] =>
+  drafts.map((draft) => ({
+    id: `event-${at.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+    round: state.roundNumber,
+    phase: state.scenario.phases[state.phaseIndex]?.name ?? "",
+    gameDate: state.gameDate,
+    at: at.toISOString(),
+    playerIds: [],
+    countries: [],
+    ...draft,
+  }));
+
+export const filterEvents = (events: GameEvent[], filter: GameEventFilter) =>
+  events.filter(
+    (event) =>
+      (!filter.playerId || event.playerIds.includes(filter.playerId)) &&
+      (!filter.country || event.countries.includes(filter.country)) &&
+      (filter.round === null || event.round === filter.round) &&
+      (!filter.type || event.type === filter.type)
+  );
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+const playerName = (state: GameState, playerId: string) =>
+  state.players.find((player) => player.id === playerId)?.name ?? playerId;
+
+const participantName = (state: GameState, id: string) =>
+  state.players.find((player) => player.id === id)?.name ??
+  findActor(state, id)?.name ??
+  state.externalOrganizations.find((org) => org.id === id)?.name ??
+  id;
+
+const describeTokenPool = (state: GameState, pool: TokenPoolKind, id: string): Pick<GameEventDraft, "playerIds" | "countries"> & { name: string } => {
+  if (pool === "player") return { name: playerName(state, id), playerIds: [id] };
+  if (pool === "country") return { name: id, countries: [id], playerIds: state.ownership[id] ?? [] };
+  const country = Object.entries(state.countryActors).find(([, actors]) => actors.some((actor) => actor.id === id))?.[0];
+  return { name: findActor(state, id)?.name ?? id, countries: country ? [country] : [] };
+};
+
+const formatPosition = ({ lat, lng }: LatLng) => `${lat.toFixed(1)}, ${lng.toFixed(1)}`;
+
+const fogEvent = (state: GameState, playerId: string | null, message: string, countries: string[] = []): GameEventDraft => ({
+  type: "fog",
+  message: `${message} for ${playerId ? playerName(state, playerId) : "all players"}`,
+  playerIds: playerId ? [playerId] : [],
+  countries,
+});
+
+const describeActionRoll = (roll: ActionRoll) =>
+  `${roll.expression} rolled ${roll.total}${roll.success === null ? "" : roll.success ? ", success" : ", failure"} (seed ${roll.seed})`;
+
+const adjudicationEvent = (state: GameState, queued: QueuedAction, message: string): GameEventDraft => {
+  const isPlayer = state.players.some((player) => player.id === queued.participantId);
+  return {
+    type: "adjudication",
+    message,
+    subject: participantName(state, queued.participantId),
+    playerIds: isPlayer ? [queued.participantId] : [],
+    countries: queued.targetCountry ? [queued.targetCountry] : [],
+  };
+};
+
+// Each effect is described against the state the earlier effects left behind
+const describeEffects = (state: GameState, effects: AdjudicationEffect[]): GameEventDraft[] => {
+  let current = state;
+  const events: GameEventDraft[] = [];
+  effects.forEach((effect) =>
+    getEffectActions(current, effect).forEach((step) => {
+      events.push(...describeAction(current, step));
+      current = gameReducer(current, step);
+    })
+  );
+  return events;
+};
+
+const listNames = (names: string[]) =>
+  names.length > 1 ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}` : names[0] ?? "no one";
+
+// "Chad", or "3 countries (Chad, Niger and Mali)" for a batch
+const describeCountries = (countries: string[]) =>
+  countries.length === 1 ? countries[0] : `${countries.length} countries (${listNames(countries)})`;
+
+const agreementEvent = (state: GameState, agreement: Agreement, message: string): GameEventDraft => ({
+  type: "agreement",
+  message,
+  subject: agreement.title,
+  playerIds: agreement.parties.filter((id) => state.players.some((player) => player.id === id)),
+});
+
+const unitEvent = (state: GameState, units: MapUnit[], message: string): GameEventDraft => ({
+  type: "unit",
+  message,
+  subject: units.length === 1 ? units[0].label : undefined,
+  playerIds: Array.from(new Set(units.map((unit) => unit.ownerId))).filter((id) => state.players.some((player) => player.id === id)),
+});
+
+const describeUnit = (state: GameState, unit: MapUnit) => `${participantName(state, unit.ownerId)}'s ${unit.label}`;
+
+// Agreements whose term runs out as the round closes
+const expiryEvents = (state: GameState): GameEventDraft[] =>
+  getLapsingAgreements(state.agreements, state.roundNumber + 1).map((agreement) =>
+    agreementEvent(state, agreement, `${agreement.title} expired after ${plural(agreement.durationRounds ?? 0, "round")}`)
+  );
+
+const roundClosed = (state: GameState): GameEventDraft => ({
+  type: "round",
+  message: `Advanced to round ${state.roundNumber + 1}`,
+  standings: { nationalInterests: { ...state.nationalInterests }, vaccineProgress: state.vaccineProgress },
+});
+
+// Spread only lands on countries that were still healthy
+const spreadEvents = (state: GameState, infections: string[] = []): GameEventDraft[] => {
+  const reached = state.pandemic.enabled ? infections.filter((country) => !state.pandemic.infections[country]) : [];
+  if (!reached.length) return [];
+  return [{
+    type: "outbreak",
+    message: `Infection spread to ${reached.join(", ")} in round ${state.roundNumber + 1}`,
+    countries: reached,
+    playerIds: Array.from(new Set(reached.flatMap((country) => state.ownership[country] ?? []))),
+  }];
+};
+
+// Events for a reducer action, described against the state *before* it is applied.
+// Cosmetic edits (renames, notes, positions) are not logged.
+export const describeAction = (state: GameState, action: GameAction): GameEventDraft[] => {
+  switch (action.type) {
+    case "addPlayer":
+      return [{ type: "setup", message: `Added ${action.player.name}`, playerIds: [action.player.id] }];
+    case "removePlayer":
+      return [{ type: "setup", message: `Removed ${playerName(state, action.playerId)}`, playerIds: [action.playerId] }];
+    case "assignCountries": {
+      const added = action.countries.filter((country) => country && !(state.ownership[country] ?? []).includes(action.playerId));
+      if (!added.length) return [];
+      const target = playerName(state, action.playerId);
+      const message = added.length === 1
+        ? `Assigned ${added[0]} to ${target}`
+        : `Assigned ${plural(added.length, "country")} to ${target}: ${added.join(", ")}`;
+      return [{ type: "ownership", message, playerIds: [action.playerId], countries: added }];
+    }
+    case "removeOwner":
+      if (!(state.ownership[action.country] ?? []).includes(action.playerId)) return [];
+      return [{
+        type: "ownership",
+        message: `Removed ${playerName(state, action.playerId)} from ${action.country}`,
+        playerIds: [action.playerId],
+        countries: [action.country],
+      }];
+    case "clearOwners": {
+      const cleared = action.countries.filter((country) => state.ownership[country]);
+      if (!cleared.length) return [];
+      return [{
+        type: "ownership",
+        message: `Cleared owners of ${describeCountries(cleared)}`,
+        playerIds: Array.from(new Set(cleared.flatMap((country) => state.ownership[country]))),
+        countries: cleared,
+      }];
+    }
+    case "adjustTokens": {
+      const pools = action.pool === "player" ? state.playerTokens : action.pool === "country" ? state.countryTokens : state.actorTokens;
+      const pool = pools[action.id];
+      if (!pool) return [];
+      const next = Math.max(0, Math.min(pool.allowance, pool.available + action.delta));
+      const change = next - pool.available;
+      if (!change) return [];
+      const { name, ...refs } = describeTokenPool(state, action.pool, action.id);
+      const message = change < 0
+        ? `${name} spent ${plural(-change, "token")} (${next}/${pool.allowance} left)`
+        : `Refunded ${plural(change, "token")} to ${name} (${next}/${pool.allowance})`;
+      return [{ type: "tokens", message, subject: name, amount: change, ...refs }];
+    }
+    case "setAllowance": {
+      const { name, ...refs } = describeTokenPool(state, action.pool, action.id);
+      return [{ type: "tokens", message: `Set ${name} token allowance to ${action.allowance}`, ...refs }];
+    }
+    case "setCountryAllowances":
+      if (!action.countries.length) return [];
+      return [{
+        type: "tokens",
+        message: `Set the token allowance of ${describeCountries(action.countries)} to ${action.allowance}`,
+        countries: action.countries,
+      }];
+    case "transferTokens": {
+      const amount = getTransferAmount(state, action.from, action.to, action.amount);
+      if (!amount) return [];
+      const source = describeTokenPool(state, action.from.pool, action.from.id);
+      const target = describeTokenPool(state, action.to.pool, action.to.id);
+      const reason = action.reason?.trim();
+      return [{
+        type: "tokens",
+        message: `${source.name} transferred ${plural(amount, "token")} to ${target.name}${reason ? `: ${reason}` : ""}`,
+        subject: source.name,
+        amount: -amount,
+        playerIds: Array.from(new Set([...(source.playerIds ?? []), ...(target.playerIds ?? [])])),
+        countries: Array.from(new Set([...(source.countries ?? []), ...(target.countries ?? [])])),
+      }];
+    }
+    case "replenishTokens":
+      return [{ type: "tokens", message: "Replenished all token pools" }];
+    case "adjustNationalInterest": {
+      const current = state.nationalInterests[action.participantId] ?? 0;
+      const next = Math.max(0, Math.min(Math.max(1, state.interestLevelCount), current + action.delta));
+      if (next === current) return [];
+      const isPlayer = state.players.some((player) => player.id === action.participantId);
+      const subject = participantName(state, action.participantId);
+      return [{
+        type: "interest",
+        message: `${subject} moved from level ${current} to ${next}`,
+        subject,
+        playerIds: isPlayer ? [action.participantId] : [],
+      }];
+    }
+    case "setOutbreak":
+      if (!action.location) return [{ type: "outbreak", message: "Cleared the initial outbreak" }];
+      return [{
+        type: "outbreak",
+        message: action.roll !== null
+          ? `Initial outbreak rolled in ${action.location} (roll ${action.roll}${action.seed !== undefined ? `, seed ${action.seed}` : ""})`
+          : `Initial outbreak set to ${action.location}`,
+        countries: [action.location],
+        ...(action.roll !== null ? { amount: action.roll } : {}),
+      }];
+    case "adjustVaccineProgress":
+      return [{ type: "vaccine", message: `Vaccine progress ${action.delta > 0 ? "+" : ""}${action.delta}` }];
+    case "addTrack":
+      return [{ type: "setup", message: `Added track ${action.track.name}` }];
+    case "removeTrack": {
+      const track = state.tracks.find((item) => item.id === action.trackId);
+      return track ? [{ type: "setup", message: `Removed track ${track.name}` }] : [];
+    }
+    case "setTrackValue": {
+      const track = state.tracks.find((item) => item.id === action.trackId);
+      if (!track) return [];
+      const next = clampTrackValue(track, action.value);
+      if (next === track.value) return [];
+      return [
+        { type: "track", message: `${track.name} moved from ${track.value} to ${next}`, subject: track.name, amount: next - track.value },
+        ...getCrossedThresholds(track, track.value, next).map((crossing): GameEventDraft => ({
+          type: "track",
+          message: describeCrossing(track, crossing),
+          subject: track.name,
+        })),
+      ];
+    }
+    case "setPandemicSettings": {
+      const events: GameEventDraft[] = [];
+      if (action.enabled !== undefined && action.enabled !== state.pandemic.enabled) {
+        events.push({ type: "outbreak", message: action.enabled ? "Turned the spread model on" : "Turned the spread model off" });
+      }
+      if (action.transmissionRate !== undefined && action.transmissionRate !== state.pandemic.transmissionRate) {
+        events.push({ type: "outbreak", message: `Set transmission rate to ${Math.round(action.transmissionRate * 100)}%` });
+      }
+      return events;
+    }
+    case "setCountryTransmissionRate":
+      return [{
+        type: "outbreak",
+        message: action.rate === null
+          ? `${action.country} transmission rate back to the default`
+          : `Set ${action.country} transmission rate to ${Math.round(action.rate * 100)}%`,
+        countries: [action.country],
+      }];
+    case "setInfectionStatus":
+      return [{
+        type: "outbreak",
+        message: `Marked ${action.country} as ${INFECTION_STATUS_LABELS[action.status ?? "healthy"].toLowerCase()}`,
+        countries: [action.country],
+        playerIds: state.ownership[action.country] ?? [],
+      }];
+    case "addSeaLink":
+      return [{ type: "setup", message: `Added sea link ${action.countries.join(" – ")}`, countries: [...action.countries] }];
+    case "removeSeaLink":
+      return [{ type: "setup", message: `Removed sea link ${action.countries.join(" – ")}`, countries: [...action.countries] }];
+    case "saveCountryGroup": {
+      const name = action.name.trim();
+      const countries = Array.from(new Set(action.countries));
+      if (!name || !countries.length) return [];
+      const verb = state.scenario.countryGroups[name] ? "Updated" : "Saved";
+      return [{ type: "setup", message: `${verb} country group "${name}" with ${describeCountries(countries)}`, countries }];
+    }
+    case "reconcileCountries": {
+      const renames = Object.entries(findCountryRenames(state, action.countries, action.knownCodes));
+      if (!renames.length) return [];
+      return [{
+        type: "setup",
+        message: `Matched the loaded map by country code: ${renames.map(([from, to]) => `${from} is now ${to}`).join(", ")}`,
+        countries: renames.map(([, to]) => to),
+      }];
+    }
+    case "resetPandemic":
+      return [{ type: "outbreak", message: "Reset the spread model" }];
+    case "queueAction": {
+      const queued = action.action;
+      const subject = participantName(state, queued.participantId);
+      const source = getParticipantPool(state, queued.participantId);
+      return [
+        adjudicationEvent(
+          state,
+          queued,
+          `${subject} submitted an action${queued.targetCountry ? ` on ${queued.targetCountry}` : ""}: ${queued.description}`
+        ),
+        ...(source && queued.tokensCommitted > 0
+          ? describeAction(state, { type: "adjustTokens", ...source, delta: -queued.tokensCommitted })
+          : []),
+      ];
+    }
+    case "withdrawAction": {
+      const queued = state.actionQueue.find((item) => item.id === action.actionId);
+      if (!queued || queued.resolution) return [];
+      const source = getParticipantPool(state, queued.participantId);
+      return [
+        adjudicationEvent(state, queued, `Withdrew ${participantName(state, queued.participantId)}'s action: ${queued.description}`),
+        ...(source && queued.tokensCommitted > 0
+          ? describeAction(state, { type: "adjustTokens", ...source, delta: queued.tokensCommitted })
+          : []),
+      ];
+    }
+    case "resolveAction": {
+      const queued = state.actionQueue.find((item) => item.id === action.actionId);
+      if (!queued || queued.resolution) return [];
+      const { roll, outcome, effects } = action.resolution;
+      const ruling = roll ? `: ${describeActionRoll(roll)}` : " by ruling";
+      return [
+        {
+          ...adjudicationEvent(
+            state,
+            queued,
+            `Resolved ${participantName(state, queued.participantId)}'s action (${queued.description})${ruling}${outcome ? ` — ${outcome}` : ""}`
+          ),
+          ...(roll ? { amount: roll.total } : {}),
+        },
+        ...describeEffects(state, effects),
+      ];
+    }
+    case "addAgreement": {
+      const { agreement } = action;
+      const parties = listNames(agreement.parties.map((id) => participantName(state, id)));
+      return [agreementEvent(state, agreement, `Proposed ${agreement.title} between ${parties}`)];
+    }
+    case "setAgreementStatus": {
+      const agreement = state.agreements.find((item) => item.id === action.agreementId);
+      if (!agreement || agreement.status === action.status) return [];
+      const parties = listNames(agreement.parties.map((id) => participantName(state, id)));
+      const term = agreement.durationRounds === null ? "open-ended" : `for ${plural(agreement.durationRounds, "round")}`;
+      const messages: Record<typeof action.status, string> = {
+        proposed: `${agreement.title} went back to a proposal`,
+        signed: `${parties} signed ${agreement.title} (${term})`,
+        broken: `${agreement.title} was broken`,
+        expired: `${agreement.title} was ended`,
+      };
+      return [agreementEvent(state, agreement, messages[action.status])];
+    }
+    case "removeAgreement": {
+      const agreement = state.agreements.find((item) => item.id === action.agreementId);
+      return agreement ? [agreementEvent(state, agreement, `Deleted agreement ${agreement.title}`)] : [];
+    }
+    case "addUnit": {
+      const { unit } = action;
+      if (state.units.some((existing) => existing.id === unit.id)) return [];
+      return [unitEvent(state, [unit], `Placed ${describeUnit(state, unit)} (${UNIT_KIND_LABELS[unit.kind].toLowerCase()}, strength ${unit.strength})`)];
+    }
+    case "updateUnit": {
+      const unit = state.units.find((existing) => existing.id === action.unitId);
+      if (!unit) return [];
+      const { strength, ownerId } = action.updates;
+      if (ownerId !== undefined && ownerId !== unit.ownerId) {
+        return [unitEvent(state, [{ ...unit, ownerId }], `${describeUnit(state, unit)} passed to ${participantName(state, ownerId)}`)];
+      }
+      const next = strength === undefined ? unit.strength : clampStrength(strength);
+      if (next !== unit.strength) {
+        return [{ ...unitEvent(state, [unit], `${describeUnit(state, unit)} strength ${unit.strength} → ${next}`), amount: next - unit.strength }];
+      }
+      return [];
+    }
+    case "moveUnits": {
+      const moved = state.units.filter((unit) => action.unitIds.includes(unit.id) && !isSamePosition(unit.position, action.position));
+      if (!moved.length) return [];
+      return [unitEvent(state, moved, `Moved ${listNames(moved.map((unit) => describeUnit(state, unit)))} to ${formatPosition(action.position)}`)];
+    }
+    case "removeUnit": {
+      const unit = state.units.find((existing) => existing.id === action.unitId);
+      return unit ? [unitEvent(state, [unit], `Removed ${describeUnit(state, unit)}`)] : [];
+    }
+    case "addAnnotation": {
+      const { annotation } = action;
+      const owner = annotation.ownerId ? ` for ${participantName(state, annotation.ownerId)}` : "";
+      const text = annotation.kind === "text" ? ` "${annotation.text}"` : "";
+      return [{
+        type: "annotation",
+        message: `Drew ${ANNOTATION_KIND_LABELS[annotation.kind].toLowerCase()}${text}${owner}${annotation.round === null ? "" : ` for round ${annotation.round}`}`,
+        playerIds: annotation.ownerId && state.players.some((player) => player.id === annotation.ownerId) ? [annotation.ownerId] : [],
+      }];
+    }
+    case "removeAnnotation": {
+      const annotation = state.annotations.find((item) => item.id === action.annotationId);
+      return annotation ? [{ type: "annotation", message: `Erased ${ANNOTATION_KIND_LABELS[annotation.kind].toLowerCase()}` }] : [];
+    }
+    case "clearAnnotations":
+      return state.annotations.length ? [{ type: "annotation", message: `Erased ${plural(state.annotations.length, "annotation")}` }] : [];
+    case "setRelationship": {
+      const [a, b] = action.participantIds;
+      const current = getStance(state.relationships, a, b);
+      const next = clampStance(action.stance);
+      if (a === b || next === current) return [];
+      const isPlayer = (id: string) => state.players.some((player) => player.id === id);
+      return [{
+        type: "relationship",
+        message: `${participantName(state, a)} and ${participantName(state, b)} are now ${getStanceInfo(next).label.toLowerCase()} (were ${getStanceInfo(current).label.toLowerCase()})`,
+        playerIds: [a, b].filter(isPlayer),
+        amount: next - current,
+      }];
+    }
+    case "advanceTime":
+      return [roundClosed(state), ...spreadEvents(state, action.infections), ...expiryEvents(state)];
+    case "rewindTime":
+      if (state.roundNumber <= 1) return [];
+      return [{ type: "round", message: `Rewound to round ${state.roundNumber - 1}` }];
+    case "nextPhase": {
+      const phases = state.scenario.phases;
+      const next = (state.phaseIndex + 1) % phases.length;
+      const events: GameEventDraft[] = [{ type: "phase", message: `${phases[state.phaseIndex]?.name} → ${phases[next].name}` }];
+      if (next === 0) events.push(roundClosed(state), ...spreadEvents(state, action.infections), ...expiryEvents(state));
+      return events;
+    }
+    case "prevPhase": {
+      const phases = state.scenario.phases;
+      const previous = (state.phaseIndex - 1 + phases.length) % phases.length;
+      const events: GameEventDraft[] = [{ type: "phase", message: `${phases[state.phaseIndex]?.name} → ${phases[previous].name} (back)` }];
+      if (state.phaseIndex === 0 && state.roundNumber > 1) {
+        events.push({ type: "round", message: `Rewound to round ${state.roundNumber - 1}` });
+      }
+      return events;
+    }
+    case "setStartDate":
+      return [{ type: "round", message: `Start date set to ${action.date}; round reset to 1` }];
+    case "revealArea":
+      return [fogEvent(state, action.playerId, `Revealed area at ${formatPosition(action.position)}`)];
+    case "refogArea":
+      return [fogEvent(state, action.playerId, `Re-fogged within ${action.radiusKm} km of ${formatPosition(action.position)}`)];
+    case "revealCountries":
+      if (!action.countries.length) return [];
+      return [fogEvent(state, action.playerId, `Revealed ${describeCountries(action.countries)}`, action.countries)];
+    case "refogCountries":
+      if (!action.countries.length) return [];
+      return [fogEvent(state, action.playerId, `Re-fogged ${describeCountries(action.countries)}`, action.countries)];
+    case "resetFog":
+      return [fogEvent(state, action.playerId, "Reset fog of war")];
+    case "addLocalActor":
+      return [{ type: "setup", message: `Added local actor ${action.actor.name} in ${action.country}`, countries: [action.country] }];
+    case "removeLocalActor":
+      return [{
+        type: "setup",
+        message: `Removed local actor ${findActor(state, action.actorId)?.name ?? action.actorId} from ${action.country}`,
+        countries: [action.country],
+      }];
+    case "addOrganization":
+      return [{ type: "setup", message: `Added organization ${action.organization.name}` }];
+    case "removeOrganization":
+      return [{ type: "setup", message: `Removed organization ${participantName(state, action.organizationId)}` }];
+    default:
+      return [];
+  }
+};
+
+// Wraps the game reducer so every described action appends its events in the same update.
+export const withEventLog =
+  (reducer: (state: GameState, action: GameAction) => GameState) =>
+  (state: GameState, action: GameAction): GameState => {
+    const next = reducer(state, action);
+    if (next === state) return next;
+    const drafts = describeAction(state, action);
+    if (!drafts.length) return next;
+    return { ...next, eventLog: [...next.eventLog, ...stampEvents(state, drafts)] };
+  };
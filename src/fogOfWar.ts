@@ -0,0 +1,150 @@
+import L from "leaflet";
+import { distanceKm } from "./gameState";
+import type { GameState } from "./gameState";
+import type { LatLng } from "./gameTypes";
+
+export const DEFAULT_FOG_RADIUS_KM = 500;
+export const DEFAULT_FOG_OPACITY = 0.75;
+
+const KM_PER_DEGREE_LAT = 111.32;
+const FOG_COLOR = "2, 6, 23";
+// Fraction of the radius that is fully clear before the edge feathers back into fog
+const CLEAR_CORE = 0.75;
+
+export type FogScene = {
+  areas: LatLng[];
+  countries: L.Polygon[];
+  radiusKm: number;
+  opacity: number;
+};
+
+type RingTree = L.LatLng | RingTree[];
+
+// Polygon#getLatLngs nests rings one level deeper for each MultiPolygon part
+const collectRings = (tree: RingTree[], rings: L.LatLng[][]) => {
+  if (!tree.length) return rings;
+  if (tree[0] instanceof L.LatLng) {
+    rings.push(tree as L.LatLng[]);
+    return rings;
+  }
+  (tree as RingTree[][]).forEach((child) => collectRings(child, rings));
+  return rings;
+};
+
+export type FogVisibility = { areas: LatLng[]; countries: string[] };
+
+// What a player can see: their discoveries, revealed countries and their own territory.
+// Without a viewer (the adjudicator's view) this is everything any player can see.
+export const getFogVisibility = (
+  state: Pick<GameState, "players" | "ownership" | "discoveredAreas" | "revealedCountries">,
+  viewerId: string | null
+): FogVisibility => {
+  const ids = viewerId ? [viewerId] : state.players.map((player) => player.id);
+  const countries = new Set(ids.flatMap((id) => state.revealedCountries[id] ?? []));
+  Object.entries(state.ownership).forEach(([country, owners]) => {
+    if (owners.some((owner) => ids.includes(owner))) countries.add(country);
+  });
+  return { areas: ids.flatMap((id) => state.discoveredAreas[id] ?? []), countries: Array.from(countries) };
+};
+
+// Even-odd ray cast over every ring, matching how revealed countries are cut out of the fog
+const polygonContains = (polygon: L.Polygon, position: LatLng) => {
+  if (!polygon.getBounds().contains([position.lat, position.lng])) return false;
+  let inside = false;
+  collectRings(polygon.getLatLngs() as RingTree[], []).forEach((ring) => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i, i += 1) {
+      const a = ring[i];
+      const b = ring[j];
+      if (a.lat > position.lat !== b.lat > position.lat &&
+        position.lng < ((b.lng - a.lng) * (position.lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+        inside = !inside;
+      }
+    }
+  });
+  return inside;
+};
+
+export const isFogged = (
+  position: LatLng,
+  visibility: FogVisibility,
+  radiusKm: number,
+  countryLayers: Record<string, L.Polygon | undefined>
+) =>
+  !visibility.areas.some((area) => distanceKm(area, position) <= radiusKm) &&
+  !visibility.countries.some((country) => {
+    const layer = countryLayers[country];
+    return layer instanceof L.Polygon && polygonContains(layer, position);
+  });
+
+// Matches the canvas backing store to the map container, accounting for high-DPI screens.
+const fitCanvas = (canvas: HTMLCanvasElement, map: L.Map) => {
+  const size = map.getSize();
+  const ratio = window.devicePixelRatio || 1;
+  const width = Math.round(size.x * ratio);
+  const height = Math.round(size.y * ratio);
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  const context = canvas.getContext("2d");
+  context?.setTransform(ratio, 0, 0, ratio, 0, 0);
+  return { context, size };
+};
+
+export const clearFog = (canvas: HTMLCanvasElement) => {
+  canvas.style.transform = "";
+  canvas.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+};
+
+// Mirrors the CSS transform Leaflet applies to its panes during an animated zoom.
+export const transformFogForZoom = (canvas: HTMLCanvasElement, map: L.Map, center: L.LatLng, zoom: number) => {
+  const scale = map.getZoomScale(zoom);
+  const halfSize = map.getSize().divideBy(2);
+  const oldTopLeft = map.project(map.getCenter()).subtract(halfSize);
+  const newTopLeft = map.project(center, zoom).subtract(halfSize);
+  const offset = oldTopLeft.multiplyBy(scale).subtract(newTopLeft);
+  canvas.style.transformOrigin = "0 0";
+  canvas.style.transform = `translate(${offset.x}px, ${offset.y}px) scale(${scale})`;
+};
+
+// Darkens the whole view, then cuts feathered circles around each discovered
+// point and clears revealed countries outright.
+export const drawFog = (canvas: HTMLCanvasElement, map: L.Map, scene: FogScene) => {
+  const { context, size } = fitCanvas(canvas, map);
+  if (!context) return;
+  canvas.style.transform = "";
+  context.clearRect(0, 0, size.x, size.y);
+  context.globalCompositeOperation = "source-over";
+  context.fillStyle = `rgba(${FOG_COLOR}, ${scene.opacity})`;
+  context.fillRect(0, 0, size.x, size.y);
+
+  context.globalCompositeOperation = "destination-out";
+  scene.areas.forEach((area) => {
+    const center = map.latLngToContainerPoint([area.lat, area.lng]);
+    const edge = map.latLngToContainerPoint([Math.min(85, area.lat + scene.radiusKm / KM_PER_DEGREE_LAT), area.lng]);
+    const radius = Math.max(1, center.distanceTo(edge));
+    const gradient = context.createRadialGradient(center.x, center.y, radius * CLEAR_CORE, center.x, center.y, radius);
+    gradient.addColorStop(0, "rgba(0, 0, 0, 1)");
+    gradient.addColorStop(1, "rgba(0, 0, 0, 0)");
+    context.fillStyle = gradient;
+    context.beginPath();
+    context.arc(center.x, center.y, radius, 0, Math.PI * 2);
+    context.fill();
+  });
+
+  context.fillStyle = "rgba(0, 0, 0, 1)";
+  scene.countries.forEach((polygon) => {
+    context.beginPath();
+    collectRings(polygon.getLatLngs() as RingTree[], []).forEach((ring) => {
+      ring.forEach((latLng, index) => {
+        const point = map.latLngToContainerPoint(latLng);
+        if (index === 0) context.moveTo(point.x, point.y);
+        else context.lineTo(point.x, point.y);
+      });
+      context.closePath();
+    });
+    // Even-odd keeps lakes and enclaves fogged
+    context.fill("evenodd");
+  });
+  context.globalCompositeOperation = "source-over";
+};
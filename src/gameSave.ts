@@ -0,0 +1,441 @@
+import { AGREEMENT_STATUS_LABELS } from "./agreements";
+import { ANNOTATION_KINDS } from "./annotations";
+import type { GameState } from "./gameState";
+import type { AnnotationKind, LatLng, TimeUnit, UnitKind } from "./gameTypes";
+import { UNIT_KINDS } from "./mapUnits";
+import { createPandemicState } from "./pandemic";
+import { DEFAULT_SCENARIO, parseScenarioPack } from "./scenarioPacks";
+import { TOKEN_LEDGER_KIND_LABELS, TOKEN_POOL_KIND_LABELS } from "./tokenLedger";
+import { TIME_UNITS, isFiniteNumber, isRecord } from "./validation";
+
+export const GAME_SAVE_FORMAT = "wargames-save";
+export const GAME_SAVE_VERSION = 16;
+
+export type MapView = { center: LatLng; zoom: number };
+
+// Everything needed to put a session back exactly where it was left.
+export type GameSnapshot = GameState & { mapView: MapView | null };
+
+export type GameSaveFile = {
+  format: typeof GAME_SAVE_FORMAT;
+  version: number;
+  savedAt: string;
+  game: GameSnapshot;
+};
+
+export type GameSaveParseResult = { ok: true; save: GameSaveFile } | { ok: false; errors: string[] };
+
+export const serializeGameSave = (game: GameSnapshot, savedAt: Date = new Date()) => {
+  const file: GameSaveFile = {
+    format: GAME_SAVE_FORMAT,
+    version: GAME_SAVE_VERSION,
+    savedAt: savedAt.toISOString(),
+    game: {
+      ...game,
+      // File handles cannot be serialized; the picture data URL is kept instead.
+      externalOrganizations: game.externalOrganizations.map(({ pictureFile: _pictureFile, ...org }) => org),
+    },
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const getGameSaveFileName = (game: GameSnapshot) => {
+  const date = game.gameDate.slice(0, 10);
+  return `wargames-round-${game.roundNumber}-${date}.json`;
+};
+
+// ────────────────────────────────────────────────────────────────────────────
+// Migrations
+// ────────────────────────────────────────────────────────────────────────────
+
+type GameMigration = (game: Record<string, unknown>) => Record<string, unknown>;
+
+// Keyed by the version being upgraded *from*; each step produces the next version.
+const SAVE_MIGRATIONS: Record<number, GameMigration> = {
+  1: (game) => ({ ...game, eventLog: [] }),
+  2: (game) => ({ ...game, revealedCountries: [] }),
+  // Fog became per player; everyone keeps what had been revealed globally
+  3: (game) => {
+    const playerIds = Array.isArray(game.players)
+      ? game.players.filter(isRecord).map((player) => player.id).filter((id): id is string => typeof id === "string")
+      : [];
+    const perPlayer = (value: unknown) => Object.fromEntries(playerIds.map((id) => [id, Array.isArray(value) ? value : []]));
+    return { ...game, discoveredAreas: perPlayer(game.discoveredAreas), revealedCountries: perPlayer(game.revealedCountries) };
+  },
+  // Every game before scenario packs was the pandemic scenario
+  4: (game) => ({ ...game, scenario: DEFAULT_SCENARIO }),
+  // Custom tracks arrived alongside the vaccine counter
+  5: (game) => {
+    const scenario = isRecord(game.scenario) ? game.scenario : {};
+    const tracks = isRecord(scenario.tracks) ? scenario.tracks : {};
+    return { ...game, tracks: [], scenario: { ...scenario, tracks: { ...tracks, custom: tracks.custom ?? [] } } };
+  },
+  6: (game) => ({ ...game, pandemic: createPandemicState() }),
+  // Sea links start from the scenario's, which older packs did not have
+  7: (game) => {
+    const scenario = isRecord(game.scenario) ? game.scenario : {};
+    const seaLinks = Array.isArray(scenario.seaLinks) ? scenario.seaLinks : [];
+    return { ...game, seaLinks, scenario: { ...scenario, seaLinks } };
+  },
+  8: (game) => ({ ...game, actionQueue: [] }),
+  9: (game) => ({ ...game, agreements: [] }),
+  10: (game) => ({ ...game, relationships: {} }),
+  11: (game) => ({ ...game, tokenLedger: [] }),
+  12: (game) => ({ ...game, units: [] }),
+  13: (game) => ({ ...game, annotations: [] }),
+  // Annotations used to reach the presenter whoever owned them; now only the adjudicator's do
+  14: (game) => ({
+    ...game,
+    annotations: Array.isArray(game.annotations)
+      ? game.annotations.map((annotation) => (isRecord(annotation) ? { ...annotation, public: annotation.ownerId === null } : annotation))
+      : game.annotations,
+  }),
+  // Country codes are filled in from the map the next time boundaries load
+  15: (game) => ({ ...game, countryCodes: {} }),
+};
+
+const OLDEST_MIGRATABLE_VERSION = Math.min(GAME_SAVE_VERSION, ...Object.keys(SAVE_MIGRATIONS).map(Number));
+
+const migrateGame = (game: Record<string, unknown>, fromVersion: number) => {
+  let migrated = game;
+  for (let version = fromVersion; version < GAME_SAVE_VERSION; version += 1) {
+    migrated = SAVE_MIGRATIONS[version](migrated);
+  }
+  return migrated;
+};
+
+// ────────────────────────────────────────────────────────────────────────────
+// Validation
+// ────────────────────────────────────────────────────────────────────────────
+
+const checkString = (errors: string[], path: string, value: unknown) => {
+  if (typeof value !== "string") errors.push(`${path} must be text.`);
+};
+
+const checkNumber = (errors: string[], path: string, value: unknown) => {
+  if (!isFiniteNumber(value)) errors.push(`${path} must be a number.`);
+};
+
+const checkLatLng = (errors: string[], path: string, value: unknown) => {
+  if (!isRecord(value) || !isFiniteNumber(value.lat) || !isFiniteNumber(value.lng)) {
+    errors.push(`${path} must be a position with numeric lat and lng.`);
+  }
+};
+
+const checkArray = (errors: string[], path: string, value: unknown, checkItem: (itemPath: string, item: unknown) => void) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be a list.`);
+    return;
+  }
+  value.forEach((item, index) => checkItem(`${path}[${index}]`, item));
+};
+
+const checkRecord = (errors: string[], path: string, value: unknown, checkItem: (itemPath: string, item: unknown) => void) => {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object.`);
+    return;
+  }
+  Object.entries(value).forEach(([key, item]) => checkItem(`${path}["${key}"]`, item));
+};
+
+const checkTokenPool = (errors: string[], path: string, value: unknown) => {
+  if (!isRecord(value) || !isFiniteNumber(value.allowance) || !isFiniteNumber(value.available)) {
+    errors.push(`${path} must have numeric allowance and available tokens.`);
+  }
+};
+
+const checkCustomTrack = (errors: string[], path: string, value: unknown) => {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be a track.`);
+    return;
+  }
+  checkString(errors, `${path}.id`, value.id);
+  checkString(errors, `${path}.name`, value.name);
+  checkString(errors, `${path}.color`, value.color);
+  checkNumber(errors, `${path}.min`, value.min);
+  checkNumber(errors, `${path}.max`, value.max);
+  checkNumber(errors, `${path}.value`, value.value);
+  if (isFiniteNumber(value.min) && isFiniteNumber(value.max) && value.max < value.min) {
+    errors.push(`${path}.max must not be below min.`);
+  }
+  checkArray(errors, `${path}.thresholds`, value.thresholds, (itemPath, item) => {
+    if (!isRecord(item) || !isFiniteNumber(item.value) || typeof item.label !== "string") {
+      errors.push(`${itemPath} must have a numeric value and a label.`);
+    }
+  });
+  checkRecord(errors, `${path}.history`, value.history, (itemPath, item) => checkNumber(errors, itemPath, item));
+};
+
+const checkPandemic = (errors: string[], value: unknown) => {
+  if (!isRecord(value) || typeof value.enabled !== "boolean") {
+    errors.push("pandemic must say whether the spread model is enabled.");
+    return;
+  }
+  checkNumber(errors, "pandemic.transmissionRate", value.transmissionRate);
+  checkRecord(errors, "pandemic.countryRates", value.countryRates, (path, item) => checkNumber(errors, path, item));
+  checkRecord(errors, "pandemic.infections", value.infections, (path, item) => {
+    if (!isRecord(item) || (item.status !== "infected" && item.status !== "contained") || !isFiniteNumber(item.since)) {
+      errors.push(`${path} must have a status of infected or contained and a round.`);
+    }
+  });
+};
+
+const EFFECT_FIELDS: Record<string, string[]> = {
+  assignCountry: ["country", "playerId"],
+  removeOwner: ["country", "playerId"],
+  tokens: ["pool", "id"],
+  interest: ["participantId"],
+  track: ["trackId"],
+};
+
+const POOL_KINDS = Object.keys(TOKEN_POOL_KIND_LABELS);
+const LEDGER_KINDS = Object.keys(TOKEN_LEDGER_KIND_LABELS);
+
+const checkLedgerEntry = (errors: string[], path: string, value: unknown) => {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be a ledger entry.`);
+    return;
+  }
+  ["id", "round", "delta", "available", "allowance"].forEach((field) => checkNumber(errors, `${path}.${field}`, value[field]));
+  ["phase", "poolId", "reason"].forEach((field) => checkString(errors, `${path}.${field}`, value[field]));
+  if (!LEDGER_KINDS.includes(value.kind as string)) errors.push(`${path}.kind must be one of ${LEDGER_KINDS.join(", ")}.`);
+  if (!POOL_KINDS.includes(value.pool as string)) errors.push(`${path}.pool must be one of ${POOL_KINDS.join(", ")}.`);
+  const counterparty = value.counterparty;
+  if (counterparty !== null && (!isRecord(counterparty) || !POOL_KINDS.includes(counterparty.pool as string) || typeof counterparty.id !== "string")) {
+    errors.push(`${path}.counterparty must name a token pool or be null.`);
+  }
+};
+
+const checkQueuedAction = (errors: string[], path: string, value: unknown) => {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be a queued action.`);
+    return;
+  }
+  checkString(errors, `${path}.id`, value.id);
+  checkNumber(errors, `${path}.round`, value.round);
+  checkString(errors, `${path}.participantId`, value.participantId);
+  if (value.targetCountry !== null) checkString(errors, `${path}.targetCountry`, value.targetCountry);
+  checkNumber(errors, `${path}.tokensCommitted`, value.tokensCommitted);
+  checkString(errors, `${path}.description`, value.description);
+  const resolution = value.resolution;
+  if (resolution === null) return;
+  if (!isRecord(resolution)) {
+    errors.push(`${path}.resolution must be a ruling or null.`);
+    return;
+  }
+  checkNumber(errors, `${path}.resolution.round`, resolution.round);
+  checkString(errors, `${path}.resolution.outcome`, resolution.outcome);
+  const roll = resolution.roll;
+  if (roll !== null && (!isRecord(roll) || typeof roll.expression !== "string" || !isFiniteNumber(roll.total) || !isFiniteNumber(roll.seed))) {
+    errors.push(`${path}.resolution.roll must have an expression, a total and a seed.`);
+  }
+  checkArray(errors, `${path}.resolution.effects`, resolution.effects, (effectPath, effect) => {
+    const fields = isRecord(effect) ? EFFECT_FIELDS[effect.kind as string] : undefined;
+    if (!isRecord(effect) || !fields) {
+      errors.push(`${effectPath} must be one of ${Object.keys(EFFECT_FIELDS).join(", ")}.`);
+      return;
+    }
+    fields.forEach((field) => checkString(errors, `${effectPath}.${field}`, effect[field]));
+    if (effect.delta !== undefined) checkNumber(errors, `${effectPath}.delta`, effect.delta);
+  });
+};
+
+const checkUnit = (errors: string[], path: string, value: unknown) => {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be a unit.`);
+    return;
+  }
+  ["id", "ownerId", "label"].forEach((field) => checkString(errors, `${path}.${field}`, value[field]));
+  if (!UNIT_KINDS.includes(value.kind as UnitKind)) errors.push(`${path}.kind must be one of ${UNIT_KINDS.join(", ")}.`);
+  checkNumber(errors, `${path}.strength`, value.strength);
+  checkLatLng(errors, `${path}.position`, value.position);
+  checkArray(errors, `${path}.path`, value.path, (itemPath, item) => {
+    if (!isRecord(item)) {
+      errors.push(`${itemPath} must have a round and a position.`);
+      return;
+    }
+    checkNumber(errors, `${itemPath}.round`, item.round);
+    checkLatLng(errors, `${itemPath}.position`, item.position);
+  });
+};
+
+const checkAnnotation = (errors: string[], path: string, value: unknown) => {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an annotation.`);
+    return;
+  }
+  ["id", "color", "text"].forEach((field) => checkString(errors, `${path}.${field}`, value[field]));
+  if (!ANNOTATION_KINDS.includes(value.kind as AnnotationKind)) errors.push(`${path}.kind must be one of ${ANNOTATION_KINDS.join(", ")}.`);
+  if (value.ownerId !== null) checkString(errors, `${path}.ownerId`, value.ownerId);
+  checkArray(errors, `${path}.points`, value.points, (itemPath, item) => checkLatLng(errors, itemPath, item));
+  checkNumber(errors, `${path}.radiusKm`, value.radiusKm);
+  if (value.round !== null) checkNumber(errors, `${path}.round`, value.round);
+  if (typeof value.public !== "boolean") errors.push(`${path} must say whether it is public.`);
+};
+
+const AGREEMENT_STATUSES = Object.keys(AGREEMENT_STATUS_LABELS);
+
+const checkAgreement = (errors: string[], path: string, value: unknown) => {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an agreement.`);
+    return;
+  }
+  checkString(errors, `${path}.id`, value.id);
+  checkString(errors, `${path}.title`, value.title);
+  checkString(errors, `${path}.terms`, value.terms);
+  checkArray(errors, `${path}.parties`, value.parties, (itemPath, item) => checkString(errors, itemPath, item));
+  if (value.durationRounds !== null) checkNumber(errors, `${path}.durationRounds`, value.durationRounds);
+  if (!AGREEMENT_STATUSES.includes(value.status as string)) {
+    errors.push(`${path}.status must be one of ${AGREEMENT_STATUSES.join(", ")}.`);
+  }
+  checkNumber(errors, `${path}.proposedRound`, value.proposedRound);
+  if (value.signedRound !== null) checkNumber(errors, `${path}.signedRound`, value.signedRound);
+  if (value.endedRound !== null) checkNumber(errors, `${path}.endedRound`, value.endedRound);
+};
+
+const validateSnapshot = (game: Record<string, unknown>, errors: string[]) => {
+  const scenario = parseScenarioPack(game.scenario);
+  if (!scenario.ok) errors.push(...scenario.errors.map((error) => `scenario: ${error}`));
+  checkArray(errors, "players", game.players, (path, item) => {
+    if (!isRecord(item)) {
+      errors.push(`${path} must be a player.`);
+      return;
+    }
+    checkString(errors, `${path}.id`, item.id);
+    checkString(errors, `${path}.name`, item.name);
+    checkString(errors, `${path}.color`, item.color);
+  });
+  checkRecord(errors, "ownership", game.ownership, (path, item) => {
+    if (!Array.isArray(item) || item.some((id) => typeof id !== "string")) {
+      errors.push(`${path} must be a list of player ids.`);
+    }
+  });
+  checkRecord(errors, "countryCodes", game.countryCodes, (path, code) => checkString(errors, path, code));
+  checkRecord(errors, "countryActors", game.countryActors, (listPath, list) =>
+    checkArray(errors, listPath, list, (path, item) => {
+      if (!isRecord(item)) {
+        errors.push(`${path} must be a local actor.`);
+        return;
+      }
+      checkString(errors, `${path}.id`, item.id);
+      checkString(errors, `${path}.name`, item.name);
+      checkString(errors, `${path}.color`, item.color);
+      checkString(errors, `${path}.notes`, item.notes);
+      checkLatLng(errors, `${path}.position`, item.position);
+    })
+  );
+  checkArray(errors, "externalOrganizations", game.externalOrganizations, (path, item) => {
+    if (!isRecord(item)) {
+      errors.push(`${path} must be an organization.`);
+      return;
+    }
+    checkString(errors, `${path}.id`, item.id);
+    checkString(errors, `${path}.name`, item.name);
+    checkString(errors, `${path}.color`, item.color);
+    checkString(errors, `${path}.notes`, item.notes);
+    checkNumber(errors, `${path}.width`, item.width);
+    checkNumber(errors, `${path}.height`, item.height);
+    checkLatLng(errors, `${path}.position`, item.position);
+    if (item.picture !== undefined) checkString(errors, `${path}.picture`, item.picture);
+    if (item.imageHeight !== undefined) checkNumber(errors, `${path}.imageHeight`, item.imageHeight);
+  });
+  checkRecord(errors, "playerTokens", game.playerTokens, (path, item) => checkTokenPool(errors, path, item));
+  checkRecord(errors, "countryTokens", game.countryTokens, (path, item) => checkTokenPool(errors, path, item));
+  checkRecord(errors, "actorTokens", game.actorTokens, (path, item) => checkTokenPool(errors, path, item));
+  checkArray(errors, "tokenLedger", game.tokenLedger, (path, item) => checkLedgerEntry(errors, path, item));
+  checkRecord(errors, "nationalInterests", game.nationalInterests, (path, item) => checkNumber(errors, path, item));
+  checkNumber(errors, "interestLevelCount", game.interestLevelCount);
+  if (typeof game.gameDate !== "string" || Number.isNaN(new Date(game.gameDate).getTime())) {
+    errors.push("gameDate must be a valid date.");
+  }
+  checkNumber(errors, "roundNumber", game.roundNumber);
+  checkNumber(errors, "phaseIndex", game.phaseIndex);
+  checkArray(errors, "phaseDurations", game.phaseDurations, (path, item) => checkNumber(errors, path, item));
+  if (!isRecord(game.timeAdvance) || !isFiniteNumber(game.timeAdvance.value) || !TIME_UNITS.includes(game.timeAdvance.unit as TimeUnit)) {
+    errors.push(`timeAdvance must have a numeric value and a unit of ${TIME_UNITS.join(", ")}.`);
+  }
+  checkNumber(errors, "vaccineProgress", game.vaccineProgress);
+  checkArray(errors, "tracks", game.tracks, (path, item) => checkCustomTrack(errors, path, item));
+  if (game.initialOutbreak !== null) checkString(errors, "initialOutbreak", game.initialOutbreak);
+  if (game.outbreakRoll !== null) checkNumber(errors, "outbreakRoll", game.outbreakRoll);
+  checkPandemic(errors, game.pandemic);
+  checkArray(errors, "seaLinks", game.seaLinks, (path, item) => {
+    if (!Array.isArray(item) || item.length !== 2 || item.some((country) => typeof country !== "string")) {
+      errors.push(`${path} must name two countries.`);
+    }
+  });
+  checkArray(errors, "actionQueue", game.actionQueue, (path, item) => checkQueuedAction(errors, path, item));
+  checkArray(errors, "agreements", game.agreements, (path, item) => checkAgreement(errors, path, item));
+  checkRecord(errors, "relationships", game.relationships, (path, item) => checkNumber(errors, path, item));
+  checkArray(errors, "units", game.units, (path, item) => checkUnit(errors, path, item));
+  checkArray(errors, "annotations", game.annotations, (path, item) => checkAnnotation(errors, path, item));
+  checkRecord(errors, "discoveredAreas", game.discoveredAreas, (path, areas) =>
+    checkArray(errors, path, areas, (itemPath, item) => checkLatLng(errors, itemPath, item))
+  );
+  checkRecord(errors, "revealedCountries", game.revealedCountries, (path, countries) =>
+    checkArray(errors, path, countries, (itemPath, item) => checkString(errors, itemPath, item))
+  );
+  checkArray(errors, "eventLog", game.eventLog, (path, item) => {
+    if (!isRecord(item)) {
+      errors.push(`${path} must be a log entry.`);
+      return;
+    }
+    checkString(errors, `${path}.id`, item.id);
+    checkString(errors, `${path}.type`, item.type);
+    checkString(errors, `${path}.message`, item.message);
+    checkString(errors, `${path}.phase`, item.phase);
+    checkString(errors, `${path}.gameDate`, item.gameDate);
+    checkString(errors, `${path}.at`, item.at);
+    checkNumber(errors, `${path}.round`, item.round);
+    if (!Array.isArray(item.playerIds) || !Array.isArray(item.countries)) {
+      errors.push(`${path} must list its players and countries.`);
+    }
+  });
+  if (game.mapView !== null) {
+    if (!isRecord(game.mapView) || !isFiniteNumber(game.mapView.zoom)) {
+      errors.push("mapView must have a center and numeric zoom.");
+    } else {
+      checkLatLng(errors, "mapView.center", game.mapView.center);
+    }
+  }
+};
+
+export const parseGameSave = (text: string): GameSaveParseResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ["The file is not valid JSON."] };
+  }
+  if (!isRecord(raw) || raw.format !== GAME_SAVE_FORMAT) {
+    return { ok: false, errors: ["The file is not a saved game."] };
+  }
+  if (!isFiniteNumber(raw.version)) {
+    return { ok: false, errors: ["The saved game has no format version."] };
+  }
+  if (raw.version < OLDEST_MIGRATABLE_VERSION) {
+    return {
+      ok: false,
+      errors: [`The saved game uses format version ${raw.version}, which is older than this build supports (version ${GAME_SAVE_VERSION}).`],
+    };
+  }
+  if (raw.version > GAME_SAVE_VERSION) {
+    return {
+      ok: false,
+      errors: [`The saved game uses format version ${raw.version}, which is newer than this build supports (version ${GAME_SAVE_VERSION}).`],
+    };
+  }
+  if (typeof raw.savedAt !== "string") {
+    return { ok: false, errors: ["The saved game has no save timestamp."] };
+  }
+  if (!isRecord(raw.game)) {
+    return { ok: false, errors: ["The saved game has no game data."] };
+  }
+  const game = migrateGame(raw.game, raw.version);
+  const errors: string[] = [];
+  validateSnapshot(game, errors);
+  if (errors.length) {
+    return { ok: false, errors };
+  }
+  return { ok: true, save: { ...raw, version: GAME_SAVE_VERSION, game } as unknown as GameSaveFile };
+};
@@ -0,0 +1,208 @@
+import { describe, expect, it } from "vitest";
+import type { GameAction, GameState } from "./gameState";
+import { TEST_START_DATE, createTestGame as setup, play } from "./testGame";
+
+const lastPhase = (state: GameState) =>
+  play(state, ...Array.from({ length: state.phaseDurations.length - 1 }, (): GameAction => ({ type: "nextPhase" })));
+
+describe("adjustTokens", () => {
+  it("spends and refunds within the pool", () => {
+    const spent = play(setup(), { type: "adjustTokens", pool: "player", id: "p1", delta: -2 });
+    expect(spent.playerTokens.p1).toEqual({ allowance: 5, available: 3 });
+    const refunded = play(spent, { type: "adjustTokens", pool: "player", id: "p1", delta: 1 });
+    expect(refunded.playerTokens.p1.available).toBe(4);
+  });
+
+  it("clamps to zero and to the allowance", () => {
+    const state = setup();
+    expect(play(state, { type: "adjustTokens", pool: "player", id: "p1", delta: -99 }).playerTokens.p1.available).toBe(0);
+    const spent = play(state, { type: "adjustTokens", pool: "player", id: "p1", delta: -1 });
+    expect(play(spent, { type: "adjustTokens", pool: "player", id: "p1", delta: 99 }).playerTokens.p1.available).toBe(5);
+  });
+
+  it("leaves the state alone when nothing changes or the pool is missing", () => {
+    const state = setup();
+    expect(play(state, { type: "adjustTokens", pool: "player", id: "p1", delta: 1 })).toBe(state);
+    expect(play(state, { type: "adjustTokens", pool: "player", id: "nobody", delta: -1 })).toBe(state);
+  });
+});
+
+describe("setAllowance", () => {
+  it("records every change in the ledger and caps what is available", () => {
+    const state = play(
+      setup(),
+      { type: "setAllowance", pool: "player", id: "p1", allowance: 1 },
+      { type: "setAllowance", pool: "player", id: "p1", allowance: 12 }
+    );
+    expect(state.playerTokens.p1).toEqual({ allowance: 12, available: 1 });
+    expect(state.tokenLedger.slice(-2).map((entry) => [entry.kind, entry.allowance, entry.delta])).toEqual([
+      ["allowance", 1, -4],
+      ["allowance", 12, 0],
+    ]);
+  });
+});
+
+describe("replenishTokens", () => {
+  it("refills every pool to its allowance", () => {
+    const spent = play(
+      setup(),
+      { type: "adjustTokens", pool: "player", id: "p1", delta: -4 },
+      { type: "adjustTokens", pool: "country", id: "France", delta: -3 }
+    );
+    const state = play(spent, { type: "replenishTokens" });
+    expect(state.playerTokens.p1).toEqual({ allowance: 5, available: 5 });
+    expect(state.countryTokens.France).toEqual({ allowance: 3, available: 3 });
+  });
+
+  it("keeps a lowered allowance", () => {
+    const state = play(
+      setup(),
+      { type: "setAllowance", pool: "player", id: "p1", allowance: 2 },
+      { type: "replenishTokens" }
+    );
+    expect(state.playerTokens.p1).toEqual({ allowance: 2, available: 2 });
+  });
+});
+
+describe("transferTokens", () => {
+  it("moves tokens between pools and records both sides in the ledger", () => {
+    const spent = play(setup(), { type: "adjustTokens", pool: "country", id: "France", delta: -2 });
+    const state = play(spent, {
+      type: "transferTokens",
+      from: { pool: "player", id: "p1" },
+      to: { pool: "country", id: "France" },
+      amount: 2,
+      reason: "Aid",
+    });
+    expect(state.playerTokens.p1.available).toBe(3);
+    expect(state.countryTokens.France.available).toBe(3);
+    expect(state.tokenLedger.slice(-2).map((entry) => [entry.kind, entry.poolId, entry.delta, entry.reason])).toEqual([
+      ["transfer", "p1", -2, "Aid"],
+      ["transfer", "France", 2, "Aid"],
+    ]);
+  });
+
+  it("moves no more than the source holds or the target has room for", () => {
+    const state = setup();
+    const full = play(state, { type: "transferTokens", from: { pool: "player", id: "p1" }, to: { pool: "player", id: "p2" }, amount: 3 });
+    expect(full).toBe(state);
+    const room = play(state, { type: "adjustTokens", pool: "player", id: "p2", delta: -4 });
+    const capped = play(room, { type: "transferTokens", from: { pool: "player", id: "p1" }, to: { pool: "player", id: "p2" }, amount: 9 });
+    expect(capped.playerTokens.p1.available).toBe(1);
+    expect(capped.playerTokens.p2.available).toBe(5);
+  });
+
+  it("ignores transfers to the same pool", () => {
+    const state = play(setup(), { type: "adjustTokens", pool: "player", id: "p1", delta: -1 });
+    expect(play(state, { type: "transferTokens", from: { pool: "player", id: "p1" }, to: { pool: "player", id: "p1" }, amount: 1 })).toBe(state);
+  });
+});
+
+describe("nextPhase", () => {
+  it("steps through the phases without touching the clock", () => {
+    const state = play(setup(), { type: "nextPhase" });
+    expect(state.phaseIndex).toBe(1);
+    expect(state.roundNumber).toBe(1);
+    expect(state.gameDate).toBe(TEST_START_DATE);
+  });
+
+  it("wraps to the first phase and starts the next round", () => {
+    const spent = play(setup(), { type: "adjustTokens", pool: "player", id: "p1", delta: -3 });
+    const state = play(lastPhase(spent), { type: "nextPhase" });
+    expect(state.phaseIndex).toBe(0);
+    expect(state.roundNumber).toBe(2);
+    expect(state.gameDate).toBe("2030-01-08T00:00:00.000Z");
+    expect(state.playerTokens.p1.available).toBe(5);
+  });
+});
+
+describe("prevPhase", () => {
+  it("rewinds the round from the first phase", () => {
+    const round2 = play(lastPhase(setup()), { type: "nextPhase" });
+    const state = play(round2, { type: "prevPhase" });
+    expect(state.phaseIndex).toBe(state.phaseDurations.length - 1);
+    expect(state.roundNumber).toBe(1);
+    expect(state.gameDate).toBe(TEST_START_DATE);
+  });
+
+  it("never goes before the first round", () => {
+    const state = play(setup(), { type: "prevPhase" });
+    expect(state.phaseIndex).toBe(state.phaseDurations.length - 1);
+    expect(state.roundNumber).toBe(1);
+    expect(state.gameDate).toBe(TEST_START_DATE);
+  });
+});
+
+describe("national interest", () => {
+  it("stays between zero and the level count", () => {
+    const state = setup();
+    expect(play(state, { type: "adjustNationalInterest", participantId: "p1", delta: -1 })).toBe(state);
+    const top = play(state, { type: "adjustNationalInterest", participantId: "p1", delta: 99 });
+    expect(top.nationalInterests.p1).toBe(state.interestLevelCount);
+  });
+
+  it("keeps at least one level and pulls interests down with the count", () => {
+    const top = play(setup(), { type: "adjustNationalInterest", participantId: "p1", delta: 4 });
+    const fewer = play(top, { type: "setInterestLevelCount", count: 2 });
+    expect(fewer.interestLevelCount).toBe(2);
+    expect(fewer.nationalInterests.p1).toBe(2);
+    const none = play(top, { type: "setInterestLevelCount", count: 0 });
+    expect(none.interestLevelCount).toBe(1);
+    expect(none.nationalInterests.p1).toBe(1);
+    expect(play(top, { type: "setInterestLevelCount", count: 3.7 }).interestLevelCount).toBe(3);
+  });
+});
+
+describe("removePlayer", () => {
+  it("releases the player's countries and keeps co-owners", () => {
+    const state = play(setup(), { type: "removePlayer", playerId: "p1" });
+    expect(state.players.map((player) => player.id)).toEqual(["p2"]);
+    expect(state.ownership).toEqual({ Germany: ["p2"] });
+    expect(state.playerTokens.p1).toBeUndefined();
+    expect(state.nationalInterests.p1).toBeUndefined();
+  });
+});
+
+describe("reconcileCountries", () => {
+  const bundled = [
+    { name: "France", code: "FRA" },
+    { name: "Germany", code: "DEU" },
+  ];
+  const renamed = [
+    { name: "France", code: "FRA" },
+    { name: "Federal Republic of Germany", code: "DEU" },
+  ];
+
+  it("moves a country's state onto the name the new map uses for its code", () => {
+    const start = play(
+      setup(),
+      { type: "reconcileCountries", countries: bundled },
+      { type: "setInfectionStatus", country: "Germany", status: "infected" },
+      { type: "addSeaLink", countries: ["France", "Germany"] }
+    );
+    expect(start.countryCodes).toEqual({ France: "FRA", Germany: "DEU" });
+    const state = play(start, { type: "reconcileCountries", countries: renamed });
+    expect(state.ownership).toEqual({ France: ["p1"], "Federal Republic of Germany": ["p1", "p2"] });
+    expect(state.countryTokens["Federal Republic of Germany"]).toEqual(start.countryTokens.Germany);
+    expect(state.countryTokens.Germany).toBeUndefined();
+    expect(Object.keys(state.pandemic.infections)).toEqual(["Federal Republic of Germany"]);
+    expect(state.seaLinks).toContainEqual(["Federal Republic of Germany", "France"]);
+    expect(state.seaLinks.flat()).not.toContain("Germany");
+    expect(state.countryCodes["Federal Republic of Germany"]).toBe("DEU");
+    expect(play(state, { type: "reconcileCountries", countries: renamed })).toBe(state);
+  });
+
+  it("uses codes from maps loaded earlier for games saved without codes", () => {
+    const state = play(setup(), {
+      type: "reconcileCountries",
+      countries: renamed,
+      knownCodes: { Germany: "DEU" },
+    });
+    expect(Object.keys(state.ownership)).toEqual(["France", "Federal Republic of Germany"]);
+  });
+
+  it("leaves countries without a code match alone", () => {
+    const state = play(setup(), { type: "reconcileCountries", countries: [{ name: "Federal Republic of Germany", code: null }] });
+    expect(Object.keys(state.ownership)).toEqual(["France", "Germany"]);
+  });
+});
@@ -0,0 +1,945 @@
+import type {
+  ActionResolution,
+  AdjudicationEffect,
+  Agreement,
+  Annotation,
+  AgreementStatus,
+  CustomTrack,
+  ExternalOrganization,
+  LatLng,
+  InfectionStatus,
+  LocalActor,
+  MapUnit,
+  OwnershipMap,
+  PandemicState,
+  Player,
+  QueuedAction,
+  TimeUnit,
+  TokenLedgerEntry,
+  TokenPool,
+  TokenPoolRef,
+} from "./gameTypes";
+import { isSameSeaLink, normalizeSeaLink } from "./adjacency";
+import { expireAgreements, unexpireAgreements, withStatus } from "./agreements";
+import type { SeaLink } from "./adjacency";
+import { reconcileCountries } from "./countryCodes";
+import type { CountryCodes, MapCountry } from "./countryCodes";
+import { clampTrackValue, createCustomTrack } from "./customTracks";
+import { clampStrength, withMove } from "./mapUnits";
+import { clampStance, withStance, withoutParticipant } from "./relationships";
+import type { Relationships } from "./relationships";
+import type { GameEvent } from "./eventLog";
+import { clampRate, createPandemicState, withInfections } from "./pandemic";
+import { DEFAULT_SCENARIO } from "./scenarioPacks";
+import type { ScenarioPack } from "./scenarioPacks";
+
+export type TokenPoolKind = "player" | "country" | "actor";
+
+export type GameState = {
+  // The pack this game was started from; supplies phases, tracks and token defaults
+  scenario: ScenarioPack;
+  players: Player[];
+  ownership: OwnershipMap;
+  // ISO code of each country name seen on a map; see countryCodes.ts
+  countryCodes: CountryCodes;
+  countryActors: Record<string, LocalActor[]>;
+  externalOrganizations: ExternalOrganization[];
+  playerTokens: Record<string, TokenPool>;
+  countryTokens: Record<string, TokenPool>;
+  actorTokens: Record<string, TokenPool>;
+  // Every change to a pool, oldest first
+  tokenLedger: TokenLedgerEntry[];
+  nationalInterests: Record<string, number>;
+  interestLevelCount: number;
+  gameDate: string; // ISO timestamp
+  roundNumber: number;
+  phaseIndex: number;
+  phaseDurations: number[];
+  timeAdvance: { value: number; unit: TimeUnit };
+  vaccineProgress: number;
+  // Adjudicator-defined counters, in display order
+  tracks: CustomTrack[];
+  initialOutbreak: string | null;
+  outbreakRoll: number | null;
+  pandemic: PandemicState;
+  // Crossings treated as borders on top of the land borders from the map
+  seaLinks: SeaLink[];
+  // Actions recorded for adjudication, oldest first; resolved ones stay as the record
+  actionQueue: QueuedAction[];
+  agreements: Agreement[];
+  // Stance per pair of participants; see relationships.ts
+  relationships: Relationships;
+  // Counters on the map, in the order they were placed
+  units: MapUnit[];
+  annotations: Annotation[];
+  // Fog of war, per player id
+  discoveredAreas: Record<string, LatLng[]>;
+  revealedCountries: Record<string, string[]>;
+  eventLog: GameEvent[];
+};
+
+export type GameAction =
+  // Restarts the current scenario, or switches to `scenario` when given
+  | { type: "newGame"; startDate: string; scenario?: ScenarioPack }
+  | { type: "loadState"; state: GameState }
+  // Sent when boundaries load; knownCodes are codes from maps loaded earlier
+  | { type: "reconcileCountries"; countries: MapCountry[]; knownCodes?: CountryCodes }
+  | { type: "addPlayer"; player: Player }
+  | { type: "renamePlayer"; playerId: string; name: string }
+  | { type: "removePlayer"; playerId: string }
+  | { type: "assignCountries"; countries: string[]; playerId: string; label?: string }
+  | { type: "removeOwner"; country: string; playerId: string }
+  | { type: "clearOwners"; countries: string[] }
+  | { type: "ensureCountryTokens"; country: string }
+  // reason is kept in the token ledger
+  | { type: "setAllowance"; pool: TokenPoolKind; id: string; allowance: number; reason?: string }
+  | { type: "setCountryAllowances"; countries: string[]; allowance: number }
+  | { type: "adjustTokens"; pool: TokenPoolKind; id: string; delta: number; reason?: string }
+  | { type: "transferTokens"; from: TokenPoolRef; to: TokenPoolRef; amount: number; reason?: string }
+  | { type: "replenishTokens" }
+  | { type: "adjustNationalInterest"; participantId: string; delta: number }
+  | { type: "setInterestLevelCount"; count: number }
+  // seed is the dice seed behind a rolled outbreak, kept for the log
+  | { type: "setOutbreak"; location: string | null; roll: number | null; seed?: number }
+  | { type: "adjustVaccineProgress"; delta: number }
+  | { type: "addTrack"; track: CustomTrack }
+  | { type: "updateTrack"; trackId: string; updates: Partial<Pick<CustomTrack, "name" | "color" | "min" | "max" | "thresholds" | "showOnHud">> }
+  | { type: "removeTrack"; trackId: string }
+  | { type: "setTrackValue"; trackId: string; value: number }
+  | { type: "setPandemicSettings"; enabled?: boolean; transmissionRate?: number }
+  // A null rate goes back to the game-wide transmission rate
+  | { type: "setCountryTransmissionRate"; country: string; rate: number | null }
+  // A null status marks the country healthy
+  | { type: "setInfectionStatus"; country: string; status: InfectionStatus | null }
+  | { type: "resetPandemic" }
+  | { type: "addSeaLink"; countries: SeaLink }
+  | { type: "removeSeaLink"; countries: SeaLink }
+  // Replaces any group already under that name
+  | { type: "saveCountryGroup"; name: string; countries: string[] }
+  | { type: "queueAction"; action: QueuedAction }
+  | { type: "withdrawAction"; actionId: string }
+  | { type: "resolveAction"; actionId: string; resolution: ActionResolution }
+  | { type: "addAgreement"; agreement: Agreement }
+  | { type: "updateAgreement"; agreementId: string; updates: Partial<Pick<Agreement, "title" | "parties" | "terms" | "durationRounds">> }
+  | { type: "setAgreementStatus"; agreementId: string; status: AgreementStatus }
+  | { type: "removeAgreement"; agreementId: string }
+  | { type: "setRelationship"; participantIds: [string, string]; stance: number }
+  | { type: "addUnit"; unit: MapUnit }
+  | { type: "updateUnit"; unitId: string; updates: Partial<Pick<MapUnit, "kind" | "ownerId" | "label" | "strength">> }
+  // Moves a whole stack at once when several ids are given
+  | { type: "moveUnits"; unitIds: string[]; position: LatLng }
+  | { type: "removeUnit"; unitId: string }
+  | { type: "addAnnotation"; annotation: Annotation }
+  | { type: "updateAnnotation"; annotationId: string; updates: Partial<Pick<Annotation, "color" | "ownerId" | "text" | "round" | "public">> }
+  | { type: "removeAnnotation"; annotationId: string }
+  | { type: "clearAnnotations" }
+  // `infections` are the countries the spread model reached in the new round
+  | { type: "advanceTime"; infections?: string[] }
+  | { type: "rewindTime" }
+  | { type: "nextPhase"; infections?: string[] }
+  | { type: "prevPhase" }
+  | { type: "setStartDate"; date: string }
+  | { type: "setTimeAdvance"; value?: number; unit?: TimeUnit }
+  | { type: "setPhaseDuration"; index: number; seconds: number }
+  | { type: "addLocalActor"; country: string; actor: LocalActor }
+  | { type: "updateLocalActor"; country: string; actorId: string; updates: Partial<LocalActor> }
+  | { type: "removeLocalActor"; country: string; actorId: string }
+  | { type: "addOrganization"; organization: ExternalOrganization }
+  | { type: "updateOrganization"; organizationId: string; updates: Partial<ExternalOrganization> }
+  | { type: "removeOrganization"; organizationId: string }
+  // Fog actions apply to one player, or to every player when playerId is null
+  | { type: "revealArea"; position: LatLng; playerId: string | null }
+  | { type: "refogArea"; position: LatLng; radiusKm: number; playerId: string | null }
+  | { type: "revealCountries"; countries: string[]; playerId: string | null }
+  | { type: "refogCountries"; countries: string[]; playerId: string | null }
+  | { type: "resetFog"; playerId: string | null }
+  | { type: "logEvents"; events: GameEvent[] };
+
+const POOL_KEY: Record<TokenPoolKind, "playerTokens" | "countryTokens" | "actorTokens"> = {
+  player: "playerTokens",
+  country: "countryTokens",
+  actor: "actorTokens",
+};
+
+export const createInitialGameState = (startDate: string = DEFAULT_SCENARIO.startDate, scenario: ScenarioPack = DEFAULT_SCENARIO): GameState => {
+  const parsed = new Date(startDate);
+  const ownership: OwnershipMap = {};
+  scenario.players.forEach((player) =>
+    player.countries.forEach((country) => {
+      ownership[country] = [...(ownership[country] ?? []), player.id];
+    })
+  );
+  // Pools and interest positions for the starting players are filled in by normalizeGameState
+  return normalizeGameState({
+    scenario,
+    players: scenario.players.map(({ id, name, color }) => ({ id, name, color })),
+    ownership,
+    countryCodes: {},
+    countryActors: {},
+    externalOrganizations: [],
+    playerTokens: {},
+    countryTokens: {},
+    actorTokens: {},
+    tokenLedger: [],
+    nationalInterests: {},
+    interestLevelCount: scenario.tracks.interestLevels,
+    gameDate: (Number.isNaN(parsed.getTime()) ? new Date() : parsed).toISOString(),
+    roundNumber: 1,
+    phaseIndex: 0,
+    phaseDurations: scenario.phases.map((phase) => phase.seconds),
+    timeAdvance: { ...scenario.timeAdvance },
+    vaccineProgress: 0,
+    tracks: scenario.tracks.custom.map((track) =>
+      createCustomTrack(track.id, track.name, track.min, track.max, 1, {
+        color: track.color,
+        value: track.start,
+        thresholds: track.thresholds,
+        showOnHud: track.showOnHud,
+      })
+    ),
+    initialOutbreak: null,
+    outbreakRoll: null,
+    pandemic: createPandemicState(),
+    seaLinks: scenario.seaLinks.map(([a, b]) => normalizeSeaLink(a, b)),
+    actionQueue: [],
+    agreements: [],
+    relationships: {},
+    units: [],
+    annotations: [],
+    discoveredAreas: {},
+    revealedCountries: {},
+    eventLog: [],
+  });
+};
+
+// ────────────────────────────────────────────────────────────────────────────
+// Rules
+// ────────────────────────────────────────────────────────────────────────────
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export const adjustDate = (base: Date, amount: number, unit: TimeUnit) => {
+  const next = new Date(base.getTime());
+  if (unit === "days") {
+    next.setDate(next.getDate() + amount);
+  } else if (unit === "months") {
+    next.setMonth(next.getMonth() + amount);
+  } else {
+    next.setFullYear(next.getFullYear() + amount);
+  }
+  return next;
+};
+
+const advanceAmount = (value: number) => {
+  const floored = Math.floor(value);
+  return Number.isNaN(floored) ? 1 : Math.max(1, floored);
+};
+
+const normalizedAllowance = (value: number, fallback: number) => {
+  if (Number.isNaN(value) || !Number.isFinite(value)) return fallback;
+  return Math.max(0, value);
+};
+
+const createPool = (size: number): TokenPool => ({ allowance: size, available: size });
+
+// New pools start at the scenario's allowance for their kind
+const ensurePool = (state: GameState, pools: Record<string, TokenPool>, id: string, kind: TokenPoolKind) =>
+  pools[id] ? pools : { ...pools, [id]: createPool(state.scenario.tokens[kind]) };
+
+const replenish = (pools: Record<string, TokenPool>) =>
+  Object.fromEntries(Object.entries(pools).map(([id, pool]) => [id, { ...pool, available: pool.allowance }]));
+
+type LedgerDraft = Omit<TokenLedgerEntry, "id" | "round" | "phase">;
+
+// Entries are stamped with the round and phase of the state they are added to
+const withLedgerEntries = (state: GameState, drafts: LedgerDraft[]): GameState => {
+  if (!drafts.length) return state;
+  const lastId = state.tokenLedger[state.tokenLedger.length - 1]?.id ?? 0;
+  const phase = state.scenario.phases[state.phaseIndex]?.name ?? "";
+  return {
+    ...state,
+    tokenLedger: [...state.tokenLedger, ...drafts.map((draft, index) => ({ id: lastId + index + 1, round: state.roundNumber, phase, ...draft }))],
+  };
+};
+
+const withPool = (state: GameState, { pool, id }: TokenPoolRef, value: TokenPool): GameState => ({
+  ...state,
+  [POOL_KEY[pool]]: { ...state[POOL_KEY[pool]], [id]: value },
+});
+
+// Country pools are opened on first use, as assigning the country would
+const getPoolOrDefault = (state: GameState, { pool, id }: TokenPoolRef) =>
+  state[POOL_KEY[pool]][id] ?? (pool === "country" ? createPool(state.scenario.tokens.country) : undefined);
+
+// What a transfer actually moves: no more than the source holds or the target has room for
+export const getTransferAmount = (state: GameState, from: TokenPoolRef, to: TokenPoolRef, amount: number) => {
+  if (from.pool === to.pool && from.id === to.id) return 0;
+  const source = state[POOL_KEY[from.pool]][from.id];
+  const target = getPoolOrDefault(state, to);
+  if (!source || !target) return 0;
+  return clamp(Math.floor(amount) || 0, 0, Math.min(source.available, target.allowance - target.available));
+};
+
+const withoutKey = <T>(record: Record<string, T>, key: string) => {
+  if (!(key in record)) return record;
+  const copy = { ...record };
+  delete copy[key];
+  return copy;
+};
+
+// Records the value against the current round so the history chart shows where each round ended
+const withTrackValue = (track: CustomTrack, value: number, round: number): CustomTrack => ({
+  ...track,
+  value,
+  history: { ...track.history, [round]: value },
+});
+
+const updateTracks = (state: GameState, trackId: string, update: (track: CustomTrack) => CustomTrack): GameState => {
+  const index = state.tracks.findIndex((track) => track.id === trackId);
+  if (index === -1) return state;
+  const track = state.tracks[index];
+  const updated = update(track);
+  if (updated === track) return state;
+  const tracks = [...state.tracks];
+  tracks[index] = updated;
+  return { ...state, tracks };
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+// Great-circle distance between two points.
+export const distanceKm = (a: LatLng, b: LatLng) => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+const fogTargets = (state: GameState, playerId: string | null) =>
+  playerId ? [playerId] : state.players.map((player) => player.id);
+
+// Applies `update` to each target's list, keeping the record identity when nothing changes.
+const updateFog = <T>(record: Record<string, T[]>, targets: string[], update: (list: T[]) => T[]) => {
+  let next = record;
+  targets.forEach((id) => {
+    const current = record[id] ?? [];
+    const updated = update(current);
+    if (updated !== current) {
+      next = next === record ? { ...record } : next;
+      next[id] = updated;
+    }
+  });
+  return next;
+};
+
+const replenishAll = (state: GameState, reason: string): GameState => {
+  const drafts: LedgerDraft[] = [];
+  (Object.keys(POOL_KEY) as TokenPoolKind[]).forEach((pool) =>
+    Object.entries(state[POOL_KEY[pool]]).forEach(([poolId, { allowance, available }]) => {
+      if (available >= allowance) return;
+      drafts.push({ kind: "replenish", pool, poolId, delta: allowance - available, available: allowance, allowance, reason, counterparty: null });
+    })
+  );
+  return withLedgerEntries(
+    {
+      ...state,
+      playerTokens: replenish(state.playerTokens),
+      countryTokens: replenish(state.countryTokens),
+      actorTokens: replenish(state.actorTokens),
+    },
+    drafts
+  );
+};
+
+const advanceTime = (state: GameState, infections: string[] = []): GameState => {
+  const amount = advanceAmount(state.timeAdvance.value);
+  const roundNumber = state.roundNumber + 1;
+  return replenishAll({
+    ...state,
+    gameDate: adjustDate(new Date(state.gameDate), amount, state.timeAdvance.unit).toISOString(),
+    roundNumber,
+    pandemic: state.pandemic.enabled ? withInfections(state.pandemic, infections, roundNumber) : state.pandemic,
+    agreements: expireAgreements(state.agreements, roundNumber),
+  }, `Start of round ${roundNumber}`);
+};
+
+// The initial outbreak is where the spread model starts from
+const seedPandemic = (state: GameState, pandemic: PandemicState): PandemicState =>
+  pandemic.enabled && state.initialOutbreak ? withInfections(pandemic, [state.initialOutbreak], state.roundNumber) : pandemic;
+
+const rewindTime = (state: GameState): GameState => {
+  if (state.roundNumber <= 1) return state;
+  const amount = advanceAmount(state.timeAdvance.value);
+  return replenishAll({
+    ...state,
+    gameDate: adjustDate(new Date(state.gameDate), -amount, state.timeAdvance.unit).toISOString(),
+    roundNumber: Math.max(1, state.roundNumber - 1),
+    agreements: unexpireAgreements(state.agreements, state.roundNumber),
+  }, `Rewound to round ${Math.max(1, state.roundNumber - 1)}`);
+};
+
+export const getParticipantIds = (state: GameState) => [
+  ...state.players.map((player) => player.id),
+  ...Object.values(state.countryActors).flatMap((actors) => actors.map((actor) => actor.id)),
+  ...state.externalOrganizations.map((org) => org.id),
+];
+
+export const findActor = (state: GameState, actorId: string) => {
+  for (const actors of Object.values(state.countryActors)) {
+    const match = actors.find((actor) => actor.id === actorId);
+    if (match) return match;
+  }
+  return undefined;
+};
+
+// Players spend from their own pool and local actors from theirs; organizations have none
+export const getParticipantPool = (state: GameState, participantId: string): { pool: TokenPoolKind; id: string } | null => {
+  if (state.players.some((player) => player.id === participantId)) return { pool: "player", id: participantId };
+  if (findActor(state, participantId)) return { pool: "actor", id: participantId };
+  return null;
+};
+
+// The reducer actions an adjudication effect stands for, worked out against the state
+// it will be applied to so track moves are relative to the value at that moment
+export const getEffectActions = (state: GameState, effect: AdjudicationEffect, reason?: string): GameAction[] => {
+  switch (effect.kind) {
+    case "assignCountry": {
+      const assign: GameAction = { type: "assignCountries", countries: [effect.country], playerId: effect.playerId };
+      return effect.replaceOwners ? [{ type: "clearOwners", countries: [effect.country] }, assign] : [assign];
+    }
+    case "removeOwner":
+      return [{ type: "removeOwner", country: effect.country, playerId: effect.playerId }];
+    case "tokens":
+      return [
+        ...(effect.pool === "country" ? [{ type: "ensureCountryTokens", country: effect.id } as GameAction] : []),
+        { type: "adjustTokens", pool: effect.pool, id: effect.id, delta: effect.delta, reason },
+      ];
+    case "interest":
+      return [{ type: "adjustNationalInterest", participantId: effect.participantId, delta: effect.delta }];
+    case "track": {
+      const track = state.tracks.find((item) => item.id === effect.trackId);
+      return track ? [{ type: "setTrackValue", trackId: track.id, value: track.value + effect.delta }] : [];
+    }
+    default:
+      return [];
+  }
+};
+
+// Repairs anything a save file or older snapshot may be missing: token pools,
+// interest positions and out-of-range counters.
+export const normalizeGameState = (state: GameState): GameState => {
+  const { phases } = state.scenario;
+  const phaseDurations = phases.map((phase, index) => Math.max(0, state.phaseDurations[index] ?? phase.seconds));
+  const interestLevelCount = Math.max(1, Math.floor(state.interestLevelCount) || 1);
+  let playerTokens = state.playerTokens;
+  state.players.forEach((player) => {
+    playerTokens = ensurePool(state, playerTokens, player.id, "player");
+  });
+  let countryTokens = state.countryTokens;
+  Object.keys(state.ownership).forEach((country) => {
+    countryTokens = ensurePool(state, countryTokens, country, "country");
+  });
+  let actorTokens = state.actorTokens;
+  Object.values(state.countryActors).forEach((actors) =>
+    actors.forEach((actor) => {
+      actorTokens = ensurePool(state, actorTokens, actor.id, "actor");
+    })
+  );
+  const nationalInterests: Record<string, number> = {};
+  getParticipantIds(state).forEach((id) => {
+    nationalInterests[id] = clamp(state.nationalInterests[id] ?? 0, 0, interestLevelCount);
+  });
+  return {
+    ...state,
+    playerTokens,
+    countryTokens,
+    actorTokens,
+    nationalInterests,
+    interestLevelCount,
+    phaseDurations,
+    phaseIndex: clamp(Math.floor(state.phaseIndex) || 0, 0, phases.length - 1),
+    roundNumber: Math.max(1, Math.floor(state.roundNumber) || 1),
+    timeAdvance: { ...state.timeAdvance, value: advanceAmount(state.timeAdvance.value) },
+    vaccineProgress: clamp(state.vaccineProgress, 0, state.scenario.tracks.vaccineMax),
+    tracks: (state.tracks ?? []).map((track) => ({ ...track, value: clampTrackValue(track, track.value) })),
+    pandemic: state.pandemic
+      ? { ...state.pandemic, transmissionRate: clampRate(state.pandemic.transmissionRate) }
+      : createPandemicState(),
+    countryCodes: state.countryCodes ?? {},
+    seaLinks: state.seaLinks ?? [],
+    tokenLedger: state.tokenLedger ?? [],
+    actionQueue: state.actionQueue ?? [],
+    agreements: state.agreements ?? [],
+    relationships: Object.fromEntries(
+      Object.entries(state.relationships ?? {}).map(([key, stance]) => [key, clampStance(stance)])
+    ),
+    units: state.units ?? [],
+    annotations: state.annotations ?? [],
+    discoveredAreas: state.discoveredAreas ?? {},
+    revealedCountries: state.revealedCountries ?? {},
+    eventLog: state.eventLog ?? [],
+  };
+};
+
+export function gameReducer(state: GameState, action: GameAction): GameState {
+  switch (action.type) {
+    case "newGame":
+      // A different scenario brings its own timers; restarting the same one keeps
+      // the timer and time-step setup made before starting
+      // Codes describe the maps seen, not the game, so they carry over
+      if (action.scenario) return { ...createInitialGameState(action.startDate, action.scenario), countryCodes: state.countryCodes };
+      return {
+        ...createInitialGameState(action.startDate, state.scenario),
+        countryCodes: state.countryCodes,
+        phaseDurations: state.phaseDurations,
+        timeAdvance: state.timeAdvance,
+        pandemic: { ...state.pandemic, infections: {} },
+      };
+    case "loadState":
+      return normalizeGameState(action.state);
+    case "reconcileCountries":
+      return reconcileCountries(state, action.countries, action.knownCodes);
+    case "addPlayer":
+      return {
+        ...state,
+        players: [...state.players, action.player],
+        playerTokens: ensurePool(state, state.playerTokens, action.player.id, "player"),
+        nationalInterests: { ...state.nationalInterests, [action.player.id]: state.nationalInterests[action.player.id] ?? 0 },
+      };
+    case "renamePlayer":
+      return {
+        ...state,
+        players: state.players.map((player) => (player.id === action.playerId ? { ...player, name: action.name } : player)),
+      };
+    case "removePlayer": {
+      const ownership: OwnershipMap = {};
+      Object.entries(state.ownership).forEach(([country, owners]) => {
+        const remaining = owners.filter((id) => id !== action.playerId);
+        if (remaining.length) ownership[country] = remaining;
+      });
+      return {
+        ...state,
+        players: state.players.filter((player) => player.id !== action.playerId),
+        ownership,
+        playerTokens: withoutKey(state.playerTokens, action.playerId),
+        nationalInterests: withoutKey(state.nationalInterests, action.playerId),
+        relationships: withoutParticipant(state.relationships, action.playerId),
+        units: state.units.filter((unit) => unit.ownerId !== action.playerId),
+        annotations: state.annotations.filter((annotation) => annotation.ownerId !== action.playerId),
+        discoveredAreas: withoutKey(state.discoveredAreas, action.playerId),
+        revealedCountries: withoutKey(state.revealedCountries, action.playerId),
+      };
+    }
+    case "assignCountries": {
+      const ownership: OwnershipMap = { ...state.ownership };
+      let countryTokens = state.countryTokens;
+      action.countries.forEach((country) => {
+        if (!country) return;
+        const current = ownership[country] ?? [];
+        if (!current.includes(action.playerId)) {
+          ownership[country] = [...current, action.playerId];
+        }
+        countryTokens = ensurePool(state, countryTokens, country, "country");
+      });
+      const label = action.label;
+      return {
+        ...state,
+        ownership,
+        countryTokens,
+        players: label
+          ? state.players.map((player) => (player.id === action.playerId ? { ...player, name: label } : player))
+          : state.players,
+      };
+    }
+    case "removeOwner": {
+      const current = state.ownership[action.country] ?? [];
+      if (!current.includes(action.playerId)) return state;
+      const next = current.filter((id) => id !== action.playerId);
+      const ownership = next.length
+        ? { ...state.ownership, [action.country]: next }
+        : withoutKey(state.ownership, action.country);
+      return { ...state, ownership };
+    }
+    case "clearOwners": {
+      const ownership = action.countries.reduce(withoutKey, state.ownership);
+      return ownership === state.ownership ? state : { ...state, ownership };
+    }
+    case "ensureCountryTokens": {
+      const countryTokens = ensurePool(state, state.countryTokens, action.country, "country");
+      return countryTokens === state.countryTokens ? state : { ...state, countryTokens };
+    }
+    case "setAllowance": {
+      const key = POOL_KEY[action.pool];
+      const pools = state[key];
+      const size = state.scenario.tokens[action.pool];
+      const pool = pools[action.id] ?? createPool(size);
+      const allowance = normalizedAllowance(action.allowance, size);
+      const available = Math.min(pool.available, allowance);
+      if (pools[action.id] && allowance === pool.allowance) return state;
+      return withLedgerEntries(withPool(state, action, { allowance, available }), [{
+        kind: "allowance",
+        pool: action.pool,
+        poolId: action.id,
+        delta: available - pool.available,
+        available,
+        allowance,
+        reason: action.reason ?? `Allowance set to ${allowance}`,
+        counterparty: null,
+      }]);
+    }
+    case "setCountryAllowances": {
+      const reason = `Allowance set to ${action.allowance} for ${action.countries.length} countries`;
+      return action.countries.reduce(
+        (current, country) => gameReducer(current, { type: "setAllowance", pool: "country", id: country, allowance: action.allowance, reason }),
+        state
+      );
+    }
+    case "adjustTokens": {
+      const key = POOL_KEY[action.pool];
+      const pools = state[key];
+      const pool = pools[action.id];
+      if (!pool) return state;
+      const available = clamp(pool.available + action.delta, 0, pool.allowance);
+      if (available === pool.available) return state;
+      return withLedgerEntries(withPool(state, action, { ...pool, available }), [{
+        kind: available < pool.available ? "spend" : "refund",
+        pool: action.pool,
+        poolId: action.id,
+        delta: available - pool.available,
+        available,
+        allowance: pool.allowance,
+        reason: action.reason ?? "Adjusted by the adjudicator",
+        counterparty: null,
+      }]);
+    }
+    case "transferTokens": {
+      const { from, to } = action;
+      const amount = getTransferAmount(state, from, to, action.amount);
+      const source = state[POOL_KEY[from.pool]][from.id];
+      const target = getPoolOrDefault(state, to);
+      if (!amount || !source || !target) return state;
+      const reason = action.reason?.trim() || "Transfer";
+      const next = withPool(
+        withPool(state, from, { ...source, available: source.available - amount }),
+        to,
+        { ...target, available: target.available + amount }
+      );
+      return withLedgerEntries(next, [
+        { kind: "transfer", pool: from.pool, poolId: from.id, delta: -amount, available: source.available - amount, allowance: source.allowance, reason, counterparty: to },
+        { kind: "transfer", pool: to.pool, poolId: to.id, delta: amount, available: target.available + amount, allowance: target.allowance, reason, counterparty: from },
+      ]);
+    }
+    case "replenishTokens":
+      return replenishAll(state, "Replenished by the adjudicator");
+    case "adjustNationalInterest": {
+      const current = state.nationalInterests[action.participantId] ?? 0;
+      const next = clamp(current + action.delta, 0, Math.max(1, state.interestLevelCount));
+      if (next === current) return state;
+      return { ...state, nationalInterests: { ...state.nationalInterests, [action.participantId]: next } };
+    }
+    case "setInterestLevelCount": {
+      const interestLevelCount = Math.max(1, Math.floor(action.count) || 1);
+      const nationalInterests = Object.fromEntries(
+        Object.entries(state.nationalInterests).map(([id, level]) => [id, clamp(level, 0, interestLevelCount)])
+      );
+      return { ...state, interestLevelCount, nationalInterests };
+    }
+    case "setOutbreak": {
+      if (!action.location) {
+        return { ...state, initialOutbreak: null, outbreakRoll: null };
+      }
+      const next = { ...state, initialOutbreak: action.location, outbreakRoll: action.roll };
+      return {
+        ...next,
+        countryTokens: ensurePool(state, state.countryTokens, action.location, "country"),
+        pandemic: seedPandemic(next, state.pandemic),
+      };
+    }
+    case "adjustVaccineProgress":
+      return { ...state, vaccineProgress: clamp(state.vaccineProgress + action.delta, 0, state.scenario.tracks.vaccineMax) };
+    case "addTrack":
+      if (state.tracks.some((track) => track.id === action.track.id)) return state;
+      return { ...state, tracks: [...state.tracks, action.track] };
+    case "updateTrack":
+      return updateTracks(state, action.trackId, (track) => {
+        const next = { ...track, ...action.updates };
+        if (next.max < next.min) return track;
+        if (action.updates.thresholds) next.thresholds = [...action.updates.thresholds].sort((a, b) => a.value - b.value);
+        // Narrowing the range pulls the value in with it
+        const value = clampTrackValue(next, next.value);
+        return value === next.value ? next : withTrackValue(next, value, state.roundNumber);
+      });
+    case "removeTrack":
+      if (!state.tracks.some((track) => track.id === action.trackId)) return state;
+      return { ...state, tracks: state.tracks.filter((track) => track.id !== action.trackId) };
+    case "setTrackValue":
+      return updateTracks(state, action.trackId, (track) => {
+        const value = clampTrackValue(track, action.value);
+        return value === track.value ? track : withTrackValue(track, value, state.roundNumber);
+      });
+    case "setPandemicSettings": {
+      const pandemic = {
+        ...state.pandemic,
+        enabled: action.enabled ?? state.pandemic.enabled,
+        transmissionRate: action.transmissionRate === undefined ? state.pandemic.transmissionRate : clampRate(action.transmissionRate),
+      };
+      return { ...state, pandemic: seedPandemic(state, pandemic) };
+    }
+    case "setCountryTransmissionRate": {
+      const countryRates = action.rate === null
+        ? withoutKey(state.pandemic.countryRates, action.country)
+        : { ...state.pandemic.countryRates, [action.country]: clampRate(action.rate) };
+      return countryRates === state.pandemic.countryRates ? state : { ...state, pandemic: { ...state.pandemic, countryRates } };
+    }
+    case "setInfectionStatus": {
+      const current = state.pandemic.infections[action.country];
+      if ((current?.status ?? null) === action.status) return state;
+      const infections = action.status
+        ? { ...state.pandemic.infections, [action.country]: { status: action.status, since: state.roundNumber } }
+        : withoutKey(state.pandemic.infections, action.country);
+      return { ...state, pandemic: { ...state.pandemic, infections } };
+    }
+    case "resetPandemic":
+      return { ...state, pandemic: seedPandemic(state, { ...state.pandemic, infections: {} }) };
+    case "addSeaLink": {
+      const link = normalizeSeaLink(...action.countries);
+      if (link[0] === link[1] || state.seaLinks.some((existing) => isSameSeaLink(existing, link))) return state;
+      return { ...state, seaLinks: [...state.seaLinks, link] };
+    }
+    case "removeSeaLink": {
+      const link = normalizeSeaLink(...action.countries);
+      const seaLinks = state.seaLinks.filter((existing) => !isSameSeaLink(existing, link));
+      return seaLinks.length === state.seaLinks.length ? state : { ...state, seaLinks };
+    }
+    case "saveCountryGroup": {
+      const name = action.name.trim();
+      const countries = Array.from(new Set(action.countries));
+      if (!name || !countries.length) return state;
+      // Groups live in the scenario so they are offered again after a restart and travel with saves
+      return { ...state, scenario: { ...state.scenario, countryGroups: { ...state.scenario.countryGroups, [name]: countries } } };
+    }
+    case "queueAction": {
+      if (state.actionQueue.some((queued) => queued.id === action.action.id)) return state;
+      const source = getParticipantPool(state, action.action.participantId);
+      const pool = source ? state[POOL_KEY[source.pool]][source.id] : undefined;
+      // Never commit more than the pool holds
+      const tokensCommitted = pool ? clamp(Math.floor(action.action.tokensCommitted) || 0, 0, pool.available) : 0;
+      const next = { ...state, actionQueue: [...state.actionQueue, { ...action.action, tokensCommitted }] };
+      return source && tokensCommitted
+        ? gameReducer(next, { type: "adjustTokens", ...source, delta: -tokensCommitted, reason: `Committed to "${action.action.description}"` })
+        : next;
+    }
+    case "withdrawAction": {
+      const queued = state.actionQueue.find((item) => item.id === action.actionId);
+      if (!queued || queued.resolution) return state;
+      const next = { ...state, actionQueue: state.actionQueue.filter((item) => item.id !== action.actionId) };
+      const source = getParticipantPool(state, queued.participantId);
+      return source && queued.tokensCommitted
+        ? gameReducer(next, { type: "adjustTokens", ...source, delta: queued.tokensCommitted, reason: `Withdrew "${queued.description}"` })
+        : next;
+    }
+    case "resolveAction": {
+      const queued = state.actionQueue.find((item) => item.id === action.actionId);
+      if (!queued || queued.resolution) return state;
+      const resolved = {
+        ...state,
+        actionQueue: state.actionQueue.map((item) => (item.id === action.actionId ? { ...item, resolution: action.resolution } : item)),
+      };
+      return action.resolution.effects.reduce(
+        (current, effect) => getEffectActions(current, effect, `Ruling on "${queued.description}"`).reduce(gameReducer, current),
+        resolved
+      );
+    }
+    case "addAgreement":
+      if (state.agreements.some((agreement) => agreement.id === action.agreement.id)) return state;
+      return { ...state, agreements: [...state.agreements, action.agreement] };
+    case "updateAgreement":
+      if (!state.agreements.some((agreement) => agreement.id === action.agreementId)) return state;
+      return {
+        ...state,
+        agreements: state.agreements.map((agreement) =>
+          agreement.id === action.agreementId ? { ...agreement, ...action.updates } : agreement
+        ),
+      };
+    case "setAgreementStatus": {
+      const current = state.agreements.find((agreement) => agreement.id === action.agreementId);
+      if (!current || current.status === action.status) return state;
+      const updated = withStatus(current, action.status, state.roundNumber);
+      return { ...state, agreements: state.agreements.map((agreement) => (agreement === current ? updated : agreement)) };
+    }
+    case "removeAgreement":
+      if (!state.agreements.some((agreement) => agreement.id === action.agreementId)) return state;
+      return { ...state, agreements: state.agreements.filter((agreement) => agreement.id !== action.agreementId) };
+    case "setRelationship": {
+      const relationships = withStance(state.relationships, ...action.participantIds, action.stance);
+      return relationships === state.relationships ? state : { ...state, relationships };
+    }
+    case "addUnit":
+      if (state.units.some((unit) => unit.id === action.unit.id)) return state;
+      return { ...state, units: [...state.units, { ...action.unit, strength: clampStrength(action.unit.strength) }] };
+    case "updateUnit": {
+      if (!state.units.some((unit) => unit.id === action.unitId)) return state;
+      const updates = action.updates.strength === undefined ? action.updates : { ...action.updates, strength: clampStrength(action.updates.strength) };
+      return { ...state, units: state.units.map((unit) => (unit.id === action.unitId ? { ...unit, ...updates } : unit)) };
+    }
+    case "moveUnits": {
+      const units = state.units.map((unit) =>
+        action.unitIds.includes(unit.id) ? withMove(unit, action.position, state.roundNumber) : unit
+      );
+      return units.every((unit, index) => unit === state.units[index]) ? state : { ...state, units };
+    }
+    case "removeUnit":
+      if (!state.units.some((unit) => unit.id === action.unitId)) return state;
+      return { ...state, units: state.units.filter((unit) => unit.id !== action.unitId) };
+    case "addAnnotation":
+      if (state.annotations.some((annotation) => annotation.id === action.annotation.id)) return state;
+      return { ...state, annotations: [...state.annotations, action.annotation] };
+    case "updateAnnotation":
+      if (!state.annotations.some((annotation) => annotation.id === action.annotationId)) return state;
+      return {
+        ...state,
+        annotations: state.annotations.map((annotation) =>
+          annotation.id === action.annotationId ? { ...annotation, ...action.updates } : annotation
+        ),
+      };
+    case "removeAnnotation":
+      if (!state.annotations.some((annotation) => annotation.id === action.annotationId)) return state;
+      return { ...state, annotations: state.annotations.filter((annotation) => annotation.id !== action.annotationId) };
+    case "clearAnnotations":
+      return state.annotations.length ? { ...state, annotations: [] } : state;
+    case "advanceTime":
+      return advanceTime(state, action.infections);
+    case "rewindTime":
+      return rewindTime(state);
+    case "nextPhase": {
+      const phaseIndex = (state.phaseIndex + 1) % state.scenario.phases.length;
+      const next = { ...state, phaseIndex };
+      return phaseIndex === 0 ? advanceTime(next, action.infections) : next;
+    }
+    case "prevPhase": {
+      const phaseIndex = (state.phaseIndex - 1 + state.scenario.phases.length) % state.scenario.phases.length;
+      const next = { ...state, phaseIndex };
+      return state.phaseIndex === 0 ? rewindTime(next) : next;
+    }
+    case "setStartDate": {
+      const parsed = new Date(action.date);
+      if (Number.isNaN(parsed.getTime())) return state;
+      return { ...state, gameDate: parsed.toISOString(), roundNumber: 1 };
+    }
+    case "setTimeAdvance":
+      return {
+        ...state,
+        timeAdvance: {
+          value: action.value === undefined ? state.timeAdvance.value : advanceAmount(action.value),
+          unit: action.unit ?? state.timeAdvance.unit,
+        },
+      };
+    case "setPhaseDuration": {
+      if (action.index < 0 || action.index >= state.phaseDurations.length) return state;
+      const phaseDurations = [...state.phaseDurations];
+      phaseDurations[action.index] = Math.max(0, action.seconds);
+      return { ...state, phaseDurations };
+    }
+    case "addLocalActor": {
+      const current = state.countryActors[action.country] ?? [];
+      return {
+        ...state,
+        countryActors: { ...state.countryActors, [action.country]: [...current, action.actor] },
+        actorTokens: ensurePool(state, state.actorTokens, action.actor.id, "actor"),
+        nationalInterests: { ...state.nationalInterests, [action.actor.id]: state.nationalInterests[action.actor.id] ?? 0 },
+      };
+    }
+    case "updateLocalActor": {
+      const list = state.countryActors[action.country] ?? [];
+      if (!list.some((actor) => actor.id === action.actorId)) return state;
+      return {
+        ...state,
+        countryActors: {
+          ...state.countryActors,
+          [action.country]: list.map((actor) => (actor.id === action.actorId ? { ...actor, ...action.updates } : actor)),
+        },
+      };
+    }
+    case "removeLocalActor": {
+      const list = state.countryActors[action.country] ?? [];
+      if (!list.length) return state;
+      const remaining = list.filter((actor) => actor.id !== action.actorId);
+      return {
+        ...state,
+        countryActors: remaining.length
+          ? { ...state.countryActors, [action.country]: remaining }
+          : withoutKey(state.countryActors, action.country),
+        actorTokens: withoutKey(state.actorTokens, action.actorId),
+        nationalInterests: withoutKey(state.nationalInterests, action.actorId),
+        relationships: withoutParticipant(state.relationships, action.actorId),
+        units: state.units.filter((unit) => unit.ownerId !== action.actorId),
+        annotations: state.annotations.filter((annotation) => annotation.ownerId !== action.actorId),
+      };
+    }
+    case "addOrganization":
+      return {
+        ...state,
+        externalOrganizations: [...state.externalOrganizations, action.organization],
+        nationalInterests: {
+          ...state.nationalInterests,
+          [action.organization.id]: state.nationalInterests[action.organization.id] ?? 0,
+        },
+      };
+    case "updateOrganization":
+      if (!state.externalOrganizations.some((org) => org.id === action.organizationId)) return state;
+      return {
+        ...state,
+        externalOrganizations: state.externalOrganizations.map((org) =>
+          org.id === action.organizationId ? { ...org, ...action.updates } : org
+        ),
+      };
+    case "removeOrganization":
+      return {
+        ...state,
+        externalOrganizations: state.externalOrganizations.filter((org) => org.id !== action.organizationId),
+        nationalInterests: withoutKey(state.nationalInterests, action.organizationId),
+        relationships: withoutParticipant(state.relationships, action.organizationId),
+        annotations: state.annotations.filter((annotation) => annotation.ownerId !== action.organizationId),
+      };
+    case "revealArea": {
+      const discoveredAreas = updateFog(state.discoveredAreas, fogTargets(state, action.playerId), (areas) => [...areas, action.position]);
+      return discoveredAreas === state.discoveredAreas ? state : { ...state, discoveredAreas };
+    }
+    case "refogArea": {
+      const discoveredAreas = updateFog(state.discoveredAreas, fogTargets(state, action.playerId), (areas) => {
+        const kept = areas.filter((area) => distanceKm(area, action.position) > action.radiusKm);
+        return kept.length === areas.length ? areas : kept;
+      });
+      return discoveredAreas === state.discoveredAreas ? state : { ...state, discoveredAreas };
+    }
+    case "revealCountries": {
+      const revealedCountries = updateFog(state.revealedCountries, fogTargets(state, action.playerId), (countries) => {
+        const added = action.countries.filter((country) => !countries.includes(country));
+        return added.length ? [...countries, ...added] : countries;
+      });
+      return revealedCountries === state.revealedCountries ? state : { ...state, revealedCountries };
+    }
+    case "refogCountries": {
+      const revealedCountries = updateFog(state.revealedCountries, fogTargets(state, action.playerId), (countries) =>
+        countries.some((country) => action.countries.includes(country))
+          ? countries.filter((country) => !action.countries.includes(country))
+          : countries
+      );
+      return revealedCountries === state.revealedCountries ? state : { ...state, revealedCountries };
+    }
+    case "resetFog": {
+      const targets = fogTargets(state, action.playerId);
+      const clear = <T>(list: T[]) => (list.length ? [] : list);
+      const discoveredAreas = updateFog(state.discoveredAreas, targets, clear);
+      const revealedCountries = updateFog(state.revealedCountries, targets, clear);
+      if (discoveredAreas === state.discoveredAreas && revealedCountries === state.revealedCountries) return state;
+      return { ...state, discoveredAreas, revealedCountries };
+    }
+    case "logEvents":
+      if (!action.events.length) return state;
+      return { ...state, eventLog: [...state.eventLog, ...action.events] };
+    default:
+      return state;
+  }
+}
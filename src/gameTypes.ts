@@ -0,0 +1,140 @@
+import type { TokenPoolKind } from "./gameState";
+
+export type LatLng = { lat: number; lng: number };
+export type Player = { id: string; name: string; color: string };
+export type TimeUnit = "days" | "months" | "years";
+export type OwnershipMap = Record<string, string[]>;
+export type LocalActor = { id: string; name: string; color: string; notes: string; position: LatLng };
+export type ExternalOrganization = {
+  id: string;
+  name: string;
+  picture?: string; // Base64 data URL or regular URL
+  pictureFile?: File; // Original file for reference
+  position: LatLng;
+  width: number;
+  height: number;
+  imageHeight?: number; // Height of the image area in pixels
+  color: string;
+  notes: string;
+};
+export type TokenPool = { allowance: number; available: number };
+export type TrackParticipant = { id: string; name: string; color: string; kind: "player" | "actor" | "organization"; territory?: string };
+export type TrackThreshold = { value: number; label: string };
+export type CustomTrack = {
+  id: string;
+  name: string;
+  color: string;
+  min: number;
+  max: number;
+  value: number;
+  thresholds: TrackThreshold[];
+  showOnHud: boolean;
+  // Latest value in each round, keyed by round number
+  history: Record<number, number>;
+};
+export type InfectionStatus = "infected" | "contained";
+// `since` is the round the country reached its current status
+export type CountryInfection = { status: InfectionStatus; since: number };
+export type PandemicState = {
+  enabled: boolean;
+  // Chance per round that an infected neighbour passes the infection on, 0–1
+  transmissionRate: number;
+  // Per-country replacements for transmissionRate, e.g. for closed borders
+  countryRates: Record<string, number>;
+  infections: Record<string, CountryInfection>;
+};
+// A state change a ruling makes; every effect of a resolved action lands in one step
+export type AdjudicationEffect =
+  // replaceOwners hands the country over outright instead of sharing it
+  | { kind: "assignCountry"; country: string; playerId: string; replaceOwners: boolean }
+  | { kind: "removeOwner"; country: string; playerId: string }
+  | { kind: "tokens"; pool: TokenPoolKind; id: string; delta: number }
+  | { kind: "interest"; participantId: string; delta: number }
+  | { kind: "track"; trackId: string; delta: number };
+export type ActionRoll = { expression: string; total: number; seed: number; success: boolean | null };
+export type ActionResolution = {
+  round: number;
+  // Null when the adjudicator ruled without rolling
+  roll: ActionRoll | null;
+  outcome: string;
+  effects: AdjudicationEffect[];
+};
+// An action a participant submitted in the Action Phase, awaiting or carrying its ruling
+export type QueuedAction = {
+  id: string;
+  round: number;
+  participantId: string;
+  targetCountry: string | null;
+  // Taken from the participant's pool when recorded; withdrawing returns them
+  tokensCommitted: number;
+  description: string;
+  resolution: ActionResolution | null;
+};
+export type AgreementStatus = "proposed" | "signed" | "broken" | "expired";
+// A deal struck in the Negotiation Phase between players, local actors and organizations
+export type Agreement = {
+  id: string;
+  title: string;
+  // Participant ids
+  parties: string[];
+  terms: string;
+  // Rounds it runs once signed; null for open-ended
+  durationRounds: number | null;
+  status: AgreementStatus;
+  proposedRound: number;
+  signedRound: number | null;
+  // Round it was broken in or ran out at
+  endedRound: number | null;
+};
+export type TokenPoolRef = { pool: TokenPoolKind; id: string };
+export type TokenLedgerKind = "spend" | "refund" | "replenish" | "allowance" | "transfer";
+// One change to one pool's balance or allowance; a transfer writes an entry on each side
+export type TokenLedgerEntry = {
+  id: number;
+  round: number;
+  phase: string;
+  kind: TokenLedgerKind;
+  pool: TokenPoolKind;
+  poolId: string;
+  // Change to the available balance; transfers out are negative
+  delta: number;
+  // Pool after the change
+  available: number;
+  allowance: number;
+  reason: string;
+  // The other side of a transfer
+  counterparty: TokenPoolRef | null;
+};
+export type UnitKind = "military" | "naval" | "air" | "diplomatic" | "economic" | "intelligence";
+export type UnitWaypoint = { round: number; position: LatLng };
+// A counter on the map; units at the same position form a stack
+export type MapUnit = {
+  id: string;
+  kind: UnitKind;
+  // A player or local actor
+  ownerId: string;
+  label: string;
+  strength: number;
+  position: LatLng;
+  // Where the unit stood before each move, oldest first
+  path: UnitWaypoint[];
+};
+export type AnnotationKind = "arrow" | "polyline" | "polygon" | "circle" | "text";
+// A shape sketched on the map to show intent
+export type Annotation = {
+  id: string;
+  kind: AnnotationKind;
+  color: string;
+  // A participant, or null for the adjudicator
+  ownerId: string | null;
+  // Arrows run from the first point to the last; circles and text use the first
+  points: LatLng[];
+  // Circles only
+  radiusKm: number;
+  // Text labels only
+  text: string;
+  // Shown only in this round; null shows it in every round
+  round: number | null;
+  // Shown on the presenter view and to every player; otherwise only its owner sees it
+  public: boolean;
+};
@@ -0,0 +1,44 @@
+export const HISTORY_LIMIT = 100;
+const COALESCE_WINDOW_MS = 1000;
+
+export type HistoryEntry<T> = {
+  label: string;
+  state: T;
+  // Consecutive entries sharing a key (e.g. typing into a name field) collapse into one.
+  coalesceKey?: string;
+  at: number;
+};
+
+export type HistoryStacks<T> = { past: HistoryEntry<T>[]; future: HistoryEntry<T>[] };
+
+export const createHistory = <T>(): HistoryStacks<T> => ({ past: [], future: [] });
+
+export const pushHistory = <T>(stacks: HistoryStacks<T>, entry: HistoryEntry<T>): HistoryStacks<T> => {
+  const last = stacks.past[stacks.past.length - 1];
+  if (last && entry.coalesceKey && last.coalesceKey === entry.coalesceKey && entry.at - last.at < COALESCE_WINDOW_MS) {
+    // Keep the oldest state so undo jumps back past the whole burst of edits
+    const merged = { ...last, at: entry.at };
+    return { past: [...stacks.past.slice(0, -1), merged], future: [] };
+  }
+  const past = [...stacks.past, entry];
+  return { past: past.slice(Math.max(0, past.length - HISTORY_LIMIT)), future: [] };
+};
+
+// Moves the latest entry to the redo stack, storing `current` so redo can return to it.
+export const undoHistory = <T>(stacks: HistoryStacks<T>, current: T): HistoryStacks<T> => {
+  const entry = stacks.past[stacks.past.length - 1];
+  if (!entry) return stacks;
+  return {
+    past: stacks.past.slice(0, -1),
+    future: [...stacks.future, { ...entry, state: current, coalesceKey: undefined }],
+  };
+};
+
+export const redoHistory = <T>(stacks: HistoryStacks<T>, current: T): HistoryStacks<T> => {
+  const entry = stacks.future[stacks.future.length - 1];
+  if (!entry) return stacks;
+  return {
+    past: [...stacks.past, { ...entry, state: current, coalesceKey: undefined }],
+    future: stacks.future.slice(0, -1),
+  };
+};
@@ -0,0 +1,284 @@
+import L from "leaflet";
+import type { Annotation, CountryInfection, LatLng, UnitWaypoint } from "./gameTypes";
+import { NEUTRAL_COLOR } from "./playerColors";
+
+// Drawing helpers shared by the adjudicator map and the presenter view.
+
+export const WORLD_BOUNDS = L.latLngBounds(L.latLng(-85, -180), L.latLng(85, 180));
+
+const hexToRgb = (hex: string) => {
+  const normalized = hex.replace(/[^0-9a-f]/gi, "");
+  if (normalized.length !== 6) return null;
+  const bigint = parseInt(normalized, 16);
+  const r = (bigint >> 16) & 255;
+  const g = (bigint >> 8) & 255;
+  const b = bigint & 255;
+  return { r, g, b };
+};
+
+const rgbToHex = (r: number, g: number, b: number) =>
+  `#${[r, g, b]
+    .map((v) => {
+      const clamped = Math.max(0, Math.min(255, Math.round(v)));
+      return clamped.toString(16).padStart(2, "0");
+    })
+    .join("")}`;
+
+export const blendHexColors = (colors: string[]) => {
+  if (!colors.length) return NEUTRAL_COLOR;
+  const valid = colors
+    .map((hex) => ({ hex, rgb: hexToRgb(hex) }))
+    .filter((entry) => entry.rgb !== null) as { hex: string; rgb: { r: number; g: number; b: number } }[];
+  if (!valid.length) return NEUTRAL_COLOR;
+  const totals = valid.reduce(
+    (acc, { rgb }) => {
+      acc.r += rgb.r;
+      acc.g += rgb.g;
+      acc.b += rgb.b;
+      return acc;
+    },
+    { r: 0, g: 0, b: 0 }
+  );
+  const count = valid.length;
+  return rgbToHex(totals.r / count, totals.g / count, totals.b / count);
+};
+
+export const getActorInitials = (name: string) => {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  if (!parts.length) return "?";
+  const initials = parts.slice(0, 2).map((segment) => segment[0]!.toUpperCase());
+  return initials.join("");
+};
+
+export const createActorIcon = (color: string, name: string, highlight: boolean) =>
+  L.divIcon({
+    className: "actor-marker",
+    html: `<div class="actor-marker-bubble${highlight ? " actor-marker-bubble-active" : ""}" style="background:${color}"><span>${getActorInitials(name)}</span></div>`,
+    iconSize: [32, 32],
+    iconAnchor: [16, 16],
+    tooltipAnchor: [0, -20],
+  });
+
+// A square counter: type icon in the owner's colour, strength, and a count when stacked
+export const createUnitIcon = (color: string, glyph: string, strength: number, count: number, selected: boolean) =>
+  L.divIcon({
+    className: "unit-marker",
+    html:
+      `<div class="unit-counter${selected ? " unit-counter-selected" : ""}${count > 1 ? " unit-counter-stacked" : ""}" style="border-color:${color}">` +
+      `<span class="unit-counter-icon" style="background:${color}">${glyph}</span>` +
+      `<span class="unit-counter-strength">${strength}</span>` +
+      (count > 1 ? `<span class="unit-counter-count">×${count}</span>` : "") +
+      `</div>`,
+    iconSize: [40, 40],
+    iconAnchor: [20, 20],
+    tooltipAnchor: [0, -22],
+  });
+
+type RingTree = L.LatLng | RingTree[];
+
+// The largest part of a country, so France's label sits in Europe rather than between it and Guiana
+export const largestPartBounds = (polygon: L.Polygon) => {
+  // Rings of a Polygon, or [outer, ...holes] per part of a MultiPolygon
+  const parts = polygon.getLatLngs() as RingTree[][];
+  let best: L.LatLngBounds | null = null;
+  let bestArea = -1;
+  parts.forEach((part) => {
+    const outer = (part[0] instanceof L.LatLng ? part : part[0]) as L.LatLng[];
+    if (!outer.length) return;
+    const bounds = L.latLngBounds(outer);
+    const area = (bounds.getNorth() - bounds.getSouth()) * (bounds.getEast() - bounds.getWest());
+    if (area > bestArea) {
+      best = bounds;
+      bestArea = area;
+    }
+  });
+  return { bounds: best as L.LatLngBounds | null, area: bestArea };
+};
+
+// Where a marker or line end for a whole country should sit
+export const getCountryAnchor = (polygon: L.Polygon): LatLng | null => {
+  const center = largestPartBounds(polygon).bounds?.getCenter();
+  return center ? { lat: center.lat, lng: center.lng } : null;
+};
+
+// ────────────────────────────────────────────────────────────────────────────
+// Infection overlay
+// ────────────────────────────────────────────────────────────────────────────
+
+const INFECTION_PANE = "infection";
+const INFECTED_COLOR = "#dc2626";
+const CONTAINED_COLOR = "#f59e0b";
+
+// Choropleth by how long a country has been infected, so the front of the spread stands out
+const infectionStyle = (infection: CountryInfection, round: number): L.PathOptions => {
+  if (infection.status === "contained") {
+    return { color: CONTAINED_COLOR, weight: 1.5, dashArray: "4 4", fillColor: CONTAINED_COLOR, fillOpacity: 0.2 };
+  }
+  const age = Math.max(0, Math.min(4, round - infection.since));
+  return { color: INFECTED_COLOR, weight: 1, fillColor: INFECTED_COLOR, fillOpacity: 0.25 + age * 0.1 };
+};
+
+export const createInfectionOverlay = (
+  map: L.Map,
+  countries: Record<string, L.Polygon>,
+  infections: Record<string, CountryInfection>,
+  round: number
+) => {
+  const pane = map.getPane(INFECTION_PANE) ?? map.createPane(INFECTION_PANE);
+  // Above the country fills, below markers; clicks fall through to the countries
+  pane.style.zIndex = "410";
+  pane.style.pointerEvents = "none";
+  const group = L.layerGroup();
+  Object.entries(infections).forEach(([country, infection]) => {
+    const polygon = countries[country];
+    if (!polygon) return;
+    L.polygon(polygon.getLatLngs() as L.LatLng[][], { ...infectionStyle(infection, round), pane: INFECTION_PANE, interactive: false }).addTo(group);
+  });
+  return group;
+};
+
+// ────────────────────────────────────────────────────────────────────────────
+// Treaty lines
+// ────────────────────────────────────────────────────────────────────────────
+
+const TREATY_PANE = "treaties";
+const TREATY_COLOR = "#fbbf24";
+
+// One point per party, in the order the parties are listed
+export type TreatyLine = { id: string; label: string; points: LatLng[] };
+
+export const createTreatyOverlay = (map: L.Map, treaties: TreatyLine[]) => {
+  const pane = map.getPane(TREATY_PANE) ?? map.createPane(TREATY_PANE);
+  // Over the infection overlay, under markers
+  pane.style.zIndex = "420";
+  const group = L.layerGroup();
+  treaties.forEach((treaty) => {
+    treaty.points.forEach((from, index) => {
+      treaty.points.slice(index + 1).forEach((to) => {
+        L.polyline([[from.lat, from.lng], [to.lat, to.lng]], {
+          pane: TREATY_PANE,
+          color: TREATY_COLOR,
+          weight: 2.5,
+          opacity: 0.9,
+          dashArray: "8 6",
+        })
+          .bindTooltip(treaty.label, { sticky: true, opacity: 0.9 })
+          .addTo(group);
+      });
+    });
+    treaty.points.forEach((point) => {
+      L.circleMarker([point.lat, point.lng], {
+        pane: TREATY_PANE,
+        radius: 4,
+        color: TREATY_COLOR,
+        weight: 2,
+        fillColor: "#0f172a",
+        fillOpacity: 1,
+        interactive: false,
+      }).addTo(group);
+    });
+  });
+  return group;
+};
+
+// ────────────────────────────────────────────────────────────────────────────
+// Unit paths
+// ────────────────────────────────────────────────────────────────────────────
+
+const UNIT_PATH_PANE = "unit-paths";
+
+// Every position a unit has held, ending where it stands now
+export type UnitPath = { id: string; label: string; color: string; waypoints: UnitWaypoint[]; position: LatLng };
+
+export const createUnitPathOverlay = (map: L.Map, paths: UnitPath[]) => {
+  const pane = map.getPane(UNIT_PATH_PANE) ?? map.createPane(UNIT_PATH_PANE);
+  // Over treaty lines, under markers
+  pane.style.zIndex = "430";
+  const group = L.layerGroup();
+  paths.forEach((path) => {
+    const points = [...path.waypoints.map((waypoint) => waypoint.position), path.position];
+    L.polyline(
+      points.map(({ lat, lng }) => [lat, lng] as [number, number]),
+      { pane: UNIT_PATH_PANE, color: path.color, weight: 3, opacity: 0.85, dashArray: "2 6", lineCap: "round" }
+    )
+      .bindTooltip(path.label, { sticky: true, opacity: 0.9 })
+      .addTo(group);
+    path.waypoints.forEach((waypoint) => {
+      L.circleMarker([waypoint.position.lat, waypoint.position.lng], {
+        pane: UNIT_PATH_PANE,
+        radius: 4,
+        color: path.color,
+        weight: 2,
+        fillColor: "#0f172a",
+        fillOpacity: 1,
+      })
+        .bindTooltip(`${path.label} · round ${waypoint.round}`, { direction: "top", opacity: 0.9 })
+        .addTo(group);
+    });
+  });
+  return group;
+};
+
+// ────────────────────────────────────────────────────────────────────────────
+// Annotations
+// ────────────────────────────────────────────────────────────────────────────
+
+const ANNOTATION_PANE = "annotations";
+
+// Two barbs a quarter of the shaft long, capped so long arrows keep a readable head
+const getArrowHead = (tail: LatLng, head: LatLng): LatLng[] => {
+  const dx = head.lng - tail.lng;
+  const dy = head.lat - tail.lat;
+  const length = Math.hypot(dx, dy);
+  if (!length) return [];
+  const size = Math.min(length * 0.25, 4);
+  const angle = Math.atan2(dy, dx);
+  return [angle + 0.45, angle - 0.45].map((barb) => ({ lat: head.lat - size * Math.sin(barb), lng: head.lng - size * Math.cos(barb) }));
+};
+
+const toLatLngs = (points: LatLng[]) => points.map(({ lat, lng }) => [lat, lng] as [number, number]);
+
+// Drawn without interaction so sketches never get in the way of selecting countries.
+// `draft` draws dashed, with the clicked points marked, for a shape still being drawn.
+export const createAnnotationOverlay = (map: L.Map, annotations: Annotation[], draft = false) => {
+  const pane = map.getPane(ANNOTATION_PANE) ?? map.createPane(ANNOTATION_PANE);
+  // Over unit paths, under markers
+  pane.style.zIndex = "440";
+  pane.style.pointerEvents = "none";
+  const group = L.layerGroup();
+  annotations.forEach((annotation) => {
+    const { color, points } = annotation;
+    const style: L.PathOptions = { pane: ANNOTATION_PANE, color, weight: 3, opacity: 0.95, interactive: false, dashArray: draft ? "6 6" : undefined };
+    if (annotation.kind === "text") {
+      const label = document.createElement("span");
+      label.className = "annotation-text";
+      label.style.color = color;
+      label.textContent = annotation.text;
+      L.marker([points[0].lat, points[0].lng], {
+        pane: ANNOTATION_PANE,
+        icon: L.divIcon({ className: "annotation-text-marker", html: label, iconSize: undefined }),
+        interactive: false,
+        keyboard: false,
+      }).addTo(group);
+    } else if (annotation.kind === "circle") {
+      L.circle([points[0].lat, points[0].lng], { ...style, radius: annotation.radiusKm * 1000, fillColor: color, fillOpacity: 0.15 }).addTo(group);
+    } else if (annotation.kind === "polygon" && points.length > 2) {
+      L.polygon(toLatLngs(points), { ...style, fillColor: color, fillOpacity: 0.2 }).addTo(group);
+    } else {
+      L.polyline(toLatLngs(points), style).addTo(group);
+    }
+    if (annotation.kind === "arrow" && points.length > 1) {
+      const head = points[points.length - 1];
+      const barbs = getArrowHead(points[points.length - 2], head);
+      if (barbs.length) {
+        L.polygon(toLatLngs([barbs[0], head, barbs[1]]), { ...style, dashArray: undefined, fillColor: color, fillOpacity: 0.95 }).addTo(group);
+      }
+    }
+    if (draft) {
+      points.forEach((point) =>
+        L.circleMarker([point.lat, point.lng], { pane: ANNOTATION_PANE, radius: 4, color, weight: 2, fillColor: "#0f172a", fillOpacity: 1, interactive: false }).addTo(group)
+      );
+    }
+  });
+  return group;
+};
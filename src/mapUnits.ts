@@ -0,0 +1,70 @@
+import type { LatLng, MapUnit, UnitKind } from "./gameTypes";
+
+// Counters for military, diplomatic and economic units. A unit dropped onto another
+// takes its exact position, and every unit at one position is drawn as one stack.
+
+export const UNIT_KIND_LABELS: Record<UnitKind, string> = {
+  military: "Military",
+  naval: "Naval",
+  air: "Air",
+  diplomatic: "Diplomatic",
+  economic: "Economic",
+  intelligence: "Intelligence",
+};
+
+export const UNIT_KIND_ICONS: Record<UnitKind, string> = {
+  military: "⚔",
+  naval: "⚓",
+  air: "✈",
+  diplomatic: "✉",
+  economic: "$",
+  intelligence: "◉",
+};
+
+export const UNIT_KINDS = Object.keys(UNIT_KIND_LABELS) as UnitKind[];
+
+// How close, in screen pixels, a dropped counter must land to join a stack
+export const STACK_SNAP_PX = 24;
+
+export type UnitStack = {
+  // The first unit's id, so a stack keeps its marker while units join or leave it
+  id: string;
+  position: LatLng;
+  units: MapUnit[];
+};
+
+const positionKey = ({ lat, lng }: LatLng) => `${lat.toFixed(5)},${lng.toFixed(5)}`;
+
+export const isSamePosition = (a: LatLng, b: LatLng) => positionKey(a) === positionKey(b);
+
+export const getUnitStacks = (units: MapUnit[]): UnitStack[] => {
+  const stacks = new Map<string, UnitStack>();
+  units.forEach((unit) => {
+    const key = positionKey(unit.position);
+    const stack = stacks.get(key);
+    if (stack) stack.units.push(unit);
+    else stacks.set(key, { id: unit.id, position: unit.position, units: [unit] });
+  });
+  return Array.from(stacks.values());
+};
+
+export const getStackStrength = (stack: UnitStack) => stack.units.reduce((sum, unit) => sum + unit.strength, 0);
+
+export const clampStrength = (value: number) => Math.max(0, Math.floor(value) || 0);
+
+export const createUnit = (id: string, kind: UnitKind, ownerId: string, label: string, strength: number, position: LatLng): MapUnit => ({
+  id,
+  kind,
+  ownerId,
+  label: label.trim() || UNIT_KIND_LABELS[kind],
+  strength: clampStrength(strength),
+  position,
+  path: [],
+});
+
+// The position being left is kept with the round the unit moved in
+export const withMove = (unit: MapUnit, position: LatLng, round: number): MapUnit =>
+  isSamePosition(unit.position, position) ? unit : { ...unit, position, path: [...unit.path, { round, position: unit.position }] };
+
+// Splitting a unit off its stack nudges it aside so it gets its own counter
+export const getSplitPosition = ({ lat, lng }: LatLng, offset = 1): LatLng => ({ lat: lat - 0.8 * offset, lng: lng + 0.8 * offset });
@@ -0,0 +1,70 @@
+import type { AdjacencyGraph } from "./adjacency";
+import type { CountryInfection, InfectionStatus, PandemicState } from "./gameTypes";
+
+// Optional spread model for pandemic scenarios. Each new round every infected,
+// uncontained country may pass the infection to its neighbours; vaccine progress
+// scales the chance down until a finished vaccine stops the spread entirely.
+
+export const DEFAULT_TRANSMISSION_RATE = 0.3;
+
+export const INFECTION_STATUS_LABELS: Record<InfectionStatus | "healthy", string> = {
+  healthy: "Healthy",
+  infected: "Infected",
+  contained: "Contained",
+};
+
+export const createPandemicState = (): PandemicState => ({
+  enabled: false,
+  transmissionRate: DEFAULT_TRANSMISSION_RATE,
+  countryRates: {},
+  infections: {},
+});
+
+export const clampRate = (rate: number) => (Number.isFinite(rate) ? Math.max(0, Math.min(1, rate)) : DEFAULT_TRANSMISSION_RATE);
+
+export const getInfectionStatus = (pandemic: PandemicState, country: string): InfectionStatus | "healthy" =>
+  pandemic.infections[country]?.status ?? "healthy";
+
+// Share of the base rate left once the vaccine track is taken into account
+export const getVaccineFactor = (vaccineProgress: number, vaccineMax: number) =>
+  vaccineMax > 0 ? Math.max(0, 1 - vaccineProgress / vaccineMax) : 1;
+
+export const getEffectiveRate = (pandemic: PandemicState, country: string, vaccineFactor: number) =>
+  (pandemic.countryRates[country] ?? pandemic.transmissionRate) * vaccineFactor;
+
+// Countries newly infected by one round of spread, in the order they were reached.
+// Each healthy country rolls once, with every infected neighbour adding its own chance.
+export const simulateSpread = (
+  pandemic: PandemicState,
+  adjacency: AdjacencyGraph,
+  vaccineFactor: number,
+  random: () => number = Math.random
+): string[] => {
+  const exposure = new Map<string, number>();
+  Object.entries(pandemic.infections).forEach(([country, infection]) => {
+    if (infection.status !== "infected") return;
+    (adjacency[country] ?? []).forEach((neighbour) => {
+      if (pandemic.infections[neighbour]) return;
+      exposure.set(neighbour, (exposure.get(neighbour) ?? 0) + 1);
+    });
+  });
+  const infected: string[] = [];
+  Array.from(exposure.keys())
+    .sort((a, b) => a.localeCompare(b))
+    .forEach((country) => {
+      const rate = getEffectiveRate(pandemic, country, vaccineFactor);
+      const chance = 1 - (1 - rate) ** (exposure.get(country) ?? 0);
+      if (chance > 0 && random() < chance) infected.push(country);
+    });
+  return infected;
+};
+
+export const withInfections = (pandemic: PandemicState, countries: string[], round: number): PandemicState => {
+  const added = countries.filter((country) => !pandemic.infections[country]);
+  if (!added.length) return pandemic;
+  const infections: Record<string, CountryInfection> = { ...pandemic.infections };
+  added.forEach((country) => {
+    infections[country] = { status: "infected", since: round };
+  });
+  return { ...pandemic, infections };
+};
@@ -0,0 +1,6 @@
+// Colours for players, actors and organizations. Kept apart from the Leaflet drawing
+// helpers so the game rules and scenario packs load without a browser.
+
+export const NEUTRAL_COLOR = "#94a3b8";
+
+export const PLAYER_COLORS = ["#ef4444", "#22c55e", "#3b82f6", "#eab308", "#a855f7", "#14b8a6", "#f97316", "#f5f5f5"];
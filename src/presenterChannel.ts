@@ -0,0 +1,78 @@
+import type { CountryBoundaries } from "./countryBoundaries";
+import type { MapView } from "./gameSave";
+import type { Annotation, CountryInfection, CustomTrack, LatLng, TrackParticipant } from "./gameTypes";
+import type { TreatyLine } from "./mapGraphics";
+
+// The adjudicator window is the only source of truth; the presenter window just
+// renders whatever it is sent. Snapshots are pre-filtered so notes and anything
+// hidden by fog of war never leave the adjudicator window.
+
+const CHANNEL_NAME = "wargames-presenter";
+
+export const PRESENTER_QUERY_PARAM = "presenter";
+
+export type PresenterActor = { id: string; name: string; color: string; position: LatLng };
+
+// One counter per stack, with its strength summed
+export type PresenterUnitStack = {
+  id: string;
+  color: string;
+  glyph: string;
+  strength: number;
+  count: number;
+  position: LatLng;
+};
+
+// Sent on its own every tick, so the clock does not resend the whole snapshot
+export type PresenterTimer = { phase: string; seconds: number; running: boolean };
+
+export type PresenterSnapshot = {
+  // Owner colours per country; fogged countries are left out
+  countryColors: Record<string, string[]>;
+  actors: PresenterActor[];
+  mapView: MapView | null;
+  fog: { areas: LatLng[]; countries: string[]; radiusKm: number; opacity: number } | null;
+  round: { number: number; gameDate: string } | null;
+  // Local actors under fog are left out
+  interest: { levels: number; participants: TrackParticipant[]; positions: Record<string, number> } | null;
+  // Spread model overlay; fogged countries are left out
+  infection: { infections: Record<string, CountryInfection>; round: number } | null;
+  // Only the tracks the adjudicator has put on the HUD
+  tracks: CustomTrack[];
+  // Signed agreements; any with a party under fog are left out
+  treaties: TreatyLine[];
+  // Stacks under fog are left out
+  units: PresenterUnitStack[];
+  // Those for the current round and those shown in every round
+  annotations: Annotation[];
+};
+
+export type PresenterMessage =
+  | { type: "snapshot"; snapshot: PresenterSnapshot }
+  // Null when the adjudicator has hidden the timer overlay
+  | { type: "timer"; timer: PresenterTimer | null }
+  // Boundaries the adjudicator loaded from a file; null means the bundled set
+  | { type: "boundaries"; boundaries: CountryBoundaries | null }
+  // Sent by a presenter window when it opens so it doesn't wait for the next change
+  | { type: "requestSnapshot" };
+
+export const isPresenterWindow = () => new URLSearchParams(window.location.search).has(PRESENTER_QUERY_PARAM);
+
+export const getPresenterUrl = () => {
+  const url = new URL(window.location.href);
+  url.search = `?${PRESENTER_QUERY_PARAM}`;
+  url.hash = "";
+  return url.toString();
+};
+
+export const openPresenterChannel = (onMessage: (message: PresenterMessage) => void) => {
+  if (typeof BroadcastChannel === "undefined") return null;
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<PresenterMessage>) => onMessage(event.data);
+  return {
+    post: (message: PresenterMessage) => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+};
+
+export type PresenterChannel = NonNullable<ReturnType<typeof openPresenterChannel>>;
@@ -0,0 +1,57 @@
+// How each pair of participants stands toward the other, from hostile to allied.
+// Stances are mutual, so each pair is stored once under a key sorted by id; a pair
+// with no entry is neutral.
+
+export type Relationships = Record<string, number>;
+
+export const STANCE_MIN = -2;
+export const STANCE_MAX = 2;
+
+export const STANCES: { value: number; label: string; color: string }[] = [
+  { value: -2, label: "Hostile", color: "#dc2626" },
+  { value: -1, label: "Unfriendly", color: "#f97316" },
+  { value: 0, label: "Neutral", color: "#94a3b8" },
+  { value: 1, label: "Friendly", color: "#84cc16" },
+  { value: 2, label: "Allied", color: "#22c55e" },
+];
+
+// Colour for a participant's own countries when the map is coloured by their stance
+export const SELF_STANCE_COLOR = "#38bdf8";
+
+const KEY_SEPARATOR = "|";
+
+export const getRelationshipKey = (a: string, b: string) => (a < b ? `${a}${KEY_SEPARATOR}${b}` : `${b}${KEY_SEPARATOR}${a}`);
+
+export const clampStance = (value: number) => Math.max(STANCE_MIN, Math.min(STANCE_MAX, Math.round(value) || 0));
+
+export const getStance = (relationships: Relationships, a: string, b: string) =>
+  a === b ? STANCE_MAX : relationships[getRelationshipKey(a, b)] ?? 0;
+
+export const getStanceInfo = (value: number) => STANCES.find((stance) => stance.value === clampStance(value)) ?? STANCES[2];
+
+// Neutral pairs are dropped rather than stored as 0
+export const withStance = (relationships: Relationships, a: string, b: string, value: number): Relationships => {
+  if (a === b) return relationships;
+  const key = getRelationshipKey(a, b);
+  const stance = clampStance(value);
+  if ((relationships[key] ?? 0) === stance) return relationships;
+  if (stance === 0) {
+    const { [key]: _removed, ...rest } = relationships;
+    return rest;
+  }
+  return { ...relationships, [key]: stance };
+};
+
+export const withoutParticipant = (relationships: Relationships, id: string): Relationships => {
+  const kept = Object.entries(relationships).filter(([key]) => !key.split(KEY_SEPARATOR).includes(id));
+  return kept.length === Object.keys(relationships).length ? relationships : Object.fromEntries(kept);
+};
+
+// A country's stance toward `focusId` is that of its owners, or failing that of the
+// local actors in it, averaged; null when nobody holds it
+export const getCountryStance = (relationships: Relationships, focusId: string, holders: string[]) => {
+  if (!holders.length) return null;
+  if (holders.includes(focusId)) return "self" as const;
+  const total = holders.reduce((sum, id) => sum + getStance(relationships, focusId, id), 0);
+  return clampStance(total / holders.length);
+};
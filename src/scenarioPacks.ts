@@ -0,0 +1,265 @@
+import { normalizeSeaLink } from "./adjacency";
+import type { SeaLink } from "./adjacency";
+import type { TokenPoolKind } from "./gameState";
+import type { TimeUnit, TrackThreshold } from "./gameTypes";
+import { PLAYER_COLORS } from "./playerColors";
+import { TIME_UNITS, isFiniteNumber, isRecord } from "./validation";
+
+// A scenario pack is a JSON file describing one exercise: its phases, starting
+// players and territory, token defaults, tracks and outbreak candidates. The active
+// pack travels inside the game state so saves replay under the same rules.
+
+export type ScenarioPhase = { name: string; seconds: number };
+
+export type ScenarioPlayer = { id: string; name: string; color: string; countries: string[] };
+
+export type ScenarioCustomTrack = {
+  id: string;
+  name: string;
+  color: string;
+  min: number;
+  max: number;
+  start: number;
+  thresholds: TrackThreshold[];
+  showOnHud: boolean;
+};
+
+export type ScenarioTracks = {
+  interestLevels: number;
+  // 0 turns the vaccine track off for scenarios without a pandemic
+  vaccineMax: number;
+  custom: ScenarioCustomTrack[];
+};
+
+export type ScenarioPack = {
+  id: string;
+  title: string;
+  description: string;
+  startDate: string; // YYYY-MM-DD
+  phases: ScenarioPhase[];
+  timeAdvance: { value: number; unit: TimeUnit };
+  countryGroups: Record<string, string[]>;
+  players: ScenarioPlayer[];
+  tokens: Record<TokenPoolKind, number>;
+  tracks: ScenarioTracks;
+  outbreakCandidates: string[];
+  // Crossings that count as borders though no land is shared, e.g. ["France", "United Kingdom"]
+  seaLinks: SeaLink[];
+};
+
+export type ScenarioParseResult = { ok: true; pack: ScenarioPack } | { ok: false; errors: string[] };
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+// Only id, title and phases are required; everything else falls back to a plain default.
+export const parseScenarioPack = (raw: unknown): ScenarioParseResult => {
+  if (!isRecord(raw)) return { ok: false, errors: ["The scenario pack must be a JSON object."] };
+  const errors: string[] = [];
+  const text = (path: string, value: unknown, fallback?: string) => {
+    if (value === undefined && fallback !== undefined) return fallback;
+    if (typeof value === "string" && value.trim()) return value.trim();
+    errors.push(`${path} must be text.`);
+    return "";
+  };
+  const count = (path: string, value: unknown, fallback: number) => {
+    if (value === undefined) return fallback;
+    if (isFiniteNumber(value) && value >= 0) return Math.floor(value);
+    errors.push(`${path} must be a number of zero or more.`);
+    return fallback;
+  };
+
+  const id = text("id", raw.id);
+  const title = text("title", raw.title);
+  const description = raw.description === undefined ? "" : text("description", raw.description);
+
+  const startDate = text("startDate", raw.startDate, new Date().toISOString().slice(0, 10));
+  if (Number.isNaN(new Date(startDate).getTime())) errors.push("startDate must be a date such as 2030-01-01.");
+
+  const phases: ScenarioPhase[] = [];
+  if (!Array.isArray(raw.phases) || !raw.phases.length) {
+    errors.push("phases must list at least one phase.");
+  } else {
+    raw.phases.forEach((phase, index) => {
+      if (!isRecord(phase)) {
+        errors.push(`phases[${index}] must have a name and seconds.`);
+        return;
+      }
+      phases.push({ name: text(`phases[${index}].name`, phase.name), seconds: count(`phases[${index}].seconds`, phase.seconds, 120) });
+    });
+  }
+
+  let timeAdvance: ScenarioPack["timeAdvance"] = { value: 7, unit: "days" };
+  if (raw.timeAdvance !== undefined) {
+    const value = isRecord(raw.timeAdvance) ? raw.timeAdvance : {};
+    if (!isFiniteNumber(value.value) || value.value < 1 || !TIME_UNITS.includes(value.unit as TimeUnit)) {
+      errors.push(`timeAdvance must have a value of 1 or more and a unit of ${TIME_UNITS.join(", ")}.`);
+    } else {
+      timeAdvance = { value: Math.floor(value.value), unit: value.unit as TimeUnit };
+    }
+  }
+
+  const countryGroups: Record<string, string[]> = {};
+  if (raw.countryGroups !== undefined) {
+    if (!isRecord(raw.countryGroups)) {
+      errors.push("countryGroups must map group names to lists of countries.");
+    } else {
+      Object.entries(raw.countryGroups).forEach(([group, countries]) => {
+        if (isStringList(countries)) countryGroups[group] = countries;
+        else errors.push(`countryGroups["${group}"] must be a list of country names.`);
+      });
+    }
+  }
+
+  const players: ScenarioPlayer[] = [];
+  if (raw.players !== undefined && !Array.isArray(raw.players)) {
+    errors.push("players must be a list.");
+  } else {
+    ((raw.players as unknown[] | undefined) ?? []).forEach((player, index) => {
+      const path = `players[${index}]`;
+      if (!isRecord(player)) {
+        errors.push(`${path} must be a player.`);
+        return;
+      }
+      const countries = player.countries ?? [];
+      if (!isStringList(countries)) errors.push(`${path}.countries must be a list of country names.`);
+      players.push({
+        id: text(`${path}.id`, player.id, `p${index + 1}`),
+        name: text(`${path}.name`, player.name),
+        color: text(`${path}.color`, player.color, PLAYER_COLORS[index % PLAYER_COLORS.length]),
+        countries: isStringList(countries) ? countries : [],
+      });
+    });
+    const ids = players.map((player) => player.id);
+    if (new Set(ids).size !== ids.length) errors.push("players must have unique ids.");
+  }
+
+  const tokens = isRecord(raw.tokens) ? raw.tokens : {};
+  if (raw.tokens !== undefined && !isRecord(raw.tokens)) errors.push("tokens must give player, country and actor allowances.");
+  const tracks = isRecord(raw.tracks) ? raw.tracks : {};
+  if (raw.tracks !== undefined && !isRecord(raw.tracks)) errors.push("tracks must give interestLevels, vaccineMax and custom tracks.");
+
+  const customTracks: ScenarioCustomTrack[] = [];
+  if (tracks.custom !== undefined && !Array.isArray(tracks.custom)) {
+    errors.push("tracks.custom must be a list.");
+  } else {
+    ((tracks.custom as unknown[] | undefined) ?? []).forEach((track, index) => {
+      const path = `tracks.custom[${index}]`;
+      if (!isRecord(track)) {
+        errors.push(`${path} must be a track.`);
+        return;
+      }
+      const bound = (key: string, fallback: number) => {
+        const value = track[key];
+        if (value === undefined) return fallback;
+        if (isFiniteNumber(value)) return Math.round(value);
+        errors.push(`${path}.${key} must be a number.`);
+        return fallback;
+      };
+      const min = bound("min", 0);
+      const max = bound("max", 10);
+      if (max <= min) errors.push(`${path}.max must be greater than min.`);
+      const thresholds: TrackThreshold[] = [];
+      if (track.thresholds !== undefined && !Array.isArray(track.thresholds)) {
+        errors.push(`${path}.thresholds must be a list.`);
+      } else {
+        ((track.thresholds as unknown[] | undefined) ?? []).forEach((threshold, thresholdIndex) => {
+          if (isRecord(threshold) && isFiniteNumber(threshold.value) && typeof threshold.label === "string") {
+            thresholds.push({ value: Math.round(threshold.value), label: threshold.label });
+          } else {
+            errors.push(`${path}.thresholds[${thresholdIndex}] must have a numeric value and a label.`);
+          }
+        });
+      }
+      customTracks.push({
+        id: text(`${path}.id`, track.id, `track-${index + 1}`),
+        name: text(`${path}.name`, track.name),
+        color: text(`${path}.color`, track.color, "#38bdf8"),
+        min,
+        max,
+        start: bound("start", min),
+        thresholds,
+        showOnHud: track.showOnHud === true,
+      });
+    });
+    const ids = customTracks.map((track) => track.id);
+    if (new Set(ids).size !== ids.length) errors.push("tracks.custom must have unique ids.");
+  }
+
+  const outbreakCandidates = raw.outbreakCandidates ?? [];
+  if (!isStringList(outbreakCandidates)) errors.push("outbreakCandidates must be a list of country names.");
+
+  const seaLinks: SeaLink[] = [];
+  if (raw.seaLinks !== undefined && !Array.isArray(raw.seaLinks)) {
+    errors.push("seaLinks must be a list of country pairs.");
+  } else {
+    ((raw.seaLinks as unknown[] | undefined) ?? []).forEach((link, index) => {
+      if (isStringList(link) && link.length === 2 && link[0] !== link[1]) {
+        seaLinks.push(normalizeSeaLink(link[0], link[1]));
+      } else {
+        errors.push(`seaLinks[${index}] must name two different countries.`);
+      }
+    });
+  }
+
+  const pack: ScenarioPack = {
+    id,
+    title,
+    description,
+    startDate,
+    phases,
+    timeAdvance,
+    countryGroups,
+    players,
+    tokens: {
+      player: count("tokens.player", tokens.player, 5),
+      country: count("tokens.country", tokens.country, 3),
+      actor: count("tokens.actor", tokens.actor, 3),
+    },
+    tracks: {
+      interestLevels: Math.max(1, count("tracks.interestLevels", tracks.interestLevels, 4)),
+      vaccineMax: count("tracks.vaccineMax", tracks.vaccineMax, 0),
+      custom: customTracks,
+    },
+    outbreakCandidates: isStringList(outbreakCandidates) ? outbreakCandidates : [],
+    seaLinks,
+  };
+  return errors.length ? { ok: false, errors } : { ok: true, pack };
+};
+
+export const readScenarioFile = async (file: File): Promise<ScenarioParseResult> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    return { ok: false, errors: [`${file.name} is not valid JSON.`] };
+  }
+  return parseScenarioPack(raw);
+};
+
+// ────────────────────────────────────────────────────────────────────────────
+// Built-in packs
+// ────────────────────────────────────────────────────────────────────────────
+
+// Any pack dropped into src/scenarios ships with the app
+const BUNDLED_PACKS = import.meta.glob("./scenarios/*.json", { eager: true, import: "default" });
+
+export const BUILT_IN_SCENARIOS: ScenarioPack[] = Object.entries(BUNDLED_PACKS)
+  .flatMap(([path, raw]) => {
+    const result = parseScenarioPack(raw);
+    if (!result.ok) {
+      console.error(`Invalid scenario pack ${path}:`, result.errors);
+      return [];
+    }
+    return [result.pack];
+  })
+  .sort((a, b) => a.title.localeCompare(b.title));
+
+const DEFAULT_SCENARIO_ID = "pandemic-2030";
+
+// The pandemic exercise the game was built around; saves from before scenario packs use it
+export const DEFAULT_SCENARIO: ScenarioPack = (() => {
+  const pack = BUILT_IN_SCENARIOS.find((scenario) => scenario.id === DEFAULT_SCENARIO_ID) ?? BUILT_IN_SCENARIOS[0];
+  if (!pack) throw new Error("No built-in scenario packs were bundled.");
+  return pack;
+})();
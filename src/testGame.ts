@@ -0,0 +1,24 @@
+import { createInitialGameState, gameReducer } from "./gameState";
+import type { GameAction, GameState } from "./gameState";
+
+// The game the reducer tests start from: the default pack (7-day rounds, 5 player and
+// 3 country tokens, 4 interest levels) with Blue holding France and Germany and Red
+// sharing Germany.
+
+type Reducer = (state: GameState, action: GameAction) => GameState;
+
+export const TEST_START_DATE = "2030-01-01T00:00:00.000Z";
+
+export const play = (state: GameState, ...actions: GameAction[]) => playWith(gameReducer, state, ...actions);
+
+export const playWith = (reducer: Reducer, state: GameState, ...actions: GameAction[]) => actions.reduce(reducer, state);
+
+export const createTestGame = (reducer: Reducer = gameReducer) =>
+  playWith(
+    reducer,
+    createInitialGameState(TEST_START_DATE),
+    { type: "addPlayer", player: { id: "p1", name: "Blue", color: "#3b82f6" } },
+    { type: "addPlayer", player: { id: "p2", name: "Red", color: "#ef4444" } },
+    { type: "assignCountries", countries: ["France", "Germany"], playerId: "p1" },
+    { type: "assignCountries", countries: ["Germany"], playerId: "p2" }
+  );
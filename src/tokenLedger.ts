@@ -0,0 +1,34 @@
+import type { TokenPoolKind } from "./gameState";
+import type { TokenLedgerEntry, TokenLedgerKind, TokenPoolRef } from "./gameTypes";
+
+// The token ledger: the reducer writes an entry for every spend, refund, replenish,
+// allowance change and transfer, so any pool's balance can be traced round by round.
+
+export const TOKEN_LEDGER_KIND_LABELS: Record<TokenLedgerKind, string> = {
+  spend: "Spent",
+  refund: "Refunded",
+  replenish: "Replenished",
+  allowance: "Allowance",
+  transfer: "Transfer",
+};
+
+export const TOKEN_POOL_KIND_LABELS: Record<TokenPoolKind, string> = {
+  player: "Player",
+  country: "Country",
+  actor: "Local actor",
+};
+
+// Pools as select values, e.g. "country:France"; kinds never contain the separator
+export const getPoolKey = ({ pool, id }: TokenPoolRef) => `${pool}:${id}`;
+
+export const parsePoolKey = (key: string): TokenPoolRef | null => {
+  const separator = key.indexOf(":");
+  const pool = key.slice(0, separator) as TokenPoolKind;
+  if (separator === -1 || !(pool in TOKEN_POOL_KIND_LABELS)) return null;
+  return { pool, id: key.slice(separator + 1) };
+};
+
+export const isSamePool = (a: TokenPoolRef, b: TokenPoolRef) => a.pool === b.pool && a.id === b.id;
+
+export const getPoolLedger = (ledger: TokenLedgerEntry[], ref: TokenPoolRef) =>
+  ledger.filter((entry) => entry.pool === ref.pool && entry.poolId === ref.id);
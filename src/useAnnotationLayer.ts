@@ -0,0 +1,181 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { MutableRefObject } from "react";
+import type L from "leaflet";
+import { ANNOTATION_KIND_LABELS, ANNOTATION_POINTS, DEFAULT_ANNOTATION_COLOR, createAnnotation, isAnnotationShownTo, isAnnotationVisible } from "./annotations";
+import type { FogVisibility } from "./fogOfWar";
+import type { GameAction } from "./gameState";
+import type { Annotation, AnnotationKind, LatLng } from "./gameTypes";
+import { createAnnotationOverlay } from "./mapGraphics";
+
+type AnnotationLayerOptions = {
+  mapRef: MutableRefObject<L.Map | null>;
+  mapReady: boolean;
+  mapLocked: boolean;
+  annotations: Annotation[];
+  roundNumber: number;
+  // Null in the adjudicator's view, which sees every annotation
+  fogViewerId: string | null;
+  fogVisibility: FogVisibility;
+  fogRadius: number;
+  isHiddenFromViewer: (position: LatLng) => boolean;
+  // Picking a drawing tool puts down whatever other map tool was in hand
+  onChooseTool: () => void;
+  recordHistory: (label: string) => void;
+  dispatch: (action: GameAction) => void;
+};
+
+// Sketches on the map: the drawing tool that turns clicks into annotations, and the
+// overlays for the finished annotations and the one being drawn.
+export default function useAnnotationLayer({
+  mapRef,
+  mapReady,
+  mapLocked,
+  annotations,
+  roundNumber,
+  fogViewerId,
+  fogVisibility,
+  fogRadius,
+  isHiddenFromViewer,
+  onChooseTool,
+  recordHistory,
+  dispatch,
+}: AnnotationLayerOptions) {
+  const [showDrawToolbar, setShowDrawToolbar] = useState<boolean>(false);
+  const [drawTool, setDrawTool] = useState<AnnotationKind | null>(null);
+  const drawToolRef = useRef<AnnotationKind | null>(null);
+  drawToolRef.current = drawTool;
+  // Points clicked so far for the shape being drawn
+  const [drawDraft, setDrawDraft] = useState<LatLng[]>([]);
+  const [drawColor, setDrawColor] = useState<string>(DEFAULT_ANNOTATION_COLOR);
+  // Empty for the adjudicator
+  const [drawOwnerId, setDrawOwnerId] = useState<string>("");
+  // The adjudicator's sketches are for the room; a participant's stay with them unless shared
+  const [drawPublic, setDrawPublic] = useState<boolean>(true);
+  const [drawThisRoundOnly, setDrawThisRoundOnly] = useState<boolean>(true);
+  const [drawText, setDrawText] = useState<string>("");
+  const [showAllAnnotations, setShowAllAnnotations] = useState<boolean>(false);
+  const visibleAnnotations = useMemo(
+    () =>
+      annotations.filter(
+        (annotation) =>
+          (showAllAnnotations || isAnnotationVisible(annotation, roundNumber)) &&
+          (fogViewerId === null || isAnnotationShownTo(annotation, fogViewerId, isHiddenFromViewer))
+      ),
+    // isHiddenFromViewer reads the country layers, which only change when the fog does
+    [annotations, roundNumber, showAllAnnotations, fogViewerId, fogVisibility, fogRadius]
+  );
+
+  const chooseDrawTool = (tool: AnnotationKind) => {
+    setDrawTool((prev) => (prev === tool ? null : tool));
+    setDrawDraft([]);
+    onChooseTool();
+  };
+
+  const cancelDrawing = () => {
+    setDrawTool(null);
+    setDrawDraft([]);
+  };
+
+  const finishDrawing = (points: LatLng[] = drawDraft) => {
+    if (!drawTool) return;
+    const annotation = createAnnotation(`annotation-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, drawTool, points, {
+      color: drawColor,
+      ownerId: drawOwnerId || null,
+      text: drawText,
+      round: drawThisRoundOnly ? roundNumber : null,
+      public: drawPublic,
+    });
+    if (!annotation) return;
+    recordHistory(`Drew ${ANNOTATION_KIND_LABELS[annotation.kind].toLowerCase()}`);
+    dispatch({ type: "addAnnotation", annotation });
+    // The tool stays picked so several shapes can be drawn in a row
+    setDrawDraft([]);
+  };
+
+  const addDrawPoint = (point: LatLng) => {
+    if (!drawTool) return;
+    if (drawTool === "text" && !drawText.trim()) return;
+    const points = [...drawDraft, point];
+    if (points.length === ANNOTATION_POINTS[drawTool].max) {
+      finishDrawing(points);
+    } else {
+      setDrawDraft(points);
+    }
+  };
+
+  const drawHandlersRef = useRef({ addDrawPoint, finishDrawing });
+  drawHandlersRef.current = { addDrawPoint, finishDrawing };
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady) return;
+    const onClick = (event: L.LeafletMouseEvent) => {
+      if (!drawToolRef.current) return;
+      drawHandlersRef.current.addDrawPoint({ lat: event.latlng.lat, lng: event.latlng.lng });
+    };
+    const onDoubleClick = () => {
+      if (drawToolRef.current) drawHandlersRef.current.finishDrawing();
+    };
+    map.on("click", onClick);
+    map.on("dblclick", onDoubleClick);
+    return () => {
+      map.off("click", onClick);
+      map.off("dblclick", onDoubleClick);
+    };
+  }, [mapReady]);
+
+  // Double-click finishes a line while drawing instead of zooming
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady) return;
+    if (drawTool) map.doubleClickZoom.disable();
+    else if (!mapLocked) map.doubleClickZoom.enable();
+    map.getContainer().classList.toggle("map-draw-tool-active", Boolean(drawTool));
+  }, [mapReady, drawTool, mapLocked]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady || !visibleAnnotations.length) return;
+    const overlay = createAnnotationOverlay(map, visibleAnnotations).addTo(map);
+    return () => {
+      overlay.remove();
+    };
+  }, [mapReady, visibleAnnotations]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady || !drawTool || !drawDraft.length) return;
+    const overlay = createAnnotationOverlay(
+      map,
+      [{ id: "draft", kind: drawTool, color: drawColor, ownerId: null, points: drawDraft, radiusKm: 0, text: "", round: null, public: false }],
+      true
+    ).addTo(map);
+    return () => {
+      overlay.remove();
+    };
+  }, [mapReady, drawTool, drawDraft, drawColor]);
+
+  return {
+    showDrawToolbar,
+    setShowDrawToolbar,
+    drawTool,
+    drawToolRef,
+    drawDraft,
+    drawColor,
+    setDrawColor,
+    drawOwnerId,
+    setDrawOwnerId,
+    drawPublic,
+    setDrawPublic,
+    drawThisRoundOnly,
+    setDrawThisRoundOnly,
+    drawText,
+    setDrawText,
+    showAllAnnotations,
+    setShowAllAnnotations,
+    visibleAnnotations,
+    chooseDrawTool,
+    cancelDrawing,
+    finishDrawing,
+  };
+}
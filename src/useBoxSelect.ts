@@ -0,0 +1,68 @@
+import { useEffect, useRef } from "react";
+import type { MutableRefObject } from "react";
+import L from "leaflet";
+import { getCountryAnchor } from "./mapGraphics";
+
+type BoxSelectOptions = {
+  mapRef: MutableRefObject<L.Map | null>;
+  mapReady: boolean;
+  mapLocked: boolean;
+  active: boolean;
+  // Country polygons by name, as drawn on the map
+  countryLayers: MutableRefObject<Record<string, L.Polygon>>;
+  color: string;
+  onSelect: (countries: string[]) => void;
+};
+
+// While active, dragging a box adds every country whose largest landmass is centred
+// inside it, and the map stops panning so the drag draws the box instead.
+export default function useBoxSelect({ mapRef, mapReady, mapLocked, active, countryLayers, color, onSelect }: BoxSelectOptions) {
+  const onSelectRef = useRef(onSelect);
+  onSelectRef.current = onSelect;
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady || !active) return;
+    let start: L.LatLng | null = null;
+    let box: L.Rectangle | null = null;
+    const onMouseDown = (event: L.LeafletMouseEvent) => {
+      start = event.latlng;
+    };
+    const onMouseMove = (event: L.LeafletMouseEvent) => {
+      if (!start) return;
+      const bounds = L.latLngBounds(start, event.latlng);
+      if (box) {
+        box.setBounds(bounds);
+      } else {
+        box = L.rectangle(bounds, { color, weight: 1.5, dashArray: "4 4", fillOpacity: 0.08, interactive: false }).addTo(map);
+      }
+    };
+    const onMouseUp = (event: L.LeafletMouseEvent) => {
+      if (!start) return;
+      const bounds = L.latLngBounds(start, event.latlng);
+      start = null;
+      box?.remove();
+      box = null;
+      const inside = Object.entries(countryLayers.current)
+        .filter(([, polygon]) => {
+          const anchor = getCountryAnchor(polygon);
+          return anchor !== null && bounds.contains([anchor.lat, anchor.lng]);
+        })
+        .map(([name]) => name);
+      if (inside.length) onSelectRef.current(inside);
+    };
+    map.dragging.disable();
+    map.getContainer().classList.add("map-box-select-active");
+    map.on("mousedown", onMouseDown);
+    map.on("mousemove", onMouseMove);
+    map.on("mouseup", onMouseUp);
+    return () => {
+      map.off("mousedown", onMouseDown);
+      map.off("mousemove", onMouseMove);
+      map.off("mouseup", onMouseUp);
+      box?.remove();
+      map.getContainer().classList.remove("map-box-select-active");
+      if (!mapLocked) map.dragging.enable();
+    };
+  }, [mapReady, active, mapLocked]);
+}
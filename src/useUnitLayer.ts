@@ -0,0 +1,175 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { MutableRefObject } from "react";
+import L from "leaflet";
+import type { FogVisibility } from "./fogOfWar";
+import type { GameAction } from "./gameState";
+import type { LatLng, MapUnit, TrackParticipant } from "./gameTypes";
+import { blendHexColors, createUnitIcon, createUnitPathOverlay } from "./mapGraphics";
+import type { UnitPath } from "./mapGraphics";
+import { STACK_SNAP_PX, UNIT_KIND_ICONS, getStackStrength, getUnitStacks } from "./mapUnits";
+import type { UnitStack } from "./mapUnits";
+import { NEUTRAL_COLOR } from "./playerColors";
+
+type UnitLayerOptions = {
+  mapRef: MutableRefObject<L.Map | null>;
+  mapReady: boolean;
+  units: MapUnit[];
+  participants: TrackParticipant[];
+  // Null in the adjudicator's view, which sees every unit
+  fogViewerId: string | null;
+  fogVisibility: FogVisibility;
+  fogRadius: number;
+  isHiddenFromViewer: (position: LatLng) => boolean;
+  recordHistory: (label: string) => void;
+  dispatch: (action: GameAction) => void;
+};
+
+// Unit counters on the map: one draggable marker per stack, and the selected stack's
+// move history drawn as paths.
+export default function useUnitLayer({
+  mapRef,
+  mapReady,
+  units,
+  participants,
+  fogViewerId,
+  fogVisibility,
+  fogRadius,
+  isHiddenFromViewer,
+  recordHistory,
+  dispatch,
+}: UnitLayerOptions) {
+  // Keyed by stack id
+  const markersRef = useRef<Record<string, L.Marker>>({});
+  // Any unit in the selected stack; the stack is what gets selected
+  const [selectedUnitId, setSelectedUnitId] = useState<string | null>(null);
+  const unitStacks = useMemo(() => getUnitStacks(units), [units]);
+  const unitStacksRef = useRef<UnitStack[]>(unitStacks);
+  unitStacksRef.current = unitStacks;
+  const selectedStack = unitStacks.find((stack) => stack.units.some((unit) => unit.id === selectedUnitId)) ?? null;
+  const getUnitOwnerName = (ownerId: string) => participants.find((participant) => participant.id === ownerId)?.name ?? ownerId;
+  const getUnitColor = (ownerId: string) => participants.find((participant) => participant.id === ownerId)?.color ?? NEUTRAL_COLOR;
+  const getStackColor = (stack: UnitStack) => blendHexColors(Array.from(new Set(stack.units.map((unit) => getUnitColor(unit.ownerId)))));
+  const getStackGlyph = (stack: UnitStack) =>
+    stack.units.every((unit) => unit.kind === stack.units[0].kind) ? UNIT_KIND_ICONS[stack.units[0].kind] : "▦";
+  const describeStack = (stack: UnitStack) =>
+    stack.units.map((unit) => `${getUnitOwnerName(unit.ownerId)} ${unit.label} (${unit.strength})`).join(", ");
+  // Owners see their own units through fog
+  const isStackHidden = (stack: UnitStack) =>
+    fogViewerId !== null && !stack.units.some((unit) => unit.ownerId === fogViewerId) && isHiddenFromViewer(stack.position);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    const markers = markersRef.current;
+    const activeIds = new Set<string>();
+
+    unitStacks.forEach((stack) => {
+      activeIds.add(stack.id);
+      const icon = createUnitIcon(
+        getStackColor(stack),
+        getStackGlyph(stack),
+        getStackStrength(stack),
+        stack.units.length,
+        stack === selectedStack
+      );
+      let marker = markers[stack.id];
+      if (!marker) {
+        marker = L.marker([stack.position.lat, stack.position.lng], {
+          draggable: true,
+          bubblingMouseEvents: false,
+          autoPan: true,
+          icon,
+        });
+        const stackId = stack.id;
+        marker.on("click", () => setSelectedUnitId(stackId));
+        // Dropped near another stack, the units join it
+        marker.on("dragend", (event) => {
+          const target = event.target as L.Marker;
+          const stacks = unitStacksRef.current;
+          const moving = stacks.find((item) => item.id === stackId);
+          if (!moving) return;
+          const dropPoint = map.latLngToContainerPoint(target.getLatLng());
+          const joined = stacks.find(
+            (other) =>
+              other.id !== stackId &&
+              map.latLngToContainerPoint([other.position.lat, other.position.lng]).distanceTo(dropPoint) <= STACK_SNAP_PX
+          );
+          const { lat, lng } = target.getLatLng();
+          recordHistory(`Moved ${target.getTooltip()?.getContent() ?? "units"}`);
+          dispatch({
+            type: "moveUnits",
+            unitIds: moving.units.map((unit) => unit.id),
+            position: joined ? joined.position : { lat, lng },
+          });
+          setSelectedUnitId(stackId);
+        });
+        marker.addTo(map);
+        marker.bindTooltip(describeStack(stack), { direction: "top", offset: [0, -4], opacity: 0.85 });
+        markers[stack.id] = marker;
+      } else {
+        marker.setLatLng([stack.position.lat, stack.position.lng]);
+        marker.getTooltip()?.setContent(describeStack(stack));
+      }
+      marker.setIcon(icon);
+      if (isStackHidden(stack)) {
+        marker.remove();
+      } else if (!map.hasLayer(marker)) {
+        marker.addTo(map);
+      }
+    });
+
+    Object.entries(markers).forEach(([id, marker]) => {
+      if (!activeIds.has(id)) {
+        map.removeLayer(marker);
+        delete markers[id];
+      }
+    });
+  }, [unitStacks, selectedStack, participants, fogVisibility, fogRadius]);
+
+  useEffect(() => {
+    return () => {
+      const markers = markersRef.current;
+      Object.keys(markers).forEach((id) => {
+        markers[id].remove();
+        delete markers[id];
+      });
+    };
+  }, []);
+
+  // The selected stack's move history
+  const unitPaths = useMemo<UnitPath[]>(
+    () =>
+      selectedStack && !isStackHidden(selectedStack)
+        ? selectedStack.units
+            .filter((unit) => unit.path.length)
+            .map((unit) => ({
+              id: unit.id,
+              label: `${getUnitOwnerName(unit.ownerId)}'s ${unit.label}`,
+              color: getUnitColor(unit.ownerId),
+              waypoints: unit.path,
+              position: unit.position,
+            }))
+        : [],
+    [selectedStack, participants, fogVisibility, fogRadius]
+  );
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady || !unitPaths.length) return;
+    const overlay = createUnitPathOverlay(map, unitPaths).addTo(map);
+    return () => {
+      overlay.remove();
+    };
+  }, [mapReady, unitPaths]);
+
+  return {
+    unitStacks,
+    selectedStack,
+    selectedUnitId,
+    setSelectedUnitId,
+    getUnitOwnerName,
+    getUnitColor,
+    getStackColor,
+    getStackGlyph,
+  };
+}
@@ -0,0 +1,11 @@
+import type { TimeUnit } from "./gameTypes";
+
+// Checks shared by everything that reads JSON from outside the app: saves, scenario
+// packs and boundary files.
+
+export const TIME_UNITS: TimeUnit[] = ["days", "months", "years"];
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);